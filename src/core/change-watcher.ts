@@ -0,0 +1,156 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import { Logger } from '../utils/logger';
+import { ConfigurationError } from '../errors';
+import { WatchOptions } from '../types';
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_QUIET_PERIOD = 2000;
+const DEFAULT_MAX_DELAY = 10_000;
+
+/**
+ * Detects commits to the database by polling `PRAGMA data_version` on a read-only side connection.
+ * The value changes only when another connection commits, so reads and automatic checkpoints don't count.
+ * `onChange` is called once writes have been quiet for `quietPeriod`, or `maxDelay` after the
+ * first unsynced commit when writes keep coming.
+ */
+export class ChangeWatcher {
+  private dbPath: string;
+  private onChange: () => void;
+  private logger: Logger;
+  private pollInterval: number;
+  private quietPeriod: number;
+  private maxDelay: number;
+  private db: Database.Database | null = null;
+  // Identity of the file the side connection has open; a pull replaces the file
+  private inode: number | null = null;
+  private dataVersion = 0;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private firstChangeAt: number | null = null;
+  private watching = false;
+
+  constructor(dbPath: string, options: WatchOptions, onChange: () => void, logger: Logger) {
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.quietPeriod = options.quietPeriod ?? DEFAULT_QUIET_PERIOD;
+    this.maxDelay = options.maxDelay ?? Math.max(this.quietPeriod, DEFAULT_MAX_DELAY);
+
+    for (const [name, value] of [['pollInterval', this.pollInterval], ['quietPeriod', this.quietPeriod]] as const) {
+      if (!(value > 0) || !Number.isFinite(value)) {
+        throw new ConfigurationError(`Watch ${name} must be a positive number of milliseconds`);
+      }
+    }
+    if (!(this.maxDelay >= this.quietPeriod)) {
+      throw new ConfigurationError('Watch maxDelay must not be less than quietPeriod');
+    }
+
+    this.dbPath = dbPath;
+    this.onChange = onChange;
+    this.logger = logger;
+  }
+
+  start(): void {
+    this.watching = true;
+    this.open();
+    this.schedulePoll();
+  }
+
+  /**
+   * Stop polling and drop pending changes; they are picked up by the next sync anyway
+   */
+  stop(): void {
+    this.watching = false;
+    this.firstChangeAt = null;
+    for (const timer of [this.pollTimer, this.debounceTimer]) {
+      if (timer) clearTimeout(timer);
+    }
+    this.pollTimer = null;
+    this.debounceTimer = null;
+    this.close();
+  }
+
+  /**
+   * Follow a database file replaced by our own pull or restore without reporting it as a change
+   */
+  rebase(): void {
+    if (this.watching && this.currentInode() !== this.inode) {
+      this.open();
+    }
+  }
+
+  /**
+   * True while commits are waiting for the debounced sync
+   */
+  hasPendingChanges(): boolean {
+    return this.firstChangeAt !== null;
+  }
+
+  private open(): void {
+    this.close();
+    try {
+      this.inode = this.currentInode();
+      this.db = new Database(this.dbPath, { readonly: true, fileMustExist: true });
+      this.dataVersion = this.readDataVersion();
+    } catch (error) {
+      this.close();
+      this.logger.warn(`Cannot watch ${this.dbPath} for changes, retrying`, error);
+    }
+  }
+
+  private close(): void {
+    this.db?.close();
+    this.db = null;
+    this.inode = null;
+  }
+
+  private currentInode(): number | null {
+    return fs.statSync(this.dbPath, { throwIfNoEntry: false })?.ino ?? null;
+  }
+
+  private readDataVersion(): number {
+    return this.db!.pragma('data_version', { simple: true }) as number;
+  }
+
+  private schedulePoll(): void {
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll();
+      if (this.watching) this.schedulePoll();
+    }, this.pollInterval);
+    this.pollTimer.unref?.();
+  }
+
+  private poll(): void {
+    // Replaced or recreated by someone else: treat the new file as changed
+    if (!this.db || this.currentInode() !== this.inode) {
+      this.open();
+      if (this.db) this.changed();
+      return;
+    }
+
+    try {
+      const version = this.readDataVersion();
+      if (version !== this.dataVersion) {
+        this.dataVersion = version;
+        this.changed();
+      }
+    } catch (error) {
+      this.logger.warn('Checking the database for changes failed', error);
+      this.close();
+    }
+  }
+
+  private changed(): void {
+    const now = Date.now();
+    this.firstChangeAt ??= now;
+    const runAt = Math.min(now + this.quietPeriod, this.firstChangeAt + this.maxDelay);
+
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.firstChangeAt = null;
+      this.onChange();
+    }, runAt - now);
+    this.debounceTimer.unref?.();
+  }
+}
@@ -0,0 +1,425 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { BaseProvider } from '../providers/base-provider';
+import { ChecksumUtil } from '../utils/checksum';
+import { CompressionUtil } from '../utils/compression';
+import { EncryptionKey, EncryptionUtil } from '../utils/encryption';
+import { Logger } from '../utils/logger';
+import { ChunkStats, ProviderEvents } from '../types';
+import { ChecksumMismatchError, CloudNotFoundError, ConfigurationError, EncryptionError } from '../errors';
+import { EncodeOptions } from './transfer-pipeline';
+
+const CHUNKS_FOLDER = 'chunks';
+const CHUNK_FILE_PATTERN = /^([a-f0-9]{64})(\.gz|\.br)?$/;
+const MANIFEST_FORMAT = 1;
+const MIN_CHUNK_SIZE = 4 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+export interface ChunkManifest {
+  format: number;
+  /** SHA-256 of the whole database */
+  checksum: string;
+  size: number;
+  chunkSize: number;
+  /** Name of each chunk, in file order: its SHA-256, or its HMAC under `keyId` when encrypted */
+  chunks: string[];
+  /** Key the chunks are encrypted and named with; absent for unencrypted chunks */
+  keyId?: string;
+}
+
+export interface ChunkTransferStats {
+  checksum: string;
+  rawBytes: number;
+  /** Size of the stored chunks that were transferred */
+  bytesTransferred: number;
+  chunks: ChunkStats;
+}
+
+interface ChunkLocation {
+  offset: number;
+  length: number;
+}
+
+// Computes the name a chunk is stored under
+type ChunkNamer = (chunk: Buffer) => string;
+
+/**
+ * Stores databases as fixed-size chunks under `chunks/`, named by the SHA-256 of their content,
+ * or by an HMAC under the encryption key so that names reveal nothing to anyone without it.
+ * Chunks are aligned to SQLite pages, so changing a row only changes the chunks holding its pages.
+ * Each chunk is compressed and encrypted on its own; manifests list the chunks of one database.
+ * Emits 'progress' over the database bytes processed, whether or not a chunk had to be transferred.
+ */
+export class ChunkStore extends EventEmitter<Pick<ProviderEvents, 'progress'>> {
+  private provider: BaseProvider;
+  private logger: Logger;
+
+  constructor(provider: BaseProvider, logger: Logger) {
+    super();
+    this.provider = provider;
+    this.logger = logger;
+  }
+
+  /**
+   * Powers of two line chunks up with SQLite pages of any size
+   */
+  static validateChunkSize(chunkSize: number): void {
+    const powerOfTwo = Number.isInteger(chunkSize) && (chunkSize & (chunkSize - 1)) === 0;
+    if (!powerOfTwo || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE) {
+      throw new ConfigurationError(`chunkSize must be a power of two between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes`);
+    }
+  }
+
+  /**
+   * Upload the chunks of a local file the cloud doesn't have yet, and describe the file in a manifest.
+   * The manifest itself is not uploaded. Names differ per key, so chunks stored in plaintext or under
+   * another key are never reused: they are uploaded again, encrypted with the current key.
+   */
+  async upload(
+    sourcePath: string,
+    chunkSize: number,
+    options: EncodeOptions
+  ): Promise<{ manifest: ChunkManifest; stats: ChunkTransferStats }> {
+    const stored = await this.listChunks();
+    const name = await ChunkStore.namer(options.key);
+    const keyId = options.key ? await options.key.getKeyId() : undefined;
+    const extension = CompressionUtil.getExtension(options.compression.codec);
+    // One salt per upload, so the key is derived once rather than per chunk
+    const salt = options.key ? EncryptionUtil.generateSalt() : undefined;
+    const { size: bytesTotal } = await fs.promises.stat(sourcePath);
+
+    const hash = crypto.createHash('sha256');
+    const chunks: string[] = [];
+    let size = 0;
+    let bytesTransferred = 0;
+    let transferred = 0;
+
+    for await (const chunk of ChunkStore.readChunks(sourcePath, chunkSize)) {
+      const chunkHash = name(chunk);
+      hash.update(chunk);
+      size += chunk.length;
+      chunks.push(chunkHash);
+
+      if (!stored.has(chunkHash)) {
+        let data = await CompressionUtil.compress(chunk, options.compression.codec, options.compression.level);
+        if (options.key) {
+          data = await EncryptionUtil.encrypt(data, options.key, salt);
+        }
+
+        const fileName = `${CHUNKS_FOLDER}/${chunkHash}${extension}`;
+        await this.provider.uploadFile(fileName, data);
+        stored.set(chunkHash, fileName);
+
+        bytesTransferred += data.length;
+        transferred++;
+      }
+
+      this.emit('progress', { phase: 'upload', fileName: CHUNKS_FOLDER, bytesDone: size, bytesTotal });
+    }
+
+    const checksum = hash.digest('hex');
+    this.logger.debug(`Uploaded ${transferred} of ${chunks.length} chunks (${bytesTransferred} bytes)`);
+
+    return {
+      manifest: { format: MANIFEST_FORMAT, checksum, size, chunkSize, chunks, keyId },
+      stats: { checksum, rawBytes: size, bytesTransferred, chunks: { total: chunks.length, transferred } }
+    };
+  }
+
+  /**
+   * Assemble the database described by a manifest in `targetPath`, which is only replaced once verified.
+   * Chunks already in `seedPath` (usually the local database) are copied from there instead of downloaded.
+   */
+  async download(
+    manifest: ChunkManifest,
+    targetPath: string,
+    options: { keys: EncryptionKey[]; seedPath?: string }
+  ): Promise<ChunkTransferStats> {
+    const name = await ChunkStore.namer(manifest.keyId ? await EncryptionUtil.findKey(manifest.keyId, options.keys) : null);
+    const seed = options.seedPath ? await ChunkStore.indexFile(options.seedPath, manifest.chunkSize, name) : new Map();
+    const written = new Map<string, ChunkLocation>();
+    const tempPath = `${targetPath}.download`;
+    let stored: Map<string, string> | null = null;
+
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    let bytesTransferred = 0;
+    let transferred = 0;
+
+    const target = await fs.promises.open(tempPath, 'w+');
+    const source = seed.size > 0 ? await fs.promises.open(options.seedPath!, 'r') : null;
+
+    try {
+      for (const chunkHash of manifest.chunks) {
+        let chunk = await readChunk(target, written.get(chunkHash), chunkHash, name) ??
+          (source && await readChunk(source, seed.get(chunkHash), chunkHash, name));
+
+        if (!chunk) {
+          stored ??= await this.listChunks();
+          const fileName = stored.get(chunkHash);
+          if (!fileName) {
+            throw new CloudNotFoundError(`Chunk ${chunkHash} is missing from the cloud`);
+          }
+
+          const data = await this.provider.downloadFile(fileName);
+          chunk = await ChunkStore.decodeChunk(data, fileName, options.keys);
+          if (name(chunk) !== chunkHash) {
+            throw new ChecksumMismatchError();
+          }
+
+          bytesTransferred += data.length;
+          transferred++;
+        }
+
+        await target.write(chunk, 0, chunk.length, size);
+        if (!written.has(chunkHash)) {
+          written.set(chunkHash, { offset: size, length: chunk.length });
+        }
+
+        hash.update(chunk);
+        size += chunk.length;
+        this.emit('progress', { phase: 'download', fileName: CHUNKS_FOLDER, bytesDone: size, bytesTotal: manifest.size });
+      }
+
+      await target.close();
+      if (hash.digest('hex') !== manifest.checksum || size !== manifest.size) {
+        throw new ChecksumMismatchError();
+      }
+
+      await fs.promises.rename(tempPath, targetPath);
+
+    } catch (error) {
+      await target.close().catch(() => undefined);
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+
+    } finally {
+      await source?.close();
+    }
+
+    this.logger.debug(`Downloaded ${transferred} of ${manifest.chunks.length} chunks (${bytesTransferred} bytes)`);
+    return {
+      checksum: manifest.checksum,
+      rawBytes: size,
+      bytesTransferred,
+      chunks: { total: manifest.chunks.length, transferred }
+    };
+  }
+
+  async readManifest(fileName: string): Promise<ChunkManifest> {
+    let manifest: ChunkManifest;
+    try {
+      manifest = JSON.parse((await this.provider.downloadFile(fileName)).toString('utf-8')) as ChunkManifest;
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      throw new ChecksumMismatchError(`Chunk manifest ${fileName} is corrupted`, { cause: error });
+    }
+
+    if (manifest.format !== MANIFEST_FORMAT) {
+      throw new ConfigurationError(
+        `Unsupported chunk manifest format in ${fileName}: ${manifest.format}. Upgrade sqlite-cloud-backup to read it`
+      );
+    }
+    return manifest;
+  }
+
+  async writeManifest(fileName: string, manifest: ChunkManifest): Promise<void> {
+    await this.provider.uploadFile(fileName, Buffer.from(JSON.stringify(manifest)));
+  }
+
+  /**
+   * Delete chunks none of the given manifests refer to
+   */
+  async collectGarbage(manifestFiles: string[]): Promise<number> {
+    const referenced = new Set<string>();
+    for (const fileName of manifestFiles) {
+      (await this.readManifest(fileName)).chunks.forEach(chunkHash => referenced.add(chunkHash));
+    }
+
+    let removed = 0;
+    for (const [chunkHash, fileName] of await this.listChunks()) {
+      if (referenced.has(chunkHash)) continue;
+
+      await this.provider.deleteFile(fileName);
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.logger.info(`Removed ${removed} unreferenced chunk(s)`);
+    }
+    return removed;
+  }
+
+  /**
+   * Re-encrypt the chunks of every manifest not yet under `to`. Chunk names depend on the key, so each
+   * chunk is uploaded under its new name and the manifest rewritten to list those; chunks no manifest
+   * refers to anymore are deleted at the end. Until then, old manifests stay readable with `from`.
+   */
+  async rotate(
+    manifestFiles: string[],
+    from: EncryptionKey,
+    to: EncryptionKey
+  ): Promise<{ rotated: number; skipped: number }> {
+    const toKeyId = await to.getKeyId();
+    const toName = await ChunkStore.namer(to);
+    const stored = await this.listChunks();
+    const salt = EncryptionUtil.generateSalt();
+    const renamed = new Map<string, string>(); // Old name -> new name
+    const current = new Set<string>(); // Chunks under `to` the manifests refer to
+    let rotated = 0;
+
+    for (const manifestFile of manifestFiles) {
+      const manifest = await this.readManifest(manifestFile);
+      if (manifest.keyId === toKeyId) {
+        manifest.chunks.forEach(chunkHash => current.add(chunkHash));
+        continue;
+      }
+
+      // Chunks uploaded before encryption was enabled are encrypted as well
+      const fromName = await ChunkStore.namer(manifest.keyId ? await EncryptionUtil.findKey(manifest.keyId, [from]) : null);
+      const chunks: string[] = [];
+
+      for (const chunkHash of manifest.chunks) {
+        let newHash = renamed.get(chunkHash);
+        if (!newHash) {
+          const fileName = stored.get(chunkHash);
+          if (!fileName) {
+            throw new CloudNotFoundError(`Chunk ${chunkHash} is missing from the cloud`);
+          }
+
+          const data = await this.provider.downloadFile(fileName);
+          const payload = EncryptionUtil.isEncrypted(data) ? await EncryptionUtil.decrypt(data, from) : data;
+          const codec = CompressionUtil.getCodecForExtension(path.posix.extname(fileName));
+          const chunk = await CompressionUtil.decompress(payload, codec);
+          if (fromName(chunk) !== chunkHash) {
+            throw new ChecksumMismatchError(`Checksum mismatch - data corruption detected in ${fileName}`);
+          }
+
+          newHash = toName(chunk);
+          // Uploaded by an interrupted rotation, or by a push under the new key
+          if (!stored.has(newHash)) {
+            // Never upload a chunk the new key can't read back
+            const encrypted = await EncryptionUtil.encrypt(payload, to, salt);
+            if (!(await EncryptionUtil.decrypt(encrypted, to)).equals(payload)) {
+              throw new EncryptionError(`Re-encryption of ${fileName} could not be verified`);
+            }
+
+            const newFileName = `${CHUNKS_FOLDER}/${newHash}${path.posix.extname(fileName)}`;
+            await this.provider.uploadFile(newFileName, encrypted);
+            stored.set(newHash, newFileName);
+            rotated++;
+          }
+          renamed.set(chunkHash, newHash);
+        }
+
+        chunks.push(newHash);
+        current.add(newHash);
+      }
+
+      await this.writeManifest(manifestFile, { ...manifest, chunks, keyId: toKeyId });
+    }
+
+    await this.collectGarbage(manifestFiles);
+    return { rotated, skipped: current.size - rotated };
+  }
+
+  /**
+   * Stored chunks by name
+   */
+  private async listChunks(): Promise<Map<string, string>> {
+    const chunks = new Map<string, string>();
+
+    for (const fileName of await this.provider.listFiles(CHUNKS_FOLDER)) {
+      const match = fileName.substring(CHUNKS_FOLDER.length + 1).match(CHUNK_FILE_PATTERN);
+      if (match) chunks.set(match[1], fileName);
+    }
+    return chunks;
+  }
+
+  /**
+   * Decrypt and decompress a stored chunk; the codec comes from its file name
+   */
+  private static async decodeChunk(data: Buffer, fileName: string, keys: EncryptionKey[]): Promise<Buffer> {
+    const payload = EncryptionUtil.isEncrypted(data) ? await EncryptionUtil.decrypt(data, keys) : data;
+    const codec = CompressionUtil.getCodecForExtension(path.posix.extname(fileName));
+    return CompressionUtil.decompress(payload, codec);
+  }
+
+  /**
+   * Where each chunk of a local file is, by name. A missing file has no chunks.
+   */
+  private static async indexFile(
+    filePath: string,
+    chunkSize: number,
+    name: ChunkNamer
+  ): Promise<Map<string, ChunkLocation>> {
+    const index = new Map<string, ChunkLocation>();
+    if (!fs.existsSync(filePath)) return index;
+
+    let offset = 0;
+    for await (const chunk of ChunkStore.readChunks(filePath, chunkSize)) {
+      const chunkHash = name(chunk);
+      if (!index.has(chunkHash)) {
+        index.set(chunkHash, { offset, length: chunk.length });
+      }
+      offset += chunk.length;
+    }
+    return index;
+  }
+
+  /**
+   * SHA-256 for unencrypted chunks; under a key, an HMAC with the key's name key
+   */
+  private static async namer(key: EncryptionKey | null): Promise<ChunkNamer> {
+    if (!key) return chunk => ChecksumUtil.calculateBufferChecksum(chunk);
+
+    const nameKey = await key.getNameKey();
+    return chunk => crypto.createHmac('sha256', nameKey).update(chunk).digest('hex');
+  }
+
+  private static async *readChunks(filePath: string, chunkSize: number): AsyncGenerator<Buffer> {
+    const handle = await fs.promises.open(filePath, 'r');
+
+    try {
+      for (;;) {
+        const buffer = Buffer.alloc(chunkSize);
+        let length = 0;
+        while (length < chunkSize) {
+          const { bytesRead } = await handle.read(buffer, length, chunkSize - length, null);
+          if (bytesRead === 0) break;
+          length += bytesRead;
+        }
+
+        if (length > 0) yield buffer.subarray(0, length);
+        if (length < chunkSize) return;
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+/**
+ * Read a chunk back from a local file, or null if it isn't there (anymore)
+ */
+async function readChunk(
+  handle: fs.promises.FileHandle,
+  location: ChunkLocation | undefined,
+  chunkHash: string,
+  name: ChunkNamer
+): Promise<Buffer | null> {
+  if (!location) return null;
+
+  const buffer = Buffer.alloc(location.length);
+  const { bytesRead } = await handle.read(buffer, 0, location.length, location.offset);
+
+  // The local database may have changed since it was indexed
+  if (bytesRead !== location.length || name(buffer) !== chunkHash) {
+    return null;
+  }
+  return buffer;
+}
@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import { BaseProvider } from '../providers/base-provider';
+import { Logger } from '../utils/logger';
+import { CloudNotFoundError, ConfigurationError, ConflictError, LockedError } from '../errors';
+import { LockInfo, LockOperation, LockOptions } from '../types';
+
+const LOCK_FILE = 'lock.json';
+const DEFAULT_TTL = 30_000;
+const POLL_INTERVAL = 1000;
+
+// Lease as stored in the database folder
+interface Lease {
+  owner: string;
+  token: string; // Unique per acquisition, so two processes of one device are told apart
+  operation: LockOperation;
+  acquiredAt: number;
+  expiresAt: number;
+  ttl: number;
+}
+
+/**
+ * Write lease in the cloud database folder, so devices don't push over each other.
+ * A lease is acquired with the provider's createFile(), which fails if a lease exists, and then
+ * read back: when two devices create one at once, only the one whose lease is there goes ahead.
+ * The holder renews it while working.
+ * A lease is only broken one full TTL after it expired, which tolerates clocks that differ
+ * between devices by up to that much.
+ */
+export class CloudLock {
+  private provider: BaseProvider;
+  private getDeviceId: () => Promise<string>;
+  private logger: Logger;
+  private enabled: boolean;
+  private ttl: number;
+  private wait: number;
+  private held: Lease | null = null;
+  private lost: Lease | null = null; // Set when another device took over the held lease
+  private renewTimer: ReturnType<typeof setInterval> | null = null;
+  private renewal: Promise<void> | null = null;
+
+  constructor(
+    provider: BaseProvider,
+    getDeviceId: () => Promise<string>,
+    options: LockOptions | false | undefined,
+    logger: Logger
+  ) {
+    this.enabled = options !== false;
+    this.ttl = (options || {}).ttl ?? DEFAULT_TTL;
+    this.wait = (options || {}).wait ?? 0;
+
+    if (!(this.ttl > 0) || !Number.isFinite(this.ttl)) {
+      throw new ConfigurationError('Lock ttl must be a positive number of milliseconds');
+    }
+    if (!(this.wait >= 0)) {
+      throw new ConfigurationError('Lock wait must not be negative');
+    }
+
+    this.provider = provider;
+    this.getDeviceId = getDeviceId;
+    this.logger = logger;
+  }
+
+  /**
+   * Run `task` while holding the lease
+   */
+  async run<T>(operation: LockOperation, task: () => Promise<T>): Promise<T> {
+    if (!this.enabled) return task();
+
+    await this.acquire(operation);
+    try {
+      return await task();
+    } finally {
+      await this.release();
+    }
+  }
+
+  /**
+   * Throw LockedError if another device took the lease over. Called before publishing.
+   */
+  async verify(): Promise<void> {
+    if (!this.held) return;
+
+    const current = await this.read();
+    if (current?.token !== this.held.token) {
+      this.lost = this.held;
+      throw new LockedError(
+        `Cloud lock was taken over${current ? ` by device ${current.owner}` : ''} during ${this.held.operation}; nothing was published`
+      );
+    }
+  }
+
+  /**
+   * The lease currently in the cloud, if any
+   */
+  async getHolder(): Promise<LockInfo | null> {
+    const lease = await this.read();
+    if (!lease) return null;
+
+    return {
+      owner: lease.owner,
+      operation: lease.operation,
+      acquiredAt: lease.acquiredAt,
+      expiresAt: lease.expiresAt,
+      stale: CloudLock.isStale(lease),
+      heldByThisDevice: lease.owner === await this.getDeviceId()
+    };
+  }
+
+  private async acquire(operation: LockOperation): Promise<void> {
+    const owner = await this.getDeviceId();
+    const deadline = Date.now() + this.wait;
+
+    for (;;) {
+      const current = await this.read();
+
+      if (current && !CloudLock.isStale(current)) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new LockedError(
+            `Cloud database is locked by device ${current.owner} (${current.operation}) ` +
+            `until ${new Date(current.expiresAt).toISOString()}`
+          );
+        }
+        await new Promise(resolve => setTimeout(resolve, Math.min(POLL_INTERVAL, remaining)));
+        continue;
+      }
+
+      if (current) {
+        this.logger.warn(
+          `Breaking stale cloud lock of device ${current.owner}, expired ${new Date(current.expiresAt).toISOString()}`
+        );
+        // Unless another device broke it first and has its own lease there by now
+        if ((await this.read())?.token === current.token) {
+          await this.provider.deleteFile(LOCK_FILE);
+        }
+      }
+
+      const now = Date.now();
+      const lease: Lease = { owner, token: randomUUID(), operation, acquiredAt: now, expiresAt: now + this.ttl, ttl: this.ttl };
+      try {
+        await this.provider.createFile(LOCK_FILE, Buffer.from(JSON.stringify(lease)));
+      } catch (error) {
+        // Another device created its lease first
+        if (!(error instanceof ConflictError)) throw error;
+      }
+
+      // A retried create may have gone through the first time; the lease that is there wins
+      if ((await this.read())?.token === lease.token) {
+        this.held = lease;
+        this.lost = null;
+        this.renewTimer = setInterval(() => {
+          this.renewal ??= this.renew().finally(() => { this.renewal = null; });
+        }, this.ttl / 3);
+        this.renewTimer.unref?.();
+        this.logger.debug(`Acquired cloud lock for ${operation}`);
+        return;
+      }
+    }
+  }
+
+  private async renew(): Promise<void> {
+    const lease = this.held;
+    if (!lease || this.lost) return;
+
+    try {
+      const current = await this.read();
+      if (current?.token !== lease.token) {
+        this.lost = lease;
+        this.logger.warn(`Lost cloud lock${current ? ` to device ${current.owner}` : ''} during ${lease.operation}`);
+        return;
+      }
+
+      lease.expiresAt = Date.now() + this.ttl;
+      await this.write(lease);
+    } catch (error) {
+      // The next renewal tries again; the lease only goes stale a full TTL after it expires
+      this.logger.warn('Failed to renew cloud lock', error);
+    }
+  }
+
+  /**
+   * Remove the lease unless another device took it over. Failures are logged, not thrown:
+   * the operation itself is done, and an abandoned lease goes stale by itself.
+   */
+  private async release(): Promise<void> {
+    if (this.renewTimer) clearInterval(this.renewTimer);
+    this.renewTimer = null;
+    await this.renewal;
+
+    const lease = this.held;
+    this.held = null;
+    if (!lease || this.lost === lease) return;
+
+    try {
+      if ((await this.read())?.token === lease.token) {
+        await this.provider.deleteFile(LOCK_FILE);
+        this.logger.debug(`Released cloud lock for ${lease.operation}`);
+      }
+    } catch (error) {
+      this.logger.warn('Failed to release cloud lock', error);
+    }
+  }
+
+  private async read(): Promise<Lease | null> {
+    // Custom providers may not throw CloudNotFoundError for missing files
+    if (!(await this.provider.fileExists(LOCK_FILE))) return null;
+
+    try {
+      return JSON.parse((await this.provider.downloadFile(LOCK_FILE)).toString('utf-8')) as Lease;
+    } catch (error) {
+      // Released between the two calls
+      if (error instanceof CloudNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  private async write(lease: Lease): Promise<void> {
+    await this.provider.uploadFile(LOCK_FILE, Buffer.from(JSON.stringify(lease)));
+  }
+
+  private static isStale(lease: Lease): boolean {
+    return Date.now() > lease.expiresAt + lease.ttl;
+  }
+}
@@ -5,6 +5,7 @@ import { ChecksumUtil } from '../utils/checksum';
 import { FileOperations } from '../utils/file-operations';
 import { Logger } from '../utils/logger';
 import { LocalMetadata } from '../types';
+import { DatabaseError } from '../errors';
 
 export class DatabaseManager {
   private db: Database.Database | null = null;
@@ -24,12 +25,26 @@ export class DatabaseManager {
     FileOperations.ensureDir(path.dirname(this.metadataPath));
   }
 
+  /**
+   * Get path of the local database file
+   */
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  /**
+   * Path for a working file kept next to the local sync metadata
+   */
+  getWorkPath(fileName: string): string {
+    return path.join(path.dirname(this.metadataPath), fileName);
+  }
+
   /**
    * Open database connection
    */
   open(): void {
     if (!fs.existsSync(this.dbPath)) {
-      throw new Error(`Database not found: ${this.dbPath}`);
+      throw new DatabaseError(`Database not found: ${this.dbPath}`);
     }
     this.db = new Database(this.dbPath, { readonly: false });
   }
@@ -45,19 +60,59 @@ export class DatabaseManager {
   }
 
   /**
-   * Get database file as buffer
+   * Take a transactionally consistent snapshot of the database into a temp file (or `snapshotPath`).
+   * Uses the SQLite online backup API, so committed pages still in the WAL are
+   * included and concurrent writers on other connections can't produce a torn copy.
+   */
+  async createSnapshot(
+    snapshotPath = this.getWorkPath(`snapshot-${process.pid}-${Date.now()}.db`)
+  ): Promise<string> {
+    if (!fs.existsSync(this.dbPath)) {
+      throw new DatabaseError(`Database not found: ${this.dbPath}`);
+    }
+
+    const source = new Database(this.dbPath, { readonly: true, fileMustExist: true });
+    try {
+      await source.backup(snapshotPath);
+    } catch (error) {
+      await this.removeSnapshot(snapshotPath);
+      throw new DatabaseError(`Snapshot of ${this.dbPath} failed: ${(error as Error).message}`, { cause: error });
+    } finally {
+      source.close();
+    }
+
+    return snapshotPath;
+  }
+
+  /**
+   * Delete a snapshot created by createSnapshot()
+   */
+  async removeSnapshot(snapshotPath: string): Promise<void> {
+    await fs.promises.rm(snapshotPath, { force: true });
+  }
+
+  /**
+   * Get a consistent snapshot of the database as buffer
    */
   async getBuffer(): Promise<Buffer> {
-    this.close(); // Ensure no active connections
-    return fs.promises.readFile(this.dbPath);
+    const snapshotPath = await this.createSnapshot();
+    try {
+      return await fs.promises.readFile(snapshotPath);
+    } finally {
+      await this.removeSnapshot(snapshotPath);
+    }
   }
 
   /**
-   * Calculate current database checksum
+   * Calculate checksum of a consistent snapshot of the database
    */
   async getChecksum(): Promise<string> {
-    this.close(); // Ensure no active connections
-    return ChecksumUtil.calculateFileChecksum(this.dbPath);
+    const snapshotPath = await this.createSnapshot();
+    try {
+      return await ChecksumUtil.calculateFileChecksum(snapshotPath);
+    } finally {
+      await this.removeSnapshot(snapshotPath);
+    }
   }
 
   /**
@@ -69,11 +124,31 @@ export class DatabaseManager {
     // Write atomically
     const tempPath = `${this.dbPath}.tmp`;
     await fs.promises.writeFile(tempPath, buffer);
+
+    // A stale WAL would be replayed on top of the new file
+    await fs.promises.rm(`${this.dbPath}-wal`, { force: true });
+    await fs.promises.rm(`${this.dbPath}-shm`, { force: true });
+
     await fs.promises.rename(tempPath, this.dbPath);
 
     this.logger.info('Database replaced from cloud');
   }
 
+  /**
+   * Replace database by moving a file over it. `sourcePath` should be on the same filesystem.
+   */
+  async replaceWithFile(sourcePath: string): Promise<void> {
+    this.close();
+
+    // A stale WAL would be replayed on top of the new file
+    await fs.promises.rm(`${this.dbPath}-wal`, { force: true });
+    await fs.promises.rm(`${this.dbPath}-shm`, { force: true });
+
+    await fs.promises.rename(sourcePath, this.dbPath);
+
+    this.logger.info('Database replaced from cloud');
+  }
+
   /**
    * Get local metadata
    */
@@ -107,6 +182,7 @@ export class DatabaseManager {
    */
   async getModifiedTime(): Promise<number> {
     const stats = await fs.promises.stat(this.dbPath);
-    return stats.mtimeMs;
+    // Whole milliseconds, comparable with Date.now() timestamps
+    return Math.floor(stats.mtimeMs);
   }
 }
@@ -0,0 +1,118 @@
+import os from 'os';
+import { BaseProvider } from '../providers/base-provider';
+import { Logger } from '../utils/logger';
+import { CloudNotFoundError } from '../errors';
+import { DeviceInfo, SyncResult } from '../types';
+
+const DEVICES_FOLDER = 'devices';
+
+// Record as stored in the devices folder
+type DeviceRecord = Omit<DeviceInfo, 'thisDevice'>;
+
+interface DeviceIdentity {
+  name?: string;
+  appVersion?: string;
+}
+
+/**
+ * One small JSON record per device in the cloud database folder, so every device can see
+ * which others sync the database and how recently. Each device only writes its own record.
+ */
+export class DeviceRegistry {
+  private provider: BaseProvider;
+  private getDeviceId: () => Promise<string>;
+  private identity: DeviceIdentity;
+  private logger: Logger;
+  private own: DeviceRecord | null = null; // This device's record as last written
+
+  constructor(
+    provider: BaseProvider,
+    getDeviceId: () => Promise<string>,
+    identity: DeviceIdentity,
+    logger: Logger
+  ) {
+    this.provider = provider;
+    this.getDeviceId = getDeviceId;
+    this.identity = identity;
+    this.logger = logger;
+  }
+
+  /**
+   * Update this device's record after a successful operation. Failures are logged, not thrown:
+   * the operation itself succeeded.
+   */
+  async record(result: SyncResult): Promise<void> {
+    try {
+      const id = await this.getDeviceId();
+      const fileName = DeviceRegistry.fileName(id);
+      const previous = this.own ?? await this.read(fileName);
+      const hostname = os.hostname();
+
+      const record: DeviceRecord = {
+        ...previous,
+        id,
+        name: this.identity.name ?? hostname,
+        hostname,
+        platform: process.platform,
+        appVersion: this.identity.appVersion,
+        lastSeenAt: result.timestamp,
+        lastSeenChecksum: result.cloudChecksum,
+        lastSeenGeneration: result.generation ?? previous?.lastSeenGeneration
+      };
+      if (result.type === 'push') record.lastPushAt = result.timestamp;
+      if (result.type === 'pull') record.lastPullAt = result.timestamp;
+
+      await this.provider.uploadFile(fileName, Buffer.from(JSON.stringify(record, null, 2)));
+      this.own = record;
+    } catch (error) {
+      this.logger.warn('Failed to update this device\'s record in the cloud', error);
+    }
+  }
+
+  /**
+   * All device records, most recently seen first
+   */
+  async list(): Promise<DeviceInfo[]> {
+    const id = await this.getDeviceId();
+    const files = (await this.provider.listFiles(DEVICES_FOLDER)).filter(file => file.endsWith('.json'));
+    const records = await Promise.all(files.map(file => this.read(file)));
+
+    return records
+      .filter((record): record is DeviceRecord => record !== null)
+      .map(record => ({ ...record, thisDevice: record.id === id }))
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  /**
+   * Remove a device's record. The device adds it back the next time it syncs.
+   */
+  async forget(deviceId: string): Promise<void> {
+    await this.provider.deleteFile(DeviceRegistry.fileName(deviceId));
+    if (deviceId === await this.getDeviceId()) this.own = null;
+  }
+
+  private async read(fileName: string): Promise<DeviceRecord | null> {
+    // Custom providers may not throw CloudNotFoundError for missing files
+    if (!(await this.provider.fileExists(fileName))) return null;
+
+    let content: Buffer;
+    try {
+      content = await this.provider.downloadFile(fileName);
+    } catch (error) {
+      // Forgotten between the two calls
+      if (error instanceof CloudNotFoundError) return null;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content.toString('utf-8')) as DeviceRecord;
+    } catch (error) {
+      this.logger.warn(`Skipping unreadable device record ${fileName}`, error);
+      return null;
+    }
+  }
+
+  private static fileName(deviceId: string): string {
+    return `${DEVICES_FOLDER}/${encodeURIComponent(deviceId)}.json`;
+  }
+}
@@ -0,0 +1,270 @@
+import Database from 'better-sqlite3';
+import { Logger } from '../utils/logger';
+import { ConflictError } from '../errors';
+import {
+  MergeStats,
+  RowConflict,
+  RowConflictResolver,
+  SqliteRow
+} from '../types';
+
+interface TableInfo {
+  name: string;
+  columns: string[]; // Selected columns, key columns included
+  keyColumns: string[];
+}
+
+interface RowWrite {
+  table: TableInfo;
+  key: unknown[];
+  row: SqliteRow | null; // null deletes the row
+}
+
+export class RowMerger {
+  private logger: Logger;
+  private resolver: RowConflictResolver | null;
+
+  constructor(logger: Logger, resolver: RowConflictResolver | null = null) {
+    this.logger = logger;
+    this.resolver = resolver;
+  }
+
+  /**
+   * Three-way merge: apply the row changes made in the cloud copy since the base
+   * onto the database at `targetPath`, which starts out as a copy of the local side.
+   * Row conflicts go to the resolver; without one the local row is kept.
+   * Throws ConflictError, leaving `targetPath` untouched, if the merged rows break a constraint.
+   */
+  async merge(basePath: string, cloudPath: string, targetPath: string): Promise<MergeStats> {
+    const db = new Database(targetPath, { fileMustExist: true });
+
+    try {
+      db.defaultSafeIntegers(true);
+      // Rows are written one at a time, so references may be dangling mid-merge
+      db.pragma('foreign_keys = OFF');
+      db.prepare('ATTACH DATABASE ? AS base').run(basePath);
+      db.prepare('ATTACH DATABASE ? AS cloud').run(cloudPath);
+
+      const writes: RowWrite[] = [];
+      let conflicts = 0;
+
+      for (const table of this.readTables(db)) {
+        const select = (schema: string) => db.prepare(
+          `SELECT ${table.columns.map(quote).join(', ')} FROM ${schema}.${quote(table.name)} WHERE ` +
+          table.keyColumns.map(column => `${quote(column)} IS ?`).join(' AND ')
+        );
+        const selectBase = select('base');
+        const selectLocal = select('main');
+        const selectCloud = select('cloud');
+
+        for (const key of this.cloudChangedKeys(db, table)) {
+          const base = (selectBase.get(...key) as SqliteRow | undefined) ?? null;
+          const local = (selectLocal.get(...key) as SqliteRow | undefined) ?? null;
+          const cloud = (selectCloud.get(...key) as SqliteRow | undefined) ?? null;
+
+          if (rowsEqual(local, cloud)) continue;
+
+          // Only the cloud side touched this row
+          if (rowsEqual(local, base)) {
+            writes.push({ table, key, row: cloud });
+            continue;
+          }
+
+          const { row, columns } = mergeColumns(table.columns, base, local, cloud);
+          if (columns.length === 0) {
+            writes.push({ table, key, row });
+            continue;
+          }
+
+          conflicts++;
+          const conflict: RowConflict = {
+            table: table.name,
+            key: Object.fromEntries(table.keyColumns.map((column, i) => [column, key[i]])),
+            columns,
+            base,
+            local,
+            cloud
+          };
+          const choice = this.resolver ? await this.resolver(conflict) : 'local';
+
+          if (choice === 'cloud') {
+            writes.push({ table, key, row: cloud });
+          } else if (choice !== 'local') {
+            writes.push({ table, key, row: choice });
+          }
+        }
+      }
+
+      // References that were already dangling in the local copy aren't the merge's doing
+      const dangling = this.foreignKeyViolations(db);
+
+      db.transaction(() => {
+        for (const write of writes) {
+          this.applyWrite(db, write);
+        }
+
+        if (dangling) {
+          const violation = [...this.foreignKeyViolations(db) ?? []].find(violation => !dangling.has(violation));
+          if (violation) {
+            throw new ConflictError(`Cannot merge: ${violation} refers to a row that no longer exists`);
+          }
+        }
+      })();
+
+      db.exec('DETACH DATABASE base');
+      db.exec('DETACH DATABASE cloud');
+
+      if (conflicts > 0 && !this.resolver) {
+        this.logger.warn(`${conflicts} row conflict(s) kept the local row; set a row conflict resolver to decide`);
+      }
+      return { rowsApplied: writes.length, conflicts };
+
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Tables to merge; all three databases must share the same schema
+   */
+  private readTables(db: Database.Database): TableInfo[] {
+    const schema = (name: string) => db.prepare(
+      `SELECT name, sql FROM ${name}.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`
+    ).all() as { name: string; sql: string }[];
+
+    const local = schema('main');
+    const serialized = JSON.stringify(local);
+    if (JSON.stringify(schema('base')) !== serialized || JSON.stringify(schema('cloud')) !== serialized) {
+      throw new ConflictError('Cannot merge: database schema changed since the last sync');
+    }
+
+    return local
+      .filter(table => !/^CREATE\s+VIRTUAL\s+TABLE/i.test(table.sql))
+      .map(table => {
+        const info = db.pragma(`main.table_info(${quote(table.name)})`) as { name: string; pk: number | bigint }[];
+        const columns = info.map(column => column.name);
+        const keyColumns = info
+          .filter(column => Number(column.pk) > 0)
+          .sort((a, b) => Number(a.pk) - Number(b.pk))
+          .map(column => column.name);
+
+        // Tables without a primary key are matched by rowid
+        return keyColumns.length > 0
+          ? { name: table.name, columns, keyColumns }
+          : { name: table.name, columns: ['rowid', ...columns], keyColumns: ['rowid'] };
+      });
+  }
+
+  /**
+   * Keys of rows inserted, updated or deleted in the cloud copy since the base
+   */
+  private cloudChangedKeys(db: Database.Database, table: TableInfo): unknown[][] {
+    const name = quote(table.name);
+    const columns = table.columns.map(quote).join(', ');
+    const keys = table.keyColumns.map(quote).join(', ');
+
+    return db.prepare(
+      `SELECT ${keys} FROM (SELECT ${columns} FROM cloud.${name} EXCEPT SELECT ${columns} FROM base.${name}) ` +
+      `UNION SELECT ${keys} FROM (SELECT ${keys} FROM base.${name} EXCEPT SELECT ${keys} FROM cloud.${name})`
+    ).raw().all() as unknown[][];
+  }
+
+  /**
+   * Rows whose foreign keys point nowhere, e.g. `row rowid = 3 of table "posts"`.
+   * Null if SQLite can't check them, e.g. for a key that references a column that isn't unique.
+   */
+  private foreignKeyViolations(db: Database.Database): Set<string> | null {
+    try {
+      const violations = db.pragma('main.foreign_key_check') as { table: string; rowid: unknown }[];
+      return new Set(violations.map(({ table, rowid }) => `row rowid = ${rowid} of table ${quote(table)}`));
+    } catch (error) {
+      this.logger.debug('Skipping the foreign key check of the merge', error);
+      return null;
+    }
+  }
+
+  private applyWrite(db: Database.Database, write: RowWrite): void {
+    try {
+      this.writeRow(db, write);
+    } catch (error) {
+      // UNIQUE, NOT NULL and CHECK constraints can reject a row that is valid on each side alone
+      if (!String((error as { code?: unknown }).code).startsWith('SQLITE_CONSTRAINT')) throw error;
+
+      const { table, key } = write;
+      const row = table.keyColumns.map((column, i) => `${column} = ${formatValue(key[i])}`).join(', ');
+      throw new ConflictError(
+        `Cannot merge: row ${row} of table ${quote(table.name)} breaks a constraint: ${(error as Error).message}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private writeRow(db: Database.Database, { table, key, row }: RowWrite): void {
+    const name = quote(table.name);
+    const where = table.keyColumns.map(column => `${quote(column)} IS ?`).join(' AND ');
+
+    if (!row) {
+      db.prepare(`DELETE FROM main.${name} WHERE ${where}`).run(...key);
+      return;
+    }
+
+    const values = table.columns.map(column => row[column]);
+    const exists = db.prepare(`SELECT 1 FROM main.${name} WHERE ${where}`).get(...key);
+
+    if (exists) {
+      const assignments = table.columns.map(column => `${quote(column)} = ?`).join(', ');
+      db.prepare(`UPDATE main.${name} SET ${assignments} WHERE ${where}`).run(...values, ...key);
+    } else {
+      const placeholders = table.columns.map(() => '?').join(', ');
+      db.prepare(`INSERT INTO main.${name} (${table.columns.map(quote).join(', ')}) VALUES (${placeholders})`).run(...values);
+    }
+  }
+}
+
+/**
+ * Merge a row changed on both sides column by column.
+ * Returns the conflicting columns, or all of them when a side inserted or deleted the row.
+ */
+function mergeColumns(
+  columns: string[],
+  base: SqliteRow | null,
+  local: SqliteRow | null,
+  cloud: SqliteRow | null
+): { row: SqliteRow | null; columns: string[] } {
+  if (!base || !local || !cloud) {
+    return { row: null, columns };
+  }
+
+  const row: SqliteRow = {};
+  const conflicting: string[] = [];
+
+  for (const column of columns) {
+    if (valuesEqual(local[column], base[column])) {
+      row[column] = cloud[column];
+    } else if (valuesEqual(cloud[column], base[column]) || valuesEqual(local[column], cloud[column])) {
+      row[column] = local[column];
+    } else {
+      conflicting.push(column);
+    }
+  }
+
+  return { row, columns: conflicting };
+}
+
+function rowsEqual(a: SqliteRow | null, b: SqliteRow | null): boolean {
+  if (!a || !b) return a === b;
+  return Object.keys(a).every(column => valuesEqual(a[column], b[column]));
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Buffer.isBuffer(a) && Buffer.isBuffer(b)) return a.equals(b);
+  return a === b;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
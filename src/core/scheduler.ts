@@ -0,0 +1,154 @@
+import { Logger } from '../utils/logger';
+import { ConfigurationError, SyncError } from '../errors';
+import { AutoSyncOptions, AutoSyncState } from '../types';
+
+const DEFAULT_MAX_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Runs sync on a timer. The next run is only scheduled once the previous one has finished,
+ * so runs never overlap. Each consecutive failure doubles the delay, up to `maxInterval`.
+ */
+export class SyncScheduler {
+  private run: () => Promise<unknown>;
+  private logger: Logger;
+  private interval: number;
+  private maxInterval: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private current: Promise<void> | null = null;
+  private enabled = false;
+  private paused = false;
+  private nextRunAt: number | null = null;
+  private rerun = false;
+  private consecutiveFailures = 0;
+  private lastError: SyncError | null = null;
+
+  constructor(run: () => Promise<unknown>, options: AutoSyncOptions, logger: Logger) {
+    if (!(options.interval > 0) || !Number.isFinite(options.interval)) {
+      throw new ConfigurationError('Auto-sync interval must be a positive number of milliseconds');
+    }
+    this.maxInterval = options.maxInterval ?? Math.max(options.interval, DEFAULT_MAX_INTERVAL);
+    if (!(this.maxInterval >= options.interval)) {
+      throw new ConfigurationError('Auto-sync maxInterval must not be less than interval');
+    }
+
+    this.run = run;
+    this.logger = logger;
+    this.interval = options.interval;
+  }
+
+  /**
+   * Schedule the first run one interval from now
+   */
+  start(): void {
+    this.enabled = true;
+    this.nextRunAt = Date.now() + this.interval;
+    if (!this.paused) this.arm();
+  }
+
+  /**
+   * Cancel the scheduled run. A run already in progress finishes; see idle().
+   */
+  stop(): void {
+    this.enabled = false;
+    this.nextRunAt = null;
+    this.clearTimer();
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Continue after pause(); a run that fell due while paused starts right away
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    if (this.enabled && !this.current) this.arm();
+  }
+
+  /**
+   * Run as soon as possible: right away, after the run in progress, or on resume.
+   * Ignored while backing off after failures; the backoff run picks the work up.
+   */
+  runNow(): void {
+    if (!this.enabled || this.consecutiveFailures > 0) return;
+    this.nextRunAt = Date.now();
+    if (this.current) {
+      this.rerun = true;
+    } else if (!this.paused) {
+      this.arm();
+    }
+  }
+
+  /**
+   * Resolves once no run is in progress
+   */
+  async idle(): Promise<void> {
+    await this.current;
+  }
+
+  getState(): Omit<AutoSyncState, 'watching'> {
+    return {
+      enabled: this.enabled,
+      paused: this.paused,
+      running: this.current !== null,
+      nextRunAt: this.nextRunAt,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Delay before the next run: the interval, doubled for each consecutive failure
+   */
+  getDelay(): number {
+    return Math.min(this.maxInterval, this.interval * 2 ** this.consecutiveFailures);
+  }
+
+  private arm(): void {
+    this.clearTimer();
+    const delay = Math.max(0, (this.nextRunAt ?? Date.now()) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delay);
+    // Don't keep a CLI process alive just for the next sync
+    this.timer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // A restart while a run was still going; that run schedules the next one
+    if (this.current) return;
+
+    this.current = this.execute();
+    await this.current;
+    this.current = null;
+
+    const rerun = this.rerun && this.consecutiveFailures === 0;
+    this.rerun = false;
+    if (!this.enabled) return;
+    this.nextRunAt = Date.now() + (rerun ? 0 : this.getDelay());
+    if (!this.paused) this.arm();
+  }
+
+  private async execute(): Promise<void> {
+    try {
+      await this.run();
+      this.consecutiveFailures = 0;
+      this.lastError = null;
+    } catch (error) {
+      this.consecutiveFailures++;
+      this.lastError = SyncError.wrap(error);
+      this.logger.warn(`Auto-sync failed (${this.lastError.message}), next attempt in ${this.getDelay()}ms`);
+    }
+  }
+}
@@ -1,108 +1,631 @@
+import { EventEmitter } from 'events';
 import { DatabaseManager } from './db-manager';
+import { VersionManager } from './version-manager';
+import { RowMerger } from './row-merger';
+import { ChunkStore, DEFAULT_CHUNK_SIZE } from './chunk-store';
+import { CloudLock } from './cloud-lock';
+import { DeviceRegistry } from './device-registry';
+import { SyncHistory } from './sync-history';
+import { DecodeOptions, EncodeOptions, TransferPipeline, TransferStats } from './transfer-pipeline';
 import { BaseProvider } from '../providers/base-provider';
+import { RetryingProvider } from '../providers/retrying-provider';
 import { ChecksumUtil } from '../utils/checksum';
+import { CompressionUtil } from '../utils/compression';
+import { EncryptionKey } from '../utils/encryption';
+import { FileOperations } from '../utils/file-operations';
 import { Logger } from '../utils/logger';
-import { SyncResult, SyncMetadata } from '../types';
+import { RetryPolicy } from '../utils/retry';
+import {
+  SyncError,
+  AuthenticationRequiredError,
+  CloudNotFoundError,
+  ChecksumMismatchError,
+  ConflictError,
+  EncryptionError,
+  DatabaseError,
+  ConfigurationError
+} from '../errors';
+import {
+  SyncEvents,
+  SyncResult,
+  SyncType,
+  SyncMetadata,
+  SyncOptions,
+  SyncState,
+  ProviderMetadata,
+  ConflictStrategy,
+  ConflictResolver,
+  ConflictChoice,
+  SyncConflict,
+  RowConflictResolver,
+  EncryptionInfo,
+  EncryptionOptions,
+  KeyRotationResult,
+  CompressionCodec,
+  CompressionOptions,
+  VersionInfo,
+  RestoreOptions,
+  RestoreResult,
+  StorageMode,
+  ChunkStats,
+  LockInfo,
+  DeviceInfo,
+  PushOptions,
+  SyncStatus,
+  CloudStatus
+} from '../types';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
 
-export class SyncEngine {
+// A cloud copy of the database: one (compressed, encrypted) file, or a chunk manifest
+interface CloudCopy {
+  fileName: string;
+  storage: StorageMode;
+  checksum?: string;
+  compression?: CompressionCodec;
+  encryption?: EncryptionInfo;
+}
+
+interface CopyStats extends TransferStats {
+  chunks?: ChunkStats;
+}
+
+interface PushRequest extends PushOptions {
+  base?: ProviderMetadata | null; // Cloud state the push was decided against; read first if not given
+}
+
+interface PushedCopy extends CopyStats {
+  timestamp: number;
+  version: VersionInfo | null; // Snapshot kept for rollback, if versioning is enabled
+  manifest?: VersionInfo; // Set for chunked storage
+  file?: string; // Set when the copy went to a generation-named object instead of current.db
+}
+
+/**
+ * Push, pull and sync logic. Emits the events `SqliteCloudBackup` re-emits, including the provider's.
+ */
+export class SyncEngine extends EventEmitter<SyncEvents> {
   private dbManager: DatabaseManager;
   private provider: BaseProvider;
   private logger: Logger;
+  private versionManager: VersionManager;
+  private transfer: TransferPipeline;
+  private retry: RetryPolicy;
+  private chunkStore: ChunkStore;
+  private lock: CloudLock;
+  private devices: DeviceRegistry;
+  private history: SyncHistory;
+  private deviceId: string | null;
+  private conflictStrategy: ConflictStrategy;
+  private conflictResolver: ConflictResolver | null = null;
+  private rowConflictResolver: RowConflictResolver | null = null;
+  private encryptionKey: EncryptionKey | null;
+  private compression: CompressionOptions;
+  private storage: StorageMode;
+  private chunkSize: number;
 
   constructor(
     dbManager: DatabaseManager,
     provider: BaseProvider,
-    logger: Logger
+    logger: Logger,
+    options: SyncOptions = {}
   ) {
+    super();
     this.dbManager = dbManager;
-    this.provider = provider;
     this.logger = logger;
+    this.retry = new RetryPolicy(options.retry ?? {}, logger);
+    this.provider = new RetryingProvider(provider, this.retry);
+    this.versionManager = new VersionManager(this.provider, logger, options.versioning);
+    this.transfer = new TransferPipeline(this.provider, logger, this.retry);
+    this.chunkStore = new ChunkStore(this.provider, logger);
+    this.deviceId = options.deviceId ?? null;
+    this.lock = new CloudLock(this.provider, () => this.getDeviceId(), options.lock, logger);
+    this.devices = new DeviceRegistry(
+      this.provider,
+      () => this.getDeviceId(),
+      { name: options.deviceName, appVersion: options.appVersion },
+      logger
+    );
+    this.history = new SyncHistory(dbManager.getWorkPath('history.json'), options.historySize, logger);
+
+    provider.on('progress', progress => this.emit('progress', progress));
+    provider.on('auth-required', event => this.emit('auth-required', event));
+    provider.on('token-refreshed', event => this.emit('token-refreshed', event));
+    this.chunkStore.on('progress', progress => this.emit('progress', progress));
+    this.conflictStrategy = options.conflictStrategy ?? 'last-write-wins';
+    this.encryptionKey = options.encryption ? new EncryptionKey(options.encryption) : null;
+
+    this.compression = typeof options.compression === 'string'
+      ? { codec: options.compression }
+      : options.compression ?? { codec: 'none' };
+    CompressionUtil.resolveLevel(this.compression.codec, this.compression.level);
+
+    this.storage = options.storage ?? 'file';
+    if (this.storage !== 'file' && this.storage !== 'chunked') {
+      throw new ConfigurationError(`Unsupported storage mode: ${this.storage}`);
+    }
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    ChunkStore.validateChunkSize(this.chunkSize);
+  }
+
+  /**
+   * Set the callback used by the 'custom' conflict strategy
+   */
+  setConflictResolver(resolver: ConflictResolver | null): void {
+    this.conflictResolver = resolver;
+  }
+
+  /**
+   * Set the callback for rows the 'merge' conflict strategy can't merge cleanly
+   */
+  setRowConflictResolver(resolver: RowConflictResolver | null): void {
+    this.rowConflictResolver = resolver;
+  }
+
+  /**
+   * Id this device is known by in the cloud, generated and stored locally on first use
+   */
+  async getDeviceId(): Promise<string> {
+    if (!this.deviceId) {
+      const { deviceId } = await this.dbManager.getLocalMetadata();
+      this.deviceId = deviceId ?? randomUUID();
+      if (!deviceId) await this.dbManager.updateLocalMetadata({ deviceId: this.deviceId });
+    }
+    return this.deviceId;
+  }
+
+  /**
+   * Local, last synced and cloud state for status displays. The cloud is only read when
+   * `authenticated`, and left out if that fails, so this works offline too.
+   */
+  async getStatus(authenticated: boolean): Promise<Omit<SyncStatus, 'authenticated' | 'autoSync'>> {
+    const localChecksum = await this.dbManager.getChecksum();
+    const localMetadata = await this.dbManager.getLocalMetadata();
+    const synced = localMetadata.lastSyncChecksum !== '';
+
+    let cloud: CloudStatus | null = null;
+    let lock: LockInfo | null = null;
+    if (authenticated) {
+      try {
+        const metadata = await this.provider.getMetadata('current.db');
+        cloud = metadata && {
+          checksum: metadata.checksum,
+          generation: metadata.generation,
+          modifiedAt: metadata.modifiedAt,
+          deviceId: metadata.deviceId
+        };
+        lock = await this.lock.getHolder();
+      } catch (error) {
+        this.logger.warn('Failed to read the cloud state', error);
+      }
+    }
+
+    const [last] = await this.history.list(1);
+    return {
+      deviceId: await this.getDeviceId(),
+      localChecksum,
+      lastSyncAt: synced ? localMetadata.lastSyncTimestamp : null,
+      lastSyncChecksum: synced ? localMetadata.lastSyncChecksum : null,
+      lastSyncGeneration: localMetadata.lastSyncGeneration ?? null,
+      cloud,
+      state: cloud ? SyncEngine.detectSyncState(localChecksum, cloud.checksum, localMetadata.lastSyncChecksum) : null,
+      pendingChanges: localChecksum !== localMetadata.lastSyncChecksum,
+      lastError: last?.error ?? null,
+      lock
+    };
+  }
+
+  /**
+   * Recent results on this device, newest first, failures included
+   */
+  async getSyncHistory(limit?: number): Promise<SyncResult[]> {
+    return this.history.list(limit);
+  }
+
+  /**
+   * Devices that synced this database, most recently seen first
+   */
+  async listDevices(): Promise<DeviceInfo[]> {
+    return this.devices.list();
   }
 
   /**
-   * Push local database to cloud
+   * Remove a device's record from the cloud
    */
-  async pushToCloud(): Promise<SyncResult> {
+  async forgetDevice(deviceId: string): Promise<void> {
+    await this.devices.forget(deviceId);
+    this.logger.info(`Forgot device ${deviceId}`);
+  }
+
+  /**
+   * List cloud snapshots, newest first
+   */
+  async listVersions(): Promise<VersionInfo[]> {
+    return this.versionManager.listVersions();
+  }
+
+  /**
+   * Restore a cloud snapshot over the local database, or to another path for inspection
+   */
+  async restore(versionId: string, options: RestoreOptions = {}): Promise<RestoreResult> {
     const startTime = Date.now();
 
     try {
-      // Get database buffer
-      const buffer = await this.dbManager.getBuffer();
-      const originalSize = buffer.length;
-
-      // Calculate checksum
-      const checksum = ChecksumUtil.calculateBufferChecksum(buffer);
+      const version = await this.versionManager.getVersion(versionId);
+      if (!version) {
+        throw new CloudNotFoundError(`Version not found: ${versionId}`);
+      }
 
-      // Upload
-      await this.provider.uploadFile('current.db', buffer);
+      // Verify checksum recorded when the snapshot was taken
+      const checksum = version.checksum;
 
-      // Update metadata
-      const metadata: SyncMetadata = {
-        dbName: 'current',
-        lastSyncTimestamp: Date.now(),
-        lastSyncType: 'push',
-        checksum,
-        version: 1
-      };
-      await this.provider.updateMetadata(metadata);
+      let targetPath: string;
+      let stats: CopyStats;
+      if (options.targetPath) {
+        targetPath = path.resolve(options.targetPath);
+        FileOperations.ensureDir(path.dirname(targetPath));
+        stats = await this.download(version, targetPath);
+        this.logger.info(`Version ${versionId} written to ${targetPath}`);
+      } else {
+        targetPath = this.dbManager.getPath();
+        stats = await this.downloadOverLocal(version);
 
-      // Update local metadata
-      await this.dbManager.updateLocalMetadata({
-        lastSyncTimestamp: metadata.lastSyncTimestamp,
-        lastSyncChecksum: checksum
-      });
+        // Remember the rollback so sync() doesn't push the old state over newer cloud data
+        await this.dbManager.updateLocalMetadata({
+          rollback: { versionId, checksum, timestamp: Date.now() }
+        });
+        this.logger.info(`Local database rolled back to version ${versionId}`);
+      }
 
-      const result: SyncResult = {
-        success: true,
-        type: 'push',
+      return {
+        versionId,
+        checksum,
+        targetPath,
+        bytesTransferred: stats.bytesTransferred,
+        rawBytes: stats.rawBytes,
         timestamp: Date.now(),
-        localChecksum: checksum,
-        cloudChecksum: checksum,
-        bytesTransferred: buffer.length,
         duration: Date.now() - startTime
       };
 
-      this.logger.info(`Push successful: ${originalSize} bytes`);
-      return result;
+    } catch (error) {
+      this.logger.error('Restore failed', error as Error);
+      throw SyncError.wrap(error);
+    }
+  }
+
+  /**
+   * Re-encrypt the current database, every snapshot and every chunk under a new key.
+   * Objects are replaced one at a time, so each stays readable with one of the two keys.
+   * Objects already under the new key are skipped, so an interrupted rotation can be run again.
+   */
+  async rotateEncryptionKey(oldKey: EncryptionOptions, newKey: EncryptionOptions): Promise<KeyRotationResult> {
+    try {
+      return await this.lock.run('rotate-key', () => this.rotate(oldKey, newKey));
+    } catch (error) {
+      this.logger.error('Key rotation failed', error as Error);
+      throw SyncError.wrap(error);
+    }
+  }
+
+  private async rotate(oldKey: EncryptionOptions, newKey: EncryptionOptions): Promise<KeyRotationResult> {
+    const startTime = Date.now();
+
+    const from = new EncryptionKey(oldKey);
+    const to = new EncryptionKey(newKey);
+    const fromKeyId = await from.getKeyId();
+    const toKeyId = await to.getKeyId();
+
+    if (fromKeyId === toKeyId) {
+      throw new ConfigurationError(`New encryption key must have a different key id than "${fromKeyId}"`);
+    }
+
+    let rotated = 0;
+    let skipped = 0;
+
+    const versions = await this.versionManager.listVersions();
+    for (const version of versions) {
+      // Manifests aren't encrypted; the chunks they list are
+      if (version.storage === 'chunked') continue;
+
+      const result = await this.reencryptFile(version.fileName, version.checksum, version.compression, from, to);
+      if (result.rotated) rotated++; else skipped++;
+    }
+
+    const manifests = versions.filter(version => version.storage === 'chunked').map(version => version.fileName);
+    const chunks = await this.chunkStore.rotate(manifests, from, to);
+    rotated += chunks.rotated;
+    skipped += chunks.skipped;
+
+    // The current copy goes last, together with the metadata that describes it
+    const cloudMetadata = await this.provider.getMetadata('current.db');
+    const currentFile = cloudMetadata?.file ?? 'current.db';
+    if (cloudMetadata && !cloudMetadata.manifest && await this.provider.fileExists(currentFile)) {
+      const result = await this.reencryptFile(
+        currentFile,
+        cloudMetadata.checksum,
+        cloudMetadata.compression ?? 'none',
+        from,
+        to
+      );
+      if (result.rotated) rotated++; else skipped++;
+
+      const { encryption } = result;
+      if (
+        cloudMetadata.encryption?.keyId !== encryption.keyId ||
+        cloudMetadata.encryption.checksum !== encryption.checksum
+      ) {
+        const versionId = `${cloudMetadata.modifiedAt}_${cloudMetadata.checksum}`;
+        await this.provider.updateMetadata({
+          dbName: 'current',
+          lastSyncTimestamp: cloudMetadata.modifiedAt,
+          lastSyncType: 'push',
+          checksum: cloudMetadata.checksum,
+          // Same content, so devices that saw this generation stay in sync
+          version: cloudMetadata.generation ?? 1,
+          versionId: (await this.versionManager.getVersion(versionId)) ? versionId : undefined,
+          encryption,
+          compression: cloudMetadata.compression,
+          file: cloudMetadata.file,
+          deviceId: cloudMetadata.deviceId
+        }, { ifMatch: cloudMetadata.etag });
+      }
+    }
+
+    // Later pushes use the new key
+    this.encryptionKey = to;
+
+    this.logger.info(`Rotated encryption key ${fromKeyId} -> ${toKeyId}: ${rotated} re-encrypted, ${skipped} already done`);
+    return { fromKeyId, toKeyId, rotated, skipped, duration: Date.now() - startTime };
+  }
+
+  /**
+   * Push local database to cloud.
+   * Fails with ConflictError if another device pushed since this one last synced, unless forced.
+   */
+  async pushToCloud(options: PushOptions = {}): Promise<SyncResult> {
+    return this.track('push', () => this.push(options));
+  }
+
+  private async push(request: PushRequest = {}): Promise<SyncResult> {
+    const startTime = Date.now();
+
+    try {
+      const base = request.base !== undefined ? request.base : await this.readPushBase(request.force ?? false);
+
+      // Stream a consistent snapshot; the checksum is calculated on the way out
+      const snapshotPath = await this.dbManager.createSnapshot();
+      try {
+        return await this.pushSnapshot(snapshotPath, base, startTime);
+      } finally {
+        await this.dbManager.removeSnapshot(snapshotPath);
+      }
 
     } catch (error) {
       this.logger.error('Push failed', error as Error);
-      throw error;
+      throw SyncError.wrap(error);
+    }
+  }
+
+  /**
+   * Read the cloud state a push replaces. Unless forced, refuse if another device pushed
+   * since this one last synced: that push would otherwise be overwritten unseen.
+   */
+  private async readPushBase(force: boolean): Promise<ProviderMetadata | null> {
+    const cloudMetadata = await this.provider.getMetadata('current.db');
+    if (force || !cloudMetadata) return cloudMetadata;
+
+    const { lastSyncGeneration, lastSyncChecksum } = await this.dbManager.getLocalMetadata();
+    // Synced before generations were recorded; there's nothing to compare against
+    if (lastSyncGeneration === undefined && lastSyncChecksum) return cloudMetadata;
+
+    const seen = lastSyncGeneration ?? 0;
+    if ((cloudMetadata.generation ?? 0) !== seen) {
+      const synced = lastSyncChecksum ? `last synced generation ${seen}` : 'has never synced';
+      throw new ConflictError(
+        `Cloud database is at generation ${cloudMetadata.generation ?? 0}, but this device ${synced}. ` +
+        'Run sync() to reconcile, or pushToCloud({ force: true }) to overwrite it'
+      );
+    }
+    return cloudMetadata;
+  }
+
+  private async pushSnapshot(
+    snapshotPath: string,
+    base: ProviderMetadata | null,
+    startTime: number
+  ): Promise<SyncResult> {
+    const generation = (base?.generation ?? 0) + 1;
+    const pushed = this.storage === 'chunked'
+      ? await this.uploadChunks(snapshotPath)
+      : await this.uploadFile(snapshotPath, generation);
+    const { checksum, rawBytes, bytesTransferred, version, manifest } = pushed;
+    const compression = this.compression.codec;
+
+    // Update metadata
+    const metadata: SyncMetadata = {
+      dbName: 'current',
+      lastSyncTimestamp: pushed.timestamp,
+      lastSyncType: 'push',
+      checksum,
+      version: generation,
+      versionId: version?.id,
+      encryption: pushed.encryption,
+      compression: manifest || compression === 'none' ? undefined : compression,
+      manifest: manifest?.fileName,
+      file: pushed.file,
+      deviceId: await this.getDeviceId()
+    };
+    // Publishing the metadata is what makes the push visible: not if another device took over,
+    // and only over the cloud state the push was based on
+    await this.lock.verify();
+    try {
+      await this.provider.updateMetadata(metadata, { ifMatch: base ? base.etag : null });
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+
+      // A retried write fails its own condition when an earlier attempt was applied but its response lost
+      if (!(await this.isPublished(metadata))) {
+        if (pushed.file) {
+          await this.provider.deleteFile(pushed.file).catch(() => undefined);
+        } else if (!manifest) {
+          await this.restoreCurrentCopy();
+        }
+        throw new ConflictError('Another device pushed at the same time; nothing was published. Run sync() again', {
+          cause: error
+        });
+      }
+    }
+
+    // A whole-file copy from before switching to chunked storage or turning versioning off is stale now,
+    // and so is the generation-named copy this push replaced
+    if ((manifest || pushed.file) && await this.provider.fileExists('current.db')) {
+      await this.provider.deleteFile('current.db');
+    }
+    if (base?.file && base.file !== pushed.file && await this.provider.fileExists(base.file)) {
+      await this.provider.deleteFile(base.file);
+    }
+
+    // Update local metadata
+    await this.recordSyncBase(metadata.lastSyncTimestamp, checksum, generation, snapshotPath);
+
+    // Retention runs only after the push is complete; failures here don't fail the push
+    if (version || manifest) {
+      try {
+        await this.pruneVersions(manifest);
+      } catch (error) {
+        this.logger.warn('Failed to prune old versions', error);
+      }
+    }
+
+    const result: SyncResult = {
+      success: true,
+      type: 'push',
+      timestamp: Date.now(),
+      localChecksum: checksum,
+      cloudChecksum: checksum,
+      bytesTransferred,
+      rawBytes,
+      duration: Date.now() - startTime,
+      chunks: pushed.chunks,
+      generation
+    };
+
+    this.logger.info(`Push successful: ${rawBytes} bytes (${bytesTransferred} bytes transferred)`);
+    return result;
+  }
+
+  /**
+   * Whether the cloud metadata is the one this push wrote
+   */
+  private async isPublished(metadata: SyncMetadata): Promise<boolean> {
+    const cloudMetadata = await this.provider.getMetadata('current.db');
+    return cloudMetadata !== null &&
+      cloudMetadata.file === metadata.file &&
+      cloudMetadata.manifest === metadata.manifest &&
+      cloudMetadata.checksum === metadata.checksum &&
+      cloudMetadata.deviceId === metadata.deviceId &&
+      cloudMetadata.generation === metadata.version;
+  }
+
+  /**
+   * After losing the race to publish, current.db holds our upload while the metadata describes
+   * the winner's. Put the winner's copy back from its snapshot.
+   */
+  private async restoreCurrentCopy(): Promise<void> {
+    try {
+      const winner = await this.provider.getMetadata('current.db');
+      // Chunked copies don't use current.db
+      if (!winner || winner.manifest) return;
+
+      const snapshot = (await this.versionManager.listVersions())
+        .find(version => version.storage === 'file' && version.checksum === winner.checksum);
+      if (snapshot) {
+        await this.provider.copyFile(snapshot.fileName, 'current.db');
+      } else {
+        this.logger.error('current.db no longer matches the cloud metadata and there is no snapshot to restore it from');
+      }
+    } catch (error) {
+      this.logger.error('Failed to restore current.db after a conflicting push', error as Error);
+    }
+  }
+
+  private async uploadFile(snapshotPath: string, generation: number): Promise<PushedCopy> {
+    if (!this.versionManager.enabled) {
+      // Without a snapshot to put it back from, current.db must not be overwritten before the push
+      // is published. Upload a new object and have the metadata point to it instead. Its name only
+      // depends on what is pushed, from where, so a retried push resumes an interrupted upload.
+      const id = `${await this.getDeviceId()}:${await ChecksumUtil.calculateFileChecksum(snapshotPath)}`;
+      const file = `current-${generation}-${ChecksumUtil.calculateBufferChecksum(Buffer.from(id)).slice(0, 32)}.db`;
+      const stats = await this.transfer.upload(snapshotPath, file, this.encodeOptions());
+      return { ...stats, timestamp: Date.now(), version: null, file };
     }
+
+    const stats = await this.transfer.upload(snapshotPath, 'current.db', this.encodeOptions());
+    const timestamp = Date.now();
+
+    // Keep an immutable snapshot so a bad push can be rolled back
+    const version = await this.versionManager.createVersion('current.db', stats.checksum, timestamp, this.compression.codec);
+
+    return { ...stats, timestamp, version };
+  }
+
+  /**
+   * Upload the chunks the cloud lacks, then the manifest; the manifest doubles as the snapshot
+   */
+  private async uploadChunks(snapshotPath: string): Promise<PushedCopy> {
+    const { manifest, stats } = await this.chunkStore.upload(snapshotPath, this.chunkSize, this.encodeOptions());
+    const timestamp = Date.now();
+
+    const version = VersionManager.manifestVersion(manifest.checksum, timestamp);
+    await this.chunkStore.writeManifest(version.fileName, manifest);
+
+    return {
+      ...stats,
+      timestamp,
+      version: this.versionManager.enabled ? version : null,
+      manifest: version
+    };
+  }
+
+  /**
+   * Apply the retention policy, then delete chunks no remaining manifest refers to
+   */
+  private async pruneVersions(current?: VersionInfo): Promise<void> {
+    const removed = await this.versionManager.prune(current?.id);
+    if (!removed.some(version => version.storage === 'chunked')) return;
+
+    const manifests = (await this.versionManager.listVersions())
+      .filter(version => version.storage === 'chunked')
+      .map(version => version.fileName);
+    await this.chunkStore.collectGarbage(manifests);
   }
 
   /**
    * Pull database from cloud to local
    */
   async pullFromCloud(): Promise<SyncResult> {
+    return this.track('pull', () => this.pull());
+  }
+
+  private async pull(): Promise<SyncResult> {
     const startTime = Date.now();
 
     try {
       // Check if cloud version exists
-      const exists = await this.provider.fileExists('current.db');
-      if (!exists) {
-        throw new Error('No cloud version found');
-      }
-
-      // Download
-      const buffer = await this.provider.downloadFile('current.db');
-
-      // Verify checksum
-      const checksum = ChecksumUtil.calculateBufferChecksum(buffer);
       const cloudMetadata = await this.provider.getMetadata('current.db');
-
-      if (cloudMetadata && cloudMetadata.checksum !== checksum) {
-        throw new Error('Checksum mismatch - data corruption detected');
+      if (!cloudMetadata?.manifest && !(await this.provider.fileExists(cloudMetadata?.file ?? 'current.db'))) {
+        throw new CloudNotFoundError('No cloud version found');
       }
 
-      // Replace local database
-      await this.dbManager.replaceWithBuffer(buffer);
+      // Download, verifying the checksum in flight, and replace the local database
+      const { checksum, rawBytes, bytesTransferred, chunks } = await this.downloadOverLocal(
+        SyncEngine.currentCopy(cloudMetadata)
+      );
 
       // Update local metadata
-      await this.dbManager.updateLocalMetadata({
-        lastSyncTimestamp: Date.now(),
-        lastSyncChecksum: checksum
-      });
+      const generation = cloudMetadata?.generation;
+      await this.recordSyncBase(Date.now(), checksum, generation, this.dbManager.getPath());
 
       const result: SyncResult = {
         success: true,
@@ -110,74 +633,582 @@ export class SyncEngine {
         timestamp: Date.now(),
         localChecksum: checksum,
         cloudChecksum: checksum,
-        bytesTransferred: buffer.length,
-        duration: Date.now() - startTime
+        bytesTransferred,
+        rawBytes,
+        duration: Date.now() - startTime,
+        chunks,
+        generation
       };
 
-      this.logger.info(`Pull successful: ${buffer.length} bytes`);
+      this.logger.info(`Pull successful: ${rawBytes} bytes (${bytesTransferred} bytes transferred)`);
       return result;
 
     } catch (error) {
       this.logger.error('Pull failed', error as Error);
-      throw error;
+      throw SyncError.wrap(error);
     }
   }
 
   /**
-   * Bidirectional sync - simple version for v0.1
+   * Classify what changed since the last sync, using the last synced checksum as common base
+   */
+  static detectSyncState(localChecksum: string, cloudChecksum: string, baseChecksum: string): SyncState {
+    if (localChecksum === cloudChecksum) return 'unchanged';
+
+    // Without a common base (first sync on this device) both sides count as changed
+    if (!baseChecksum) return 'conflict';
+
+    const localChanged = localChecksum !== baseChecksum;
+    const cloudChanged = cloudChecksum !== baseChecksum;
+
+    if (localChanged && cloudChanged) return 'conflict';
+    return localChanged ? 'local-changed' : 'cloud-changed';
+  }
+
+  /**
+   * Bidirectional sync based on three-way change detection
    */
   async sync(): Promise<SyncResult> {
+    return this.track('bidirectional', () => this.bidirectional());
+  }
+
+  private async bidirectional(): Promise<SyncResult> {
     const startTime = Date.now();
 
     try {
-      const cloudExists = await this.provider.fileExists('current.db');
+      const cloudMetadata = await this.provider.getMetadata('current.db');
+      const cloudExists = Boolean(cloudMetadata?.manifest) ||
+        await this.provider.fileExists(cloudMetadata?.file ?? 'current.db');
 
       if (!cloudExists) {
         // No cloud version - push
         this.logger.info('No cloud version found, pushing local database');
-        return await this.pushToCloud();
+        return { ...(await this.push({ base: cloudMetadata })), state: 'local-changed' };
       }
 
-      // Compare checksums and timestamps
       const localChecksum = await this.dbManager.getChecksum();
-      const cloudMetadata = await this.provider.getMetadata('current.db');
 
       if (!cloudMetadata) {
         this.logger.info('No cloud metadata, pushing local database');
-        return await this.pushToCloud();
+        return { ...(await this.push({ base: null })), state: 'local-changed' };
+      }
+
+      const localMetadata = await this.dbManager.getLocalMetadata();
+      const state = SyncEngine.detectSyncState(
+        localChecksum,
+        cloudMetadata.checksum,
+        localMetadata.lastSyncChecksum
+      );
+
+      const unchangedResult: SyncResult = {
+        success: true,
+        type: 'bidirectional',
+        timestamp: Date.now(),
+        localChecksum,
+        cloudChecksum: cloudMetadata.checksum,
+        bytesTransferred: 0,
+        rawBytes: 0,
+        duration: Date.now() - startTime,
+        state,
+        generation: cloudMetadata.generation
+      };
+
+      if (state === 'unchanged') {
+        // Both sides may have converged on the same content; record it as the new base.
+        // Restoring the snapshot the cloud already holds needs no further action either.
+        if (
+          localMetadata.lastSyncChecksum !== localChecksum ||
+          localMetadata.lastSyncGeneration !== cloudMetadata.generation ||
+          localMetadata.rollback ||
+          localMetadata.conflict
+        ) {
+          await this.recordSyncBase(Date.now(), localChecksum, cloudMetadata.generation);
+        }
+
+        this.logger.info('Already in sync');
+        return unchangedResult;
+      }
+
+      // A restored snapshot is only published by an explicit pushToCloud()
+      if (localMetadata.rollback) {
+        this.logger.warn(
+          `Local database was rolled back to version ${localMetadata.rollback.versionId}; ` +
+          'skipping sync. Call pushToCloud() to publish it or pullFromCloud() to discard it'
+        );
+        return unchangedResult;
+      }
+
+      // A pending manual conflict is stale once either side has moved on
+      if (localMetadata.conflict && state !== 'conflict') {
+        await this.discardConflict(localMetadata.conflict);
+      }
+
+      if (state === 'local-changed') {
+        this.logger.info('Only local database changed, pushing');
+        return { ...(await this.push({ base: cloudMetadata })), state };
+      }
+
+      if (state === 'cloud-changed') {
+        this.logger.info('Only cloud database changed, pulling');
+        return { ...(await this.pull()), state };
+      }
+
+      return await this.handleConflict(
+        localChecksum,
+        cloudMetadata,
+        localMetadata.lastSyncChecksum,
+        localMetadata.conflict,
+        startTime
+      );
+
+    } catch (error) {
+      this.logger.error('Sync failed', error as Error);
+      throw SyncError.wrap(error);
+    }
+  }
+
+  /**
+   * Finish a sync left pending by the 'manual' conflict strategy
+   */
+  async resolveConflict(conflictId: string, choice: ConflictChoice): Promise<SyncResult> {
+    return this.track('bidirectional', () => this.resolve(conflictId, choice));
+  }
+
+  private async resolve(conflictId: string, choice: ConflictChoice): Promise<SyncResult> {
+    try {
+      const { conflict } = await this.dbManager.getLocalMetadata();
+      if (!conflict || conflict.id !== conflictId) {
+        throw new ConflictError(`Conflict not found: ${conflictId}`);
+      }
+
+      return await this.applyConflictChoice(conflict, choice);
+
+    } catch (error) {
+      this.logger.error('Conflict resolution failed', error as Error);
+      throw SyncError.wrap(error);
+    }
+  }
+
+  /**
+   * Run a sync operation under the cloud lock, between 'sync-start' and 'sync-complete' or 'sync-error'
+   */
+  private async track(type: SyncType, operation: () => Promise<SyncResult>): Promise<SyncResult> {
+    const startTime = Date.now();
+    this.emit('sync-start', { type });
+
+    let result: SyncResult;
+    try {
+      result = await this.lock.run(type, operation);
+    } catch (error) {
+      const syncError = SyncError.wrap(error);
+      await this.history.add({
+        success: false,
+        type,
+        timestamp: Date.now(),
+        localChecksum: '',
+        cloudChecksum: '',
+        bytesTransferred: 0,
+        rawBytes: 0,
+        duration: Date.now() - startTime,
+        error: syncError
+      });
+      if (syncError instanceof AuthenticationRequiredError) {
+        this.emit('auth-required', { reason: syncError.message });
       }
+      this.emit('sync-error', { type, error: syncError });
+      throw syncError;
+    }
+
+    await this.devices.record(result);
+    await this.history.add(result);
+
+    // Outside the try, so a throwing listener doesn't turn a completed sync into a failed one
+    this.emit('sync-complete', result);
+    return result;
+  }
+
+  /**
+   * Both sides changed since the last sync: apply the configured strategy
+   */
+  private async handleConflict(
+    localChecksum: string,
+    cloudMetadata: ProviderMetadata,
+    baseChecksum: string,
+    pending: SyncConflict | undefined,
+    startTime: number
+  ): Promise<SyncResult> {
+    const state: SyncState = 'conflict';
+    this.emit('conflict-detected', {
+      strategy: this.conflictStrategy,
+      localChecksum,
+      cloudChecksum: cloudMetadata.checksum,
+      baseChecksum
+    });
+
+    switch (this.conflictStrategy) {
+      case 'keep-local':
+        this.logger.warn('Conflict: both sides changed, keeping local');
+        return { ...(await this.push({ base: cloudMetadata })), state };
+
+      case 'keep-cloud':
+        this.logger.warn('Conflict: both sides changed, keeping cloud');
+        return { ...(await this.pull()), state };
 
-      if (localChecksum === cloudMetadata.checksum) {
-        // Already in sync
-        const result: SyncResult = {
+      case 'manual': {
+        // Re-report the pending conflict as long as neither side has changed since
+        let conflict = pending;
+        if (
+          !conflict ||
+          conflict.local.checksum !== localChecksum ||
+          conflict.cloud.checksum !== cloudMetadata.checksum
+        ) {
+          if (conflict) await this.discardConflict(conflict);
+          conflict = await this.stageConflict(cloudMetadata, baseChecksum);
+          await this.dbManager.updateLocalMetadata({ conflict });
+        }
+
+        this.logger.warn(`Conflict: both sides changed, waiting for resolveConflict('${conflict.id}')`);
+        return {
           success: true,
           type: 'bidirectional',
           timestamp: Date.now(),
-          localChecksum,
-          cloudChecksum: cloudMetadata.checksum,
+          localChecksum: conflict.local.checksum,
+          cloudChecksum: conflict.cloud.checksum,
           bytesTransferred: 0,
-          duration: Date.now() - startTime
+          rawBytes: 0,
+          duration: Date.now() - startTime,
+          state,
+          conflict
         };
+      }
 
-        this.logger.info('Already in sync');
-        return result;
+      case 'custom': {
+        if (!this.conflictResolver) {
+          throw new ConflictError('No conflict resolver set. Call setConflictResolver() or use another conflictStrategy');
+        }
+
+        if (pending) await this.discardConflict(pending);
+        const conflict = await this.stageConflict(cloudMetadata, baseChecksum);
+        try {
+          const choice = await this.conflictResolver(conflict);
+          return await this.applyConflictChoice(conflict, choice);
+        } finally {
+          await this.removeConflictFiles(conflict);
+        }
       }
 
-      // Determine which is newer
-      const localModified = await this.dbManager.getModifiedTime();
+      case 'merge': {
+        const basePath = await this.findMergeBase(baseChecksum);
+        if (!basePath) {
+          this.logger.warn('Conflict: no copy of the last synced database to merge against');
+          return this.lastWriteWins(cloudMetadata);
+        }
 
-      // Simple strategy: if local was modified more recently, push; otherwise pull
-      if (localModified > cloudMetadata.modifiedAt) {
-        this.logger.info('Local is newer, pushing');
-        return await this.pushToCloud();
-      } else {
-        this.logger.info('Cloud is newer, pulling');
-        return await this.pullFromCloud();
+        if (pending) await this.discardConflict(pending);
+        const conflict = await this.stageConflict(cloudMetadata, baseChecksum);
+        const mergedPath = this.dbManager.getWorkPath(`conflict-${conflict.id}-merged.db`);
+        try {
+          await FileOperations.copyFile(conflict.local.path, mergedPath);
+          const merge = await new RowMerger(this.logger, this.rowConflictResolver)
+            .merge(basePath, conflict.cloud.path, mergedPath);
+
+          this.logger.info(
+            `Conflict: merged ${merge.rowsApplied} cloud row change(s), ${merge.conflicts} row conflict(s)`
+          );
+          return { ...(await this.applyConflictChoice(conflict, { mergedPath })), merge };
+        } finally {
+          await fs.promises.rm(mergedPath, { force: true });
+          await this.removeConflictFiles(conflict);
+        }
+      }
+
+      default:
+        return this.lastWriteWins(cloudMetadata);
+    }
+  }
+
+  private async lastWriteWins(cloudMetadata: ProviderMetadata): Promise<SyncResult> {
+    const state: SyncState = 'conflict';
+    const localModified = await this.dbManager.getModifiedTime();
+
+    if (localModified > cloudMetadata.modifiedAt) {
+      this.logger.warn('Conflict: both sides changed, local is newer, pushing');
+      return { ...(await this.push({ base: cloudMetadata })), state };
+    } else {
+      this.logger.warn('Conflict: both sides changed, cloud is newer, pulling');
+      return { ...(await this.pull()), state };
+    }
+  }
+
+  /**
+   * Locate a copy of the database as of the last sync: the local base copy,
+   * or else the cloud snapshot with the same checksum
+   */
+  private async findMergeBase(baseChecksum: string): Promise<string | null> {
+    if (!baseChecksum) return null;
+
+    const basePath = this.dbManager.getWorkPath('base.db');
+    if (fs.existsSync(basePath) && await ChecksumUtil.calculateFileChecksum(basePath) === baseChecksum) {
+      return basePath;
+    }
+
+    const version = (await this.versionManager.listVersions())
+      .find(candidate => candidate.checksum === baseChecksum);
+    if (!version) return null;
+
+    await this.download(version, basePath);
+    return basePath;
+  }
+
+  private encodeOptions(): EncodeOptions {
+    return { compression: this.compression, key: this.encryptionKey };
+  }
+
+  private decodeOptions(options: Omit<DecodeOptions, 'keys'>): DecodeOptions {
+    return { ...options, keys: this.decryptionKeys() };
+  }
+
+  private decryptionKeys(): EncryptionKey[] {
+    return this.encryptionKey ? [this.encryptionKey] : [];
+  }
+
+  /**
+   * The current cloud database as described by the cloud metadata
+   */
+  private static currentCopy(cloudMetadata: ProviderMetadata | null): CloudCopy {
+    if (cloudMetadata?.manifest) {
+      return { fileName: cloudMetadata.manifest, storage: 'chunked', checksum: cloudMetadata.checksum };
+    }
+
+    return {
+      fileName: cloudMetadata?.file ?? 'current.db',
+      storage: 'file',
+      checksum: cloudMetadata?.checksum,
+      compression: cloudMetadata?.compression,
+      encryption: cloudMetadata?.encryption
+    };
+  }
+
+  /**
+   * Download a cloud copy into `targetPath`, verifying its checksum.
+   * Chunks the local database already has are copied from it instead.
+   */
+  private async download(copy: CloudCopy, targetPath: string): Promise<CopyStats> {
+    if (copy.storage === 'file') {
+      return this.transfer.download(copy.fileName, targetPath, this.decodeOptions({
+        compression: copy.compression,
+        checksum: copy.checksum,
+        encryption: copy.encryption
+      }));
+    }
+
+    const manifest = await this.chunkStore.readManifest(copy.fileName);
+    if (copy.checksum && manifest.checksum !== copy.checksum) {
+      throw new ChecksumMismatchError();
+    }
+
+    return this.chunkStore.download(manifest, targetPath, {
+      keys: this.decryptionKeys(),
+      seedPath: this.dbManager.getPath()
+    });
+  }
+
+  /**
+   * Download into a work file, then move it over the local database
+   */
+  private async downloadOverLocal(copy: CloudCopy): Promise<CopyStats> {
+    const downloadPath = this.dbManager.getWorkPath(`download-${process.pid}-${Date.now()}.db`);
+
+    try {
+      const stats = await this.download(copy, downloadPath);
+      await this.dbManager.replaceWithFile(downloadPath);
+      return stats;
+    } finally {
+      await fs.promises.rm(downloadPath, { force: true });
+    }
+  }
+
+  /**
+   * Replace one cloud object with a copy encrypted under `to`, unless it already is.
+   * Returns the encryption of the object now in the cloud.
+   */
+  private async reencryptFile(
+    fileName: string,
+    plaintextChecksum: string,
+    compression: CompressionCodec,
+    from: EncryptionKey,
+    to: EncryptionKey
+  ): Promise<{ encryption: EncryptionInfo; rotated: boolean }> {
+    const payloadPath = this.dbManager.getWorkPath(`rotate-${process.pid}-payload`);
+    const encryptedPath = this.dbManager.getWorkPath(`rotate-${process.pid}-encrypted`);
+    const toKeyId = await to.getKeyId();
+
+    try {
+      // Backups made before encryption was enabled are encrypted as well.
+      // The compressed payload is re-encrypted as is.
+      const payload = await this.transfer.download(fileName, payloadPath, { keys: [from, to] });
+      if (payload.encryption?.keyId === toKeyId) {
+        return { encryption: payload.encryption, rotated: false };
       }
 
+      await this.transfer.verifyFile(payloadPath, { keys: [], compression, checksum: plaintextChecksum })
+        .catch((error: Error) => {
+          throw new ChecksumMismatchError(`${error.message} in ${fileName}`, { cause: error });
+        });
+
+      // Never replace an object with something the new key can't read back
+      const encoded = await this.transfer.encodeFile(payloadPath, encryptedPath, {
+        compression: { codec: 'none' },
+        key: to
+      });
+      await this.transfer.verifyFile(encryptedPath, { keys: [to], checksum: payload.checksum })
+        .catch((error: Error) => {
+          throw new EncryptionError(`Re-encryption of ${fileName} could not be verified`, { cause: error });
+        });
+
+      await this.retry.run(
+        () => this.provider.uploadStream(fileName, fs.createReadStream(encryptedPath)),
+        `Upload of ${fileName}`
+      );
+      this.logger.debug(`Re-encrypted ${fileName}`);
+      return { encryption: encoded.encryption!, rotated: true };
+
+    } finally {
+      await fs.promises.rm(payloadPath, { force: true });
+      await fs.promises.rm(encryptedPath, { force: true });
+    }
+  }
+
+  /**
+   * Copy both sides of a conflict into local files the resolver can open
+   */
+  private async stageConflict(cloudMetadata: ProviderMetadata, baseChecksum: string): Promise<SyncConflict> {
+    const id = randomUUID();
+    const localPath = this.dbManager.getWorkPath(`conflict-${id}-local.db`);
+    const cloudPath = this.dbManager.getWorkPath(`conflict-${id}-cloud.db`);
+
+    try {
+      await this.dbManager.createSnapshot(localPath);
+      const localChecksum = await ChecksumUtil.calculateFileChecksum(localPath);
+      const localStats = await fs.promises.stat(localPath);
+
+      const cloud = await this.download(SyncEngine.currentCopy(cloudMetadata), cloudPath);
+
+      return {
+        id,
+        detectedAt: Date.now(),
+        baseChecksum,
+        local: {
+          path: localPath,
+          checksum: localChecksum,
+          modifiedAt: await this.dbManager.getModifiedTime(),
+          size: localStats.size
+        },
+        cloud: {
+          path: cloudPath,
+          checksum: cloud.checksum,
+          modifiedAt: cloudMetadata.modifiedAt,
+          size: cloud.rawBytes
+        }
+      };
+
     } catch (error) {
-      this.logger.error('Sync failed', error as Error);
+      await fs.promises.rm(localPath, { force: true });
+      await fs.promises.rm(cloudPath, { force: true });
       throw error;
     }
   }
+
+  /**
+   * Publish the chosen side of a conflict and make it the new sync base
+   */
+  private async applyConflictChoice(conflict: SyncConflict, choice: ConflictChoice): Promise<SyncResult> {
+    const state: SyncState = 'conflict';
+
+    // The choice was made against this cloud state; don't overwrite anything newer
+    const cloudMetadata = await this.provider.getMetadata('current.db');
+    if (cloudMetadata?.checksum !== conflict.cloud.checksum) {
+      throw new ConflictError('Cloud database changed since the conflict was detected. Run sync() again');
+    }
+
+    if (choice === 'local') {
+      this.logger.info(`Conflict ${conflict.id} resolved: keeping local`);
+      return { ...(await this.push({ base: cloudMetadata })), state };
+    }
+
+    if (choice === 'cloud') {
+      this.logger.info(`Conflict ${conflict.id} resolved: keeping cloud`);
+      return { ...(await this.pull()), state };
+    }
+
+    if (!fs.existsSync(choice.mergedPath)) {
+      throw new DatabaseError(`Merged database not found: ${choice.mergedPath}`);
+    }
+
+    this.logger.info(`Conflict ${conflict.id} resolved: publishing merged database`);
+    const replacementPath = this.dbManager.getWorkPath(`conflict-${conflict.id}-replacement.db`);
+    try {
+      await FileOperations.copyFile(choice.mergedPath, replacementPath);
+      await this.dbManager.replaceWithFile(replacementPath);
+    } finally {
+      await fs.promises.rm(replacementPath, { force: true });
+    }
+    return { ...(await this.push({ base: cloudMetadata })), state };
+  }
+
+  /**
+   * Record the checksum and generation both sides now share, clearing rollback and conflict state.
+   * The 'merge' strategy also keeps a copy of the synced database (`sourcePath`) as the next merge base.
+   */
+  private async recordSyncBase(
+    timestamp: number,
+    checksum: string,
+    generation: number | undefined,
+    sourcePath?: string
+  ): Promise<void> {
+    const { conflict } = await this.dbManager.getLocalMetadata();
+
+    await this.dbManager.updateLocalMetadata({
+      lastSyncTimestamp: timestamp,
+      lastSyncChecksum: checksum,
+      lastSyncGeneration: generation,
+      rollback: undefined,
+      conflict: undefined
+    });
+
+    if (conflict) await this.removeConflictFiles(conflict);
+
+    if (this.conflictStrategy === 'merge') {
+      await this.saveMergeBase(checksum, sourcePath);
+    }
+  }
+
+  private async saveMergeBase(checksum: string, sourcePath?: string): Promise<void> {
+    const basePath = this.dbManager.getWorkPath('base.db');
+
+    if (sourcePath) {
+      await FileOperations.copyFile(sourcePath, basePath);
+      return;
+    }
+
+    // The database may have changed since its checksum was taken; only keep a matching copy
+    const snapshotPath = await this.dbManager.createSnapshot();
+    try {
+      if (await ChecksumUtil.calculateFileChecksum(snapshotPath) === checksum) {
+        await fs.promises.rename(snapshotPath, basePath);
+      }
+    } finally {
+      await this.dbManager.removeSnapshot(snapshotPath);
+    }
+  }
+
+  private async discardConflict(conflict: SyncConflict): Promise<void> {
+    await this.dbManager.updateLocalMetadata({ conflict: undefined });
+    await this.removeConflictFiles(conflict);
+  }
+
+  private async removeConflictFiles(conflict: SyncConflict): Promise<void> {
+    await fs.promises.rm(conflict.local.path, { force: true });
+    await fs.promises.rm(conflict.cloud.path, { force: true });
+  }
 }
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import { FileOperations } from '../utils/file-operations';
+import { Logger } from '../utils/logger';
+import { ConfigurationError, SyncError, SyncErrorCode } from '../errors';
+import { SyncResult } from '../types';
+
+const DEFAULT_SIZE = 100;
+
+// Result as stored; errors keep their code and message
+type StoredResult = Omit<SyncResult, 'error'> & { error?: { code: SyncErrorCode; message: string } };
+
+/**
+ * The last `size` sync results on this device, failures included, newest first.
+ * Kept in a JSON file next to the local sync metadata.
+ */
+export class SyncHistory {
+  private filePath: string;
+  private size: number;
+  private logger: Logger;
+
+  constructor(filePath: string, size: number | undefined, logger: Logger) {
+    this.size = size ?? DEFAULT_SIZE;
+    if (!Number.isInteger(this.size) || this.size < 0) {
+      throw new ConfigurationError('History size must be a non-negative integer');
+    }
+
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Record a result, dropping the oldest beyond `size`. Failures are logged, not thrown.
+   */
+  async add(result: SyncResult): Promise<void> {
+    if (this.size === 0) return;
+
+    try {
+      const { error, ...rest } = result;
+      const entry: StoredResult = error ? { ...rest, error: { code: error.code, message: error.message } } : rest;
+      const entries = [entry, ...(await this.load())].slice(0, this.size);
+
+      await FileOperations.writeFileAtomic(this.filePath, Buffer.from(JSON.stringify(entries)));
+    } catch (error) {
+      this.logger.warn('Failed to record sync history', error);
+    }
+  }
+
+  /**
+   * Recorded results, newest first. Errors come back as SyncError with their original code.
+   */
+  async list(limit?: number): Promise<SyncResult[]> {
+    if (limit !== undefined && !(limit >= 0)) {
+      throw new ConfigurationError('History limit must not be negative');
+    }
+    const entries = (await this.load()).slice(0, limit);
+
+    return entries.map(({ error, ...rest }) =>
+      error ? { ...rest, error: new SyncError(error.code, error.message) } : rest
+    );
+  }
+
+  private async load(): Promise<StoredResult[]> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8')) as StoredResult[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Sync history is unreadable, starting a new one', error);
+      }
+      return [];
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import { Readable, Transform, Writable, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { BaseProvider } from '../providers/base-provider';
+import { ChecksumUtil } from '../utils/checksum';
+import { CompressionUtil } from '../utils/compression';
+import { EncryptionKey, EncryptionUtil } from '../utils/encryption';
+import { Logger } from '../utils/logger';
+import { RetryPolicy } from '../utils/retry';
+import { ChecksumMismatchError } from '../errors';
+import { CompressionCodec, CompressionOptions, EncryptionInfo } from '../types';
+
+export interface EncodeOptions {
+  compression: CompressionOptions;
+  key: EncryptionKey | null;
+}
+
+export interface DecodeOptions {
+  /** Keys to try; encrypted input needs one whose id matches its header */
+  keys: EncryptionKey[];
+  compression?: CompressionCodec;
+  /** Expected checksum of the decoded database */
+  checksum?: string;
+  /** Expected encryption of the stored bytes, from the cloud metadata */
+  encryption?: EncryptionInfo;
+}
+
+export interface TransferStats {
+  /** SHA-256 of the database content */
+  checksum: string;
+  /** Size of the database content */
+  rawBytes: number;
+  /** Size of the stored (compressed and/or encrypted) bytes */
+  bytesTransferred: number;
+  /** Key id and checksum of the stored bytes, when they are encrypted */
+  encryption?: EncryptionInfo;
+}
+
+export interface TransferStream {
+  stream: Readable;
+  /** Only available after the stream has ended */
+  stats(): TransferStats;
+}
+
+/**
+ * Moves databases between local files and the cloud without holding them in memory.
+ * Upload: file -> hash -> compress -> encrypt -> hash -> provider.
+ * Download: provider -> hash -> decrypt -> decompress -> hash -> temp file -> rename.
+ */
+export class TransferPipeline {
+  private provider: BaseProvider;
+  private logger: Logger;
+  private retry: RetryPolicy;
+
+  constructor(provider: BaseProvider, logger: Logger, retry = new RetryPolicy({ maxRetries: 0 }, logger)) {
+    this.provider = provider;
+    this.logger = logger;
+    this.retry = retry;
+  }
+
+  /**
+   * Stream a local file to the cloud. A transient failure restarts the upload from the file.
+   */
+  async upload(sourcePath: string, fileName: string, options: EncodeOptions): Promise<TransferStats> {
+    const result = await this.retry.run(async () => {
+      const { stream, stats } = await this.encode(fs.createReadStream(sourcePath), options);
+
+      try {
+        await this.provider.uploadStream(fileName, stream);
+      } finally {
+        stream.destroy();
+      }
+      return stats();
+    }, `Upload of ${fileName}`);
+
+    this.logger.debug(`Uploaded ${fileName}: ${result.rawBytes} bytes (${result.bytesTransferred} stored)`);
+    return result;
+  }
+
+  /**
+   * Stream a cloud file into `targetPath`, which is only replaced once the content is verified
+   */
+  async download(fileName: string, targetPath: string, options: DecodeOptions): Promise<TransferStats> {
+    const result = await this.retry.run(async () => {
+      const { stream, stats } = this.decode(await this.provider.downloadStream(fileName), options);
+      await TransferPipeline.writeFile(stream, targetPath);
+      return stats();
+    }, `Download of ${fileName}`);
+
+    this.logger.debug(`Downloaded ${fileName}: ${result.rawBytes} bytes (${result.bytesTransferred} stored)`);
+    return result;
+  }
+
+  /**
+   * Compress, then encrypt, hashing the input and the output in flight
+   */
+  async encode(source: Readable, options: EncodeOptions): Promise<TransferStream> {
+    const { codec, level } = options.compression;
+    const content = ChecksumUtil.createHashStream();
+    const stored = ChecksumUtil.createHashStream();
+
+    const stages: Transform[] = [content, CompressionUtil.createCompressStream(codec, level)];
+    const keyId = options.key ? await options.key.getKeyId() : undefined;
+    if (options.key) {
+      stages.push(await EncryptionUtil.createEncryptStream(options.key));
+    }
+    stages.push(stored);
+
+    // Errors in any stage destroy the last one, so they reach whoever consumes it
+    pipeline([source, ...stages], noop);
+
+    return {
+      stream: stored,
+      stats: () => ({
+        checksum: content.checksum,
+        rawBytes: content.bytes,
+        bytesTransferred: stored.bytes,
+        encryption: keyId ? { keyId, checksum: stored.checksum } : undefined
+      })
+    };
+  }
+
+  /**
+   * Decrypt, then decompress, verifying both checksums before the stream ends.
+   * Unencrypted input passes through, so backups from before encryption was enabled stay readable.
+   */
+  decode(source: Readable, options: DecodeOptions): TransferStream {
+    const { encryption } = options;
+
+    // Checked before the auth tag, so corrupted ciphertext is reported as such
+    const stored = ChecksumUtil.createHashStream(checksum => {
+      // A key rotation interrupted between the upload and the metadata update leaves
+      // a stale ciphertext checksum; the GCM tag and the content checksum still apply
+      const rotating = EncryptionUtil.isEncrypted(stored.head) &&
+        EncryptionUtil.readHeader(stored.head).keyId !== encryption?.keyId;
+      if (encryption && !rotating && checksum !== encryption.checksum) {
+        throw new ChecksumMismatchError();
+      }
+    });
+    const decrypt = EncryptionUtil.createDecryptStream(options.keys);
+
+    const content = ChecksumUtil.createHashStream(checksum => {
+      if (options.checksum && checksum !== options.checksum) {
+        throw new ChecksumMismatchError();
+      }
+    });
+
+    pipeline(
+      [source, stored, decrypt, CompressionUtil.createDecompressStream(options.compression ?? 'none'), content],
+      noop
+    );
+
+    return {
+      stream: content,
+      stats: () => ({
+        checksum: content.checksum,
+        rawBytes: content.bytes,
+        bytesTransferred: stored.bytes,
+        encryption: decrypt.header ? { keyId: decrypt.header.keyId, checksum: stored.checksum } : undefined
+      })
+    };
+  }
+
+  /**
+   * Encode a local file into another local file
+   */
+  async encodeFile(sourcePath: string, targetPath: string, options: EncodeOptions): Promise<TransferStats> {
+    const { stream, stats } = await this.encode(fs.createReadStream(sourcePath), options);
+    await TransferPipeline.writeFile(stream, targetPath);
+    return stats();
+  }
+
+  /**
+   * Decode a local file, discarding the output; throws if it doesn't verify
+   */
+  async verifyFile(sourcePath: string, options: DecodeOptions): Promise<TransferStats> {
+    const { stream, stats } = this.decode(fs.createReadStream(sourcePath), options);
+    await pipelineAsync(stream, new Writable({ write: (_chunk, _encoding, callback) => callback() }));
+    return stats();
+  }
+
+  /**
+   * Write a stream to a temp file next to `targetPath`, then rename it into place
+   */
+  private static async writeFile(stream: Readable, targetPath: string): Promise<void> {
+    const tempPath = `${targetPath}.download`;
+
+    try {
+      await pipelineAsync(stream, fs.createWriteStream(tempPath));
+      await fs.promises.rename(tempPath, targetPath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
+
+function noop(): void {
+  // Errors are surfaced through the last stream of the pipeline
+}
@@ -0,0 +1,169 @@
+import { BaseProvider } from '../providers/base-provider';
+import { CompressionUtil } from '../utils/compression';
+import { Logger } from '../utils/logger';
+import { CompressionCodec, RetentionPolicy, VersionInfo, VersioningOptions } from '../types';
+
+const VERSIONS_FOLDER = 'versions';
+const VERSION_FILE_PATTERN = /^(\d+)_([a-f0-9]{64})\.db(\.gz|\.br)?$/;
+// Versions in chunked storage are manifests listing the chunks of the database
+const MANIFESTS_FOLDER = 'manifests';
+const MANIFEST_FILE_PATTERN = /^(\d+)_([a-f0-9]{64})\.json$/;
+const CODECS: CompressionCodec[] = ['none', 'gzip', 'brotli'];
+
+export class VersionManager {
+  private provider: BaseProvider;
+  private logger: Logger;
+  private retention: RetentionPolicy;
+  readonly enabled: boolean;
+
+  constructor(provider: BaseProvider, logger: Logger, options: VersioningOptions = {}) {
+    this.provider = provider;
+    this.logger = logger;
+    this.enabled = options.enabled ?? true;
+    this.retention = options.retention ?? { keepLast: 10 };
+  }
+
+  /**
+   * Snapshot a file in the db folder as an immutable version
+   */
+  async createVersion(
+    sourceFile: string,
+    checksum: string,
+    timestamp: number,
+    compression: CompressionCodec = 'none'
+  ): Promise<VersionInfo> {
+    const id = `${timestamp}_${checksum}`;
+    const fileName = `${VERSIONS_FOLDER}/${id}.db${CompressionUtil.getExtension(compression)}`;
+
+    await this.provider.copyFile(sourceFile, fileName);
+    this.logger.debug(`Created version ${id}`);
+
+    return { id, fileName, timestamp, checksum, compression, storage: 'file' };
+  }
+
+  /**
+   * Where the chunk manifest of a database pushed at `timestamp` is stored
+   */
+  static manifestVersion(checksum: string, timestamp: number): VersionInfo {
+    const id = `${timestamp}_${checksum}`;
+    return { id, fileName: `${MANIFESTS_FOLDER}/${id}.json`, timestamp, checksum, compression: 'none', storage: 'chunked' };
+  }
+
+  /**
+   * List stored versions of both storage modes, newest first
+   */
+  async listVersions(): Promise<VersionInfo[]> {
+    const versions: VersionInfo[] = [];
+
+    for (const fileName of await this.provider.listFiles(VERSIONS_FOLDER)) {
+      const match = fileName.substring(VERSIONS_FOLDER.length + 1).match(VERSION_FILE_PATTERN);
+      if (!match) continue;
+
+      versions.push({
+        id: `${match[1]}_${match[2]}`,
+        fileName,
+        timestamp: Number(match[1]),
+        checksum: match[2],
+        compression: CompressionUtil.getCodecForExtension(match[3]),
+        storage: 'file'
+      });
+    }
+
+    for (const fileName of await this.provider.listFiles(MANIFESTS_FOLDER)) {
+      const match = fileName.substring(MANIFESTS_FOLDER.length + 1).match(MANIFEST_FILE_PATTERN);
+      if (match) {
+        versions.push(VersionManager.manifestVersion(match[2], Number(match[1])));
+      }
+    }
+
+    return versions.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Look up a stored version by id
+   */
+  async getVersion(id: string): Promise<VersionInfo | null> {
+    const match = `${id}.db`.match(VERSION_FILE_PATTERN);
+    if (!match) return null;
+
+    for (const compression of CODECS) {
+      const fileName = `${VERSIONS_FOLDER}/${id}.db${CompressionUtil.getExtension(compression)}`;
+      if (await this.provider.fileExists(fileName)) {
+        return { id, fileName, timestamp: Number(match[1]), checksum: match[2], compression, storage: 'file' };
+      }
+    }
+
+    const manifest = VersionManager.manifestVersion(match[2], Number(match[1]));
+    return (await this.provider.fileExists(manifest.fileName)) ? manifest : null;
+  }
+
+  /**
+   * Delete versions not covered by the retention policy, never `currentId`.
+   * With versioning disabled only chunk manifests are deleted, as they are written on every chunked push.
+   */
+  async prune(currentId?: string): Promise<VersionInfo[]> {
+    const versions = await this.listVersions();
+    const keep = this.enabled
+      ? VersionManager.selectVersionsToKeep(versions, this.retention)
+      : new Set(versions.filter(version => version.storage === 'file').map(version => version.id));
+    if (currentId) keep.add(currentId);
+    const removed = versions.filter(version => !keep.has(version.id));
+
+    for (const version of removed) {
+      await this.provider.deleteFile(version.fileName);
+    }
+
+    if (removed.length > 0) {
+      this.logger.info(`Pruned ${removed.length} old version(s)`);
+    }
+    return removed;
+  }
+
+  /**
+   * Apply a grandfather-father-son retention policy.
+   * A policy without any rules keeps every version.
+   */
+  static selectVersionsToKeep(versions: VersionInfo[], policy: RetentionPolicy): Set<string> {
+    const newestFirst = [...versions].sort((a, b) => b.timestamp - a.timestamp);
+    const hasRules = Boolean(policy.keepLast || policy.keepDaily || policy.keepWeekly || policy.keepMonthly);
+
+    if (!hasRules) {
+      return new Set(newestFirst.map(version => version.id));
+    }
+
+    const keep = new Set<string>();
+
+    newestFirst.slice(0, policy.keepLast ?? 0).forEach(version => keep.add(version.id));
+
+    const keepPerPeriod = (count: number | undefined, periodKey: (date: Date) => string): void => {
+      if (!count) return;
+
+      const seen = new Set<string>();
+      for (const version of newestFirst) {
+        const key = periodKey(new Date(version.timestamp));
+        if (seen.has(key)) continue;
+
+        seen.add(key);
+        keep.add(version.id);
+        if (seen.size >= count) break;
+      }
+    };
+
+    keepPerPeriod(policy.keepDaily, date => date.toISOString().substring(0, 10));
+    keepPerPeriod(policy.keepWeekly, date => isoWeekKey(date));
+    keepPerPeriod(policy.keepMonthly, date => date.toISOString().substring(0, 7));
+
+    return keep;
+  }
+}
+
+function isoWeekKey(date: Date): string {
+  // Thursday of the same ISO week decides the week-year
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+
+  const firstThursday = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4));
+  const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7);
+
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
@@ -0,0 +1,152 @@
+// Error classes thrown by sqlite-cloud-backup. Match on `code` (or instanceof), not on messages.
+
+export type SyncErrorCode =
+  | 'AUTH_REQUIRED'
+  | 'CLOUD_NOT_FOUND'
+  | 'CHECKSUM_MISMATCH'
+  | 'CONFLICT'
+  | 'QUOTA_EXCEEDED'
+  | 'PROVIDER_ERROR'
+  | 'LOCKED'
+  | 'ENCRYPTION_ERROR'
+  | 'DATABASE_ERROR'
+  | 'INVALID_CONFIG'
+  | 'UNKNOWN';
+
+export interface SyncErrorOptions {
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error the library throws during sync operations
+ */
+export class SyncError extends Error {
+  readonly code: SyncErrorCode;
+
+  constructor(code: SyncErrorCode, message: string, options: SyncErrorOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+  }
+
+  /**
+   * Pass typed errors through; wrap anything else as UNKNOWN, keeping its message
+   */
+  static wrap(error: unknown): SyncError {
+    if (error instanceof SyncError) return error;
+    return new SyncError('UNKNOWN', error instanceof Error ? error.message : String(error), { cause: error });
+  }
+}
+
+/**
+ * Credentials are missing, expired or were rejected; authenticate again
+ */
+export class AuthenticationRequiredError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('AUTH_REQUIRED', message, options);
+  }
+}
+
+/**
+ * A cloud file, version or backup doesn't exist
+ */
+export class CloudNotFoundError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('CLOUD_NOT_FOUND', message, options);
+  }
+}
+
+/**
+ * Data didn't match its recorded checksum; nothing was written
+ */
+export class ChecksumMismatchError extends SyncError {
+  constructor(message = 'Checksum mismatch - data corruption detected', options?: SyncErrorOptions) {
+    super('CHECKSUM_MISMATCH', message, options);
+  }
+}
+
+/**
+ * A conflict couldn't be resolved, or the cloud changed since this device last saw it
+ */
+export class ConflictError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('CONFLICT', message, options);
+  }
+}
+
+/**
+ * The cloud account (or disk) is out of space or API quota
+ */
+export class QuotaExceededError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('QUOTA_EXCEEDED', message, options);
+  }
+}
+
+/**
+ * The storage backend failed. `status` is set for HTTP failures.
+ */
+export class ProviderError extends SyncError {
+  readonly status?: number;
+  /** Raw Retry-After header, if the server sent one */
+  readonly retryAfter?: string;
+  /** Reason the backend gave, e.g. Drive's `userRateLimitExceeded` */
+  readonly reason?: string;
+
+  constructor(
+    message: string,
+    options: SyncErrorOptions & { status?: number; retryAfter?: string | null; reason?: string | null } = {}
+  ) {
+    super('PROVIDER_ERROR', message, options);
+    this.status = options.status;
+    this.retryAfter = options.retryAfter ?? undefined;
+    this.reason = options.reason ?? undefined;
+  }
+}
+
+/**
+ * Another device holds the cloud write lock
+ */
+export class LockedError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('LOCKED', message, options);
+  }
+}
+
+/**
+ * Encrypted data can't be decrypted with the configured key
+ */
+export class EncryptionError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('ENCRYPTION_ERROR', message, options);
+  }
+}
+
+/**
+ * The local database is missing or can't be read
+ */
+export class DatabaseError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('DATABASE_ERROR', message, options);
+  }
+}
+
+/**
+ * An option or argument is invalid; fix the configuration, retrying won't help
+ */
+export class ConfigurationError extends SyncError {
+  constructor(message: string, options?: SyncErrorOptions) {
+    super('INVALID_CONFIG', message, options);
+  }
+}
+
+/**
+ * Typed error for a failed HTTP response from a storage backend
+ */
+export function errorForStatus(message: string, status: number, retryAfter?: string | null): SyncError {
+  if (status === 401 || status === 403) return new AuthenticationRequiredError(message);
+  if (status === 404 || status === 410) return new CloudNotFoundError(message);
+  if (status === 412) return new ConflictError(message);
+  if (status === 507) return new QuotaExceededError(message);
+  return new ProviderError(message, { status, retryAfter });
+}
@@ -1,37 +1,61 @@
+import { EventEmitter } from 'events';
 import { DatabaseManager } from './core/db-manager';
 import { SyncEngine } from './core/sync-engine';
-import { GoogleDriveProvider, OAuthFlow, TokenStorage } from './providers/google-drive';
+import { SyncScheduler } from './core/scheduler';
+import { ChangeWatcher } from './core/change-watcher';
 import { BaseProvider } from './providers/base-provider';
+import { ProviderRegistry } from './providers/registry';
 import { Logger } from './utils/logger';
+import { AuthenticationRequiredError } from './errors';
 import {
   SyncConfig,
+  SyncEvents,
   SyncResult,
-  GoogleDriveCredentials
+  PushOptions,
+  ConflictChoice,
+  ConflictResolver,
+  RowConflictResolver,
+  EncryptionOptions,
+  KeyRotationResult,
+  VersionInfo,
+  RestoreOptions,
+  RestoreResult,
+  AutoSyncOptions,
+  AutoSyncState,
+  SyncStatus,
+  DeviceInfo,
+  HistoryOptions
 } from './types';
 import path from 'path';
 
-export class SqliteCloudBackup {
+// Events re-emitted from the sync engine, which also forwards the provider's
+const SYNC_EVENTS: Array<keyof SyncEvents> = [
+  'sync-start',
+  'progress',
+  'sync-complete',
+  'sync-error',
+  'conflict-detected',
+  'auth-required',
+  'token-refreshed'
+];
+
+export class SqliteCloudBackup extends EventEmitter<SyncEvents> {
   private dbManager: DatabaseManager;
   private provider: BaseProvider;
   private syncEngine: SyncEngine;
   private logger: Logger;
-  private oauthFlow: OAuthFlow;
-  private tokenStorage: TokenStorage;
-  private credentials: GoogleDriveCredentials;
-  private dbPath: string;
+  private scheduler: SyncScheduler | null = null;
+  private watcher: ChangeWatcher | null = null;
+  private syncOnShutdown = false;
+  // Tail of the queue of sync operations; they run one at a time
+  private operation: Promise<unknown> = Promise.resolve();
 
   constructor(config: SyncConfig) {
+    super();
+
     // Initialize logger
     this.logger = new Logger(config.options?.logLevel ?? 'info');
 
-    // Store config for OAuth flow
-    this.dbPath = config.dbPath;
-    this.credentials = config.credentials as GoogleDriveCredentials;
-
-    // Initialize OAuth flow and token storage
-    this.oauthFlow = new OAuthFlow(this.logger);
-    this.tokenStorage = new TokenStorage(config.dbPath, config.options?.logLevel ?? 'info');
-
     // Initialize components
     this.dbManager = new DatabaseManager(config.dbPath, this.logger);
 
@@ -42,113 +66,60 @@ export class SqliteCloudBackup {
     this.syncEngine = new SyncEngine(
       this.dbManager,
       this.provider,
-      this.logger
+      this.logger,
+      config.options
     );
+
+    for (const event of SYNC_EVENTS) {
+      this.syncEngine.on(event, (...args: unknown[]) => this.emit(event, ...(args as [never])));
+    }
   }
 
   private createProvider(config: SyncConfig): BaseProvider {
-    const dbName = path.basename(config.dbPath, path.extname(config.dbPath));
-
-    switch (config.provider) {
-      case 'google-drive':
-        return new GoogleDriveProvider(
-          config.credentials as GoogleDriveCredentials,
-          dbName,
-          this.logger
-        );
-      default:
-        throw new Error(`Unsupported provider: ${config.provider}`);
+    const { provider } = config;
+
+    // Ready-made provider instance
+    if (typeof provider === 'object') {
+      return provider;
     }
+
+    const context = {
+      dbPath: config.dbPath,
+      dbName: path.basename(config.dbPath, path.extname(config.dbPath)),
+      credentials: config.credentials,
+      logger: this.logger
+    };
+
+    if (typeof provider === 'function') {
+      return provider(context);
+    }
+
+    return ProviderRegistry.create(provider, context);
   }
 
   /**
    * Check if user needs authentication
    */
   async needsAuthentication(): Promise<boolean> {
-    // If refreshToken provided in credentials, no need for OAuth
-    if (this.credentials.refreshToken) {
-      return false;
-    }
-
-    // Check if we have stored tokens
-    return !(await this.tokenStorage.hasTokens());
+    return this.provider.needsAuthentication();
   }
 
   /**
-   * Ensure user is authenticated, trigger OAuth flow if needed
+   * Ensure user is authenticated, trigger the provider's auth flow if needed
    */
   private async ensureAuthenticated(): Promise<void> {
-    // If refreshToken already provided, use it
-    if (this.credentials.refreshToken) {
-      this.logger.debug('Using provided refresh token');
-      return;
-    }
-
-    // Check if we have stored tokens
-    const storedTokens = await this.tokenStorage.getTokens();
-    if (storedTokens) {
-      this.logger.debug('Using stored refresh token');
-      // Update credentials with stored token
-      this.credentials.refreshToken = storedTokens.refreshToken;
-
-      // Recreate provider with updated credentials
-      const dbName = path.basename(this.dbPath, path.extname(this.dbPath));
-      this.provider = new GoogleDriveProvider(
-        this.credentials,
-        dbName,
-        this.logger
-      );
-
-      // Recreate sync engine with new provider
-      this.syncEngine = new SyncEngine(
-        this.dbManager,
-        this.provider,
-        this.logger
-      );
-      return;
+    if (await this.provider.needsAuthentication()) {
+      this.logger.info('No authentication found, starting authentication flow...');
+      await this.authenticate();
     }
-
-    // No tokens available, trigger OAuth flow
-    this.logger.info('No authentication found, starting OAuth flow...');
-    await this.authenticate();
   }
 
   /**
-   * Trigger OAuth authentication flow
+   * Trigger the provider's authentication flow (OAuth for Google Drive)
    */
   async authenticate(): Promise<void> {
-    this.logger.info('Starting OAuth authentication flow...');
-
-    const tokens = await this.oauthFlow.authenticate(
-      this.credentials.clientId,
-      this.credentials.clientSecret
-    );
-
-    // Save tokens to storage
-    await this.tokenStorage.saveTokens({
-      refreshToken: tokens.refresh_token,
-      accessToken: tokens.access_token,
-      expiryDate: tokens.expiry_date
-    });
-
-    // Update credentials
-    this.credentials.refreshToken = tokens.refresh_token;
-
-    // Recreate provider with updated credentials
-    const dbName = path.basename(this.dbPath, path.extname(this.dbPath));
-    this.provider = new GoogleDriveProvider(
-      this.credentials,
-      dbName,
-      this.logger
-    );
-
-    // Recreate sync engine with new provider
-    this.syncEngine = new SyncEngine(
-      this.dbManager,
-      this.provider,
-      this.logger
-    );
-
+    this.logger.info('Starting authentication flow...');
+    await this.provider.authenticate();
     this.logger.info('Authentication successful');
   }
 
@@ -163,44 +134,262 @@ export class SqliteCloudBackup {
    * Logout and clear stored tokens
    */
   async logout(): Promise<void> {
-    await this.tokenStorage.clearTokens();
-    this.credentials.refreshToken = undefined;
+    await this.provider.logout();
     this.logger.info('Logged out successfully');
   }
 
   /**
-   * Push local database to cloud
+   * Push local database to cloud.
+   * Fails with ConflictError if another device pushed since the last sync; `force` overwrites it anyway.
    */
-  async pushToCloud(): Promise<SyncResult> {
-    await this.ensureAuthenticated();
-    return this.syncEngine.pushToCloud();
+  async pushToCloud(options: PushOptions = {}): Promise<SyncResult> {
+    return this.exclusive(async () => {
+      await this.ensureAuthenticated();
+      return this.syncEngine.pushToCloud(options);
+    });
   }
 
   /**
    * Pull database from cloud to local
    */
   async pullFromCloud(): Promise<SyncResult> {
-    await this.ensureAuthenticated();
-    return this.syncEngine.pullFromCloud();
+    return this.exclusive(async () => {
+      await this.ensureAuthenticated();
+      return this.syncEngine.pullFromCloud();
+    });
   }
 
   /**
    * Bidirectional sync
    */
   async sync(): Promise<SyncResult> {
+    return this.exclusive(async () => {
+      await this.ensureAuthenticated();
+      return this.syncEngine.sync();
+    });
+  }
+
+  /**
+   * Set the callback used when `conflictStrategy` is 'custom'.
+   * It receives local copies of both databases and returns 'local', 'cloud' or `{ mergedPath }`.
+   */
+  setConflictResolver(resolver: ConflictResolver | null): void {
+    this.syncEngine.setConflictResolver(resolver);
+  }
+
+  /**
+   * Set the callback for rows the 'merge' conflict strategy can't merge cleanly.
+   * Without one, the local version of a conflicting row is kept.
+   */
+  setRowConflictResolver(resolver: RowConflictResolver | null): void {
+    this.syncEngine.setRowConflictResolver(resolver);
+  }
+
+  /**
+   * Finish a sync that returned a conflict under the 'manual' strategy
+   */
+  async resolveConflict(conflictId: string, choice: ConflictChoice): Promise<SyncResult> {
+    return this.exclusive(async () => {
+      await this.ensureAuthenticated();
+      return this.syncEngine.resolveConflict(conflictId, choice);
+    });
+  }
+
+  /**
+   * Local and cloud checksums and generations, pending changes, the last error, the cloud lock
+   * and auto-sync state. Never starts interactive authentication; the cloud is only read when signed in.
+   */
+  async getStatus(): Promise<SyncStatus> {
+    const authenticated = !(await this.provider.needsAuthentication());
+    const status = await this.syncEngine.getStatus(authenticated);
+    return {
+      ...status,
+      authenticated,
+      // A commit may have landed after the checksum was taken
+      pendingChanges: status.pendingChanges || (this.watcher?.hasPendingChanges() ?? false),
+      autoSync: this.getAutoSyncState()
+    };
+  }
+
+  /**
+   * Results of recent operations on this device, newest first, failures included
+   */
+  async getSyncHistory(options: HistoryOptions = {}): Promise<SyncResult[]> {
+    return this.syncEngine.getSyncHistory(options.limit);
+  }
+
+  /**
+   * Devices that synced this database, most recently seen first
+   */
+  async listDevices(): Promise<DeviceInfo[]> {
+    await this.ensureAuthenticated();
+    return this.syncEngine.listDevices();
+  }
+
+  /**
+   * Remove a retired device's record. A device that syncs again shows up again.
+   */
+  async forgetDevice(deviceId: string): Promise<void> {
+    return this.exclusive(async () => {
+      await this.ensureAuthenticated();
+      return this.syncEngine.forgetDevice(deviceId);
+    });
+  }
+
+  /**
+   * List cloud snapshots of the database, newest first
+   */
+  async listVersions(): Promise<VersionInfo[]> {
     await this.ensureAuthenticated();
-    return this.syncEngine.sync();
+    return this.syncEngine.listVersions();
+  }
+
+  /**
+   * Restore a cloud snapshot over the local database, or to `options.targetPath`.
+   * After an in-place restore, sync() won't push until pushToCloud() or pullFromCloud() is called.
+   */
+  async restore(versionId: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+    return this.exclusive(async () => {
+      await this.ensureAuthenticated();
+      return this.syncEngine.restore(versionId, options);
+    });
+  }
+
+  /**
+   * Re-encrypt the cloud copy and all snapshots under `newKey`. Safe to re-run if interrupted.
+   * Configure `options.encryption` with the new key from now on.
+   */
+  async rotateEncryptionKey(oldKey: EncryptionOptions, newKey: EncryptionOptions): Promise<KeyRotationResult> {
+    return this.exclusive(async () => {
+      await this.ensureAuthenticated();
+      return this.syncEngine.rotateEncryptionKey(oldKey, newKey);
+    });
+  }
+
+  /**
+   * Sync in the background every `options.interval` ms, and with `watch` also shortly after
+   * local commits. Calling it again replaces the schedule.
+   * Runs never overlap each other or other operations, and back off after failures.
+   */
+  enableAutoSync(options: AutoSyncOptions): void {
+    const scheduler = new SyncScheduler(() => this.autoSync(), options, this.logger);
+    const watch = options.watch === true ? {} : options.watch || null;
+    const watcher = watch
+      ? new ChangeWatcher(this.dbManager.getPath(), watch, () => scheduler.runNow(), this.logger)
+      : null;
+
+    this.disableAutoSync();
+    this.scheduler = scheduler;
+    this.watcher = watcher;
+    this.syncOnShutdown = options.syncOnShutdown ?? true;
+    scheduler.start();
+    watcher?.start();
+    this.logger.info(`Auto-sync enabled every ${options.interval}ms${watcher ? ' and on local changes' : ''}`);
+  }
+
+  /**
+   * Stop syncing in the background. A run in progress finishes.
+   */
+  disableAutoSync(): void {
+    this.watcher?.stop();
+    this.watcher = null;
+    this.scheduler?.stop();
+    this.scheduler = null;
+  }
+
+  /**
+   * Hold off scheduled runs, e.g. while offline, without forgetting the schedule
+   */
+  pauseAutoSync(): void {
+    this.scheduler?.pause();
+  }
+
+  /**
+   * Continue scheduled runs; a run that fell due while paused starts right away
+   */
+  resumeAutoSync(): void {
+    this.scheduler?.resume();
+  }
+
+  getAutoSyncState(): AutoSyncState {
+    if (this.scheduler) {
+      return { ...this.scheduler.getState(), watching: this.watcher !== null };
+    }
+    return {
+      enabled: false,
+      paused: false,
+      running: false,
+      watching: false,
+      nextRunAt: null,
+      consecutiveFailures: 0,
+      lastError: null
+    };
   }
 
   /**
-   * Cleanup and shutdown
+   * Scheduled sync. Never starts an interactive sign-in from the background.
+   */
+  private async autoSync(): Promise<SyncResult> {
+    return this.exclusive(async () => {
+      if (await this.provider.needsAuthentication()) {
+        const error = new AuthenticationRequiredError('Authentication required before auto-sync can run. Call authenticate()');
+        this.emit('auth-required', { reason: error.message });
+        throw error;
+      }
+      return this.syncEngine.sync();
+    });
+  }
+
+  /**
+   * Run a sync operation once the ones before it have finished
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      try {
+        return await operation();
+      } finally {
+        // A pull or restore may have swapped the database file; that is not a local change
+        this.watcher?.rebase();
+      }
+    };
+    const result = this.operation.then(run, run);
+    this.operation = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Stop auto-sync, attempt a final sync if it was running, then close the database
    */
   async shutdown(): Promise<void> {
+    const scheduler = this.scheduler;
+    this.disableAutoSync();
+
+    if (scheduler && this.syncOnShutdown && !scheduler.getState().paused) {
+      try {
+        await this.autoSync();
+      } catch (error) {
+        this.logger.warn('Final sync before shutdown failed', error);
+      }
+    }
+
+    await this.operation;
     this.dbManager.close();
     this.logger.info('SqliteCloudBackup shutdown complete');
   }
 }
 
+// Providers for custom backends
+export { BaseProvider } from './providers/base-provider';
+export { registerProvider, ProviderRegistry } from './providers/registry';
+export { GoogleDriveProvider } from './providers/google-drive';
+export { FilesystemProvider } from './providers/filesystem';
+export { S3Provider } from './providers/s3';
+export { WebDavProvider } from './providers/webdav';
+export { Logger } from './utils/logger';
+
+// Error classes
+export * from './errors';
+
 // Re-export types
 export * from './types';
 export default SqliteCloudBackup;
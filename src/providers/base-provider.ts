@@ -1,6 +1,13 @@
-import { ProviderMetadata } from '../types';
+import { EventEmitter } from 'events';
+import { Readable, Transform, pipeline } from 'stream';
+import { MetadataWriteOptions, ProviderEvents, ProviderMetadata, TransferPhase } from '../types';
+import { AuthenticationRequiredError, ConflictError } from '../errors';
 
-export abstract class BaseProvider {
+/**
+ * Storage backend. Emits 'progress' while streaming, and 'auth-required' and
+ * 'token-refreshed' if it authenticates interactively.
+ */
+export abstract class BaseProvider extends EventEmitter<ProviderEvents> {
   /**
    * Upload database file to cloud
    */
@@ -22,12 +29,111 @@ export abstract class BaseProvider {
   abstract getMetadata(fileName: string): Promise<ProviderMetadata | null>;
 
   /**
-   * Update metadata file
+   * Update metadata file.
+   * With `options.ifMatch`, throw ConflictError instead of writing if the file's etag (as reported
+   * by getMetadata) changed. Providers without conditional writes check it right before writing,
+   * which narrows the race but doesn't close it.
    */
-  abstract updateMetadata(metadata: unknown): Promise<void>;
+  abstract updateMetadata(metadata: unknown, options?: MetadataWriteOptions): Promise<void>;
 
   /**
    * Delete file from cloud
    */
   abstract deleteFile(fileName: string): Promise<void>;
+
+  /**
+   * List files in a subfolder of the database folder.
+   * Returned names are relative to the database folder (e.g. `versions/1700000000000_abc.db`).
+   */
+  abstract listFiles(folder: string): Promise<string[]>;
+
+  /**
+   * Upload a small file only if it doesn't exist yet, and throw ConflictError if it does.
+   * The default checks right before writing, which narrows the race but doesn't close it;
+   * providers with conditional writes should override this.
+   */
+  async createFile(fileName: string, buffer: Buffer): Promise<void> {
+    if (await this.fileExists(fileName)) {
+      throw new ConflictError(`${fileName} already exists`);
+    }
+    await this.uploadFile(fileName, buffer);
+  }
+
+  /**
+   * Upload a file from a stream.
+   * The default buffers the whole stream; providers that can stream should override this.
+   */
+  async uploadStream(fileName: string, source: Readable): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of source) {
+      chunks.push(chunk);
+    }
+    const buffer = Buffer.concat(chunks);
+    await this.uploadFile(fileName, buffer);
+    this.emit('progress', { phase: 'upload', fileName, bytesDone: buffer.length, bytesTotal: buffer.length });
+  }
+
+  /**
+   * Download a file as a stream.
+   * The default downloads the whole file first; providers that can stream should override this.
+   */
+  async downloadStream(fileName: string): Promise<Readable> {
+    const buffer = await this.downloadFile(fileName);
+    this.emit('progress', { phase: 'download', fileName, bytesDone: buffer.length, bytesTotal: buffer.length });
+    return Readable.from([buffer]);
+  }
+
+  /**
+   * Copy a file inside the database folder.
+   * Providers with a server-side copy should override this to avoid a round trip.
+   */
+  async copyFile(source: string, destination: string): Promise<void> {
+    const buffer = await this.downloadFile(source);
+    await this.uploadFile(destination, buffer);
+  }
+
+  /**
+   * Check if the provider needs an interactive authentication flow.
+   * Providers without interactive auth never do.
+   */
+  async needsAuthentication(): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Run the provider's authentication flow
+   */
+  async authenticate(): Promise<void> {
+    throw new AuthenticationRequiredError(`${this.constructor.name} does not support interactive authentication`);
+  }
+
+  /**
+   * Clear any credentials the provider has stored
+   */
+  async logout(): Promise<void> {
+    // Nothing stored by default
+  }
+
+  /**
+   * Pass a transfer stream through a counter that emits 'progress' for every chunk read from it.
+   * `offset` is the number of bytes an interrupted transfer already moved.
+   */
+  protected trackProgress(
+    stream: Readable,
+    phase: TransferPhase,
+    fileName: string,
+    bytesTotal: number | null = null,
+    offset = 0
+  ): Readable {
+    let bytesDone = offset;
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        bytesDone += chunk.length;
+        this.emit('progress', { phase, fileName, bytesDone, bytesTotal });
+        callback(null, chunk);
+      }
+    });
+    // Errors on either side destroy both streams; the counter surfaces them to the reader
+    return pipeline(stream, counter, () => undefined);
+  }
 }
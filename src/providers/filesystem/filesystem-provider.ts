@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { BaseProvider } from '../base-provider';
+import { FilesystemCredentials, MetadataWriteOptions, ProviderMetadata, SyncMetadata } from '../../types';
+import { ChecksumUtil } from '../../utils/checksum';
+import { FileOperations } from '../../utils/file-operations';
+import { Logger } from '../../utils/logger';
+import { CloudNotFoundError, ConfigurationError, ConflictError } from '../../errors';
+
+// fs.link() failures of filesystems without hard links
+const NO_LINK_CODES = new Set(['EPERM', 'ENOTSUP', 'EOPNOTSUPP', 'ENOSYS']);
+
+export class FilesystemProvider extends BaseProvider {
+  private folderPath: string;
+  private logger: Logger;
+
+  constructor(credentials: FilesystemCredentials, dbName: string, logger: Logger) {
+    super();
+    this.logger = logger;
+
+    if (!credentials.basePath) {
+      throw new ConfigurationError('Filesystem provider requires a basePath');
+    }
+
+    this.folderPath = path.join(path.resolve(credentials.basePath), '.sqlite-cloud-backup', dbName);
+  }
+
+  /**
+   * Initialize folder structure
+   */
+  private ensureDbFolder(): string {
+    FileOperations.ensureDir(this.folderPath);
+    return this.folderPath;
+  }
+
+  async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
+    const filePath = path.join(this.ensureDbFolder(), fileName);
+    FileOperations.ensureDir(path.dirname(filePath));
+
+    // Write atomically so a half-written file never replaces a good backup
+    const tempPath = FileOperations.tempPath(filePath);
+    await fs.promises.writeFile(tempPath, buffer);
+    await fs.promises.rename(tempPath, filePath);
+
+    this.logger.info(`Wrote file to filesystem: ${fileName}`);
+  }
+
+  /**
+   * Link a complete temp file into place: unlike a rename, a link fails if the target exists.
+   * Disks without hard links (FAT32, exFAT, many SMB mounts) create the file exclusively instead,
+   * so for a moment readers may see it partly written.
+   */
+  async createFile(fileName: string, buffer: Buffer): Promise<void> {
+    const filePath = path.join(this.ensureDbFolder(), fileName);
+    FileOperations.ensureDir(path.dirname(filePath));
+
+    const tempPath = FileOperations.tempPath(filePath);
+    try {
+      await fs.promises.writeFile(tempPath, buffer);
+      try {
+        await fs.promises.link(tempPath, filePath);
+      } catch (error) {
+        if (!NO_LINK_CODES.has((error as NodeJS.ErrnoException).code!)) throw error;
+        await fs.promises.writeFile(filePath, buffer, { flag: 'wx' });
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new ConflictError(`${fileName} already exists`, { cause: error });
+      }
+      throw error;
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+
+    this.logger.info(`Created file on filesystem: ${fileName}`);
+  }
+
+  async uploadStream(fileName: string, source: Readable): Promise<void> {
+    const filePath = path.join(this.ensureDbFolder(), fileName);
+    FileOperations.ensureDir(path.dirname(filePath));
+
+    const tempPath = FileOperations.tempPath(filePath);
+    try {
+      await pipeline(this.trackProgress(source, 'upload', fileName), fs.createWriteStream(tempPath));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    this.logger.info(`Wrote file to filesystem: ${fileName}`);
+  }
+
+  async downloadStream(fileName: string): Promise<Readable> {
+    const filePath = path.join(this.folderPath, fileName);
+    if (!fs.existsSync(filePath)) {
+      throw new CloudNotFoundError(`File not found: ${fileName}`);
+    }
+
+    this.logger.info(`Reading file from filesystem: ${fileName}`);
+    const { size } = await fs.promises.stat(filePath);
+    return this.trackProgress(fs.createReadStream(filePath), 'download', fileName, size);
+  }
+
+  async downloadFile(fileName: string): Promise<Buffer> {
+    const filePath = path.join(this.folderPath, fileName);
+    if (!fs.existsSync(filePath)) {
+      throw new CloudNotFoundError(`File not found: ${fileName}`);
+    }
+
+    const buffer = await fs.promises.readFile(filePath);
+    this.logger.info(`Read file from filesystem: ${fileName}`);
+    return buffer;
+  }
+
+  async fileExists(fileName: string): Promise<boolean> {
+    return fs.existsSync(path.join(this.folderPath, fileName));
+  }
+
+  async getMetadata(fileName: string): Promise<ProviderMetadata | null> {
+    const metadataPath = path.join(this.folderPath, 'metadata.json');
+    if (!fs.existsSync(metadataPath)) return null;
+
+    const content = await fs.promises.readFile(metadataPath);
+    const metadata: SyncMetadata = JSON.parse(content.toString('utf-8'));
+
+    const filePath = path.join(this.folderPath, fileName);
+    const size = fs.existsSync(filePath) ? (await fs.promises.stat(filePath)).size : 0;
+
+    return {
+      checksum: metadata.checksum,
+      modifiedAt: metadata.lastSyncTimestamp,
+      size,
+      encryption: metadata.encryption,
+      compression: metadata.compression,
+      manifest: metadata.manifest,
+      file: metadata.file,
+      generation: metadata.version,
+      deviceId: metadata.deviceId,
+      etag: ChecksumUtil.calculateBufferChecksum(content)
+    };
+  }
+
+  async updateMetadata(metadata: SyncMetadata, options: MetadataWriteOptions = {}): Promise<void> {
+    // A plain folder has no compare-and-swap; compare right before the atomic rename
+    if (options.ifMatch !== undefined) {
+      const metadataPath = path.join(this.folderPath, 'metadata.json');
+      const etag = fs.existsSync(metadataPath)
+        ? ChecksumUtil.calculateBufferChecksum(await fs.promises.readFile(metadataPath))
+        : null;
+      if (etag !== options.ifMatch) {
+        throw new ConflictError('Cloud metadata changed since it was read');
+      }
+    }
+
+    const buffer = Buffer.from(JSON.stringify(metadata, null, 2));
+    await this.uploadFile('metadata.json', buffer);
+  }
+
+  async deleteFile(fileName: string): Promise<void> {
+    const filePath = path.join(this.folderPath, fileName);
+    if (fs.existsSync(filePath)) {
+      await fs.promises.unlink(filePath);
+      this.logger.info(`Deleted file from filesystem: ${fileName}`);
+    }
+  }
+
+  async listFiles(folder: string): Promise<string[]> {
+    const folderPath = path.join(this.folderPath, folder);
+    if (!fs.existsSync(folderPath)) return [];
+
+    const entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile() && !entry.name.endsWith('.tmp'))
+      .map(entry => `${folder}/${entry.name}`);
+  }
+
+  async copyFile(source: string, destination: string): Promise<void> {
+    const sourcePath = path.join(this.folderPath, source);
+    if (!fs.existsSync(sourcePath)) {
+      throw new CloudNotFoundError(`File not found: ${source}`);
+    }
+
+    const destinationPath = path.join(this.ensureDbFolder(), destination);
+    FileOperations.ensureDir(path.dirname(destinationPath));
+    await FileOperations.copyFile(sourcePath, destinationPath);
+
+    this.logger.info(`Copied file on filesystem: ${source} -> ${destination}`);
+  }
+}
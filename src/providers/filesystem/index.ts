@@ -0,0 +1 @@
+export { FilesystemProvider } from './filesystem-provider';
@@ -1,40 +1,137 @@
 import { google, drive_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import crypto from 'crypto';
+import fs from 'fs';
 import { BaseProvider } from '../base-provider';
-import { GoogleDriveCredentials, ProviderMetadata, SyncMetadata } from '../../types';
+import { GoogleDriveCredentials, MetadataWriteOptions, ProviderMetadata, SyncMetadata } from '../../types';
 import { Logger } from '../../utils/logger';
+import { CloudNotFoundError, ConfigurationError, ConflictError, SyncError } from '../../errors';
+import { toProviderError } from '../../utils/retry';
+import { OAuthFlow } from './oauth-flow';
+import { TokenStorage } from './token-storage';
+import { TransferStorage, UploadSession } from './transfer-storage';
 import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+const DEFAULT_ROOT_URL = 'https://www.googleapis.com/';
+// Drive requires chunks to be a multiple of 256 KiB
+const CHUNK_UNIT = 256 * 1024;
+const DEFAULT_CHUNK_SIZE = 32 * CHUNK_UNIT;
+// Largest file Drive accepts in a single multipart request
+const MULTIPART_LIMIT = 5 * 1024 * 1024;
+
+interface DriveResponse {
+  status: number;
+  headers: Record<string, string | undefined>;
+  data: unknown;
+}
 
 export class GoogleDriveProvider extends BaseProvider {
   private drive: drive_v3.Drive;
   private oauth2Client: OAuth2Client;
   private rootFolderId: string | null = null;
+  private dbFolderId: string | null = null;
+  private subfolderIds = new Map<string, string>();
   private logger: Logger;
   private dbName: string;
+  private credentials: GoogleDriveCredentials;
+  private oauthFlow: OAuthFlow;
+  private tokenStorage: TokenStorage;
+  private transferStorage: TransferStorage;
+  private rootUrl: string;
+  private chunkSize: number;
 
-  constructor(credentials: GoogleDriveCredentials, dbName: string, logger: Logger) {
+  constructor(credentials: GoogleDriveCredentials, dbName: string, logger: Logger, dbPath: string) {
     super();
     this.logger = logger;
     this.dbName = dbName;
+    this.credentials = { ...credentials };
 
-    this.oauth2Client = new google.auth.OAuth2(
-      credentials.clientId,
-      credentials.clientSecret,
-      credentials.redirectUri
-    );
+    this.chunkSize = credentials.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (this.chunkSize <= 0 || this.chunkSize % CHUNK_UNIT !== 0) {
+      throw new ConfigurationError(`Google Drive chunkSize must be a positive multiple of ${CHUNK_UNIT} bytes`);
+    }
+    this.rootUrl = (credentials.rootUrl ?? DEFAULT_ROOT_URL).replace(/\/+$/, '');
+
+    // Tokens obtained through the OAuth flow are stored next to the database, as are interrupted transfers
+    this.oauthFlow = new OAuthFlow(logger);
+    this.oauthFlow.on('auth-required', event => this.emit('auth-required', event));
+    this.tokenStorage = new TokenStorage(dbPath, logger.getLevel());
+    this.transferStorage = new TransferStorage(dbPath, dbName, logger.getLevel());
+
+    this.oauth2Client = new google.auth.OAuth2({
+      clientId: credentials.clientId,
+      clientSecret: credentials.clientSecret,
+      redirectUri: credentials.redirectUri,
+      endpoints: credentials.tokenUrl ? { oauth2TokenUrl: credentials.tokenUrl } : undefined
+    });
 
     this.oauth2Client.setCredentials({
       refresh_token: credentials.refreshToken
     });
+    this.oauth2Client.on('tokens', tokens => {
+      this.emit('token-refreshed', { expiresAt: tokens.expiry_date ?? null });
+    });
+
+    this.drive = google.drive({ version: 'v3', auth: this.oauth2Client, rootUrl: `${this.rootUrl}/` });
+  }
+
+  /**
+   * Check if a refresh token is available, loading stored tokens if needed
+   */
+  async needsAuthentication(): Promise<boolean> {
+    // If refreshToken provided in credentials, no need for OAuth
+    if (this.credentials.refreshToken) {
+      return false;
+    }
+
+    const storedTokens = await this.tokenStorage.getTokens();
+    if (storedTokens) {
+      this.logger.debug('Using stored refresh token');
+      this.setRefreshToken(storedTokens.refreshToken);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Trigger OAuth authentication flow
+   */
+  async authenticate(): Promise<void> {
+    const tokens = await this.oauthFlow.authenticate(
+      this.credentials.clientId,
+      this.credentials.clientSecret
+    );
+
+    // Save tokens to storage
+    await this.tokenStorage.saveTokens({
+      refreshToken: tokens.refresh_token,
+      accessToken: tokens.access_token,
+      expiryDate: tokens.expiry_date
+    });
 
-    this.drive = google.drive({ version: 'v3', auth: this.oauth2Client });
+    this.setRefreshToken(tokens.refresh_token);
+  }
+
+  /**
+   * Clear stored tokens
+   */
+  async logout(): Promise<void> {
+    await this.tokenStorage.clearTokens();
+    this.setRefreshToken(undefined);
+  }
+
+  private setRefreshToken(refreshToken: string | undefined): void {
+    this.credentials.refreshToken = refreshToken;
+    this.oauth2Client.setCredentials({ refresh_token: refreshToken });
   }
 
   /**
    * Initialize folder structure
    */
   private async ensureRootFolder(): Promise<string> {
-    if (this.rootFolderId) return this.rootFolderId;
+    if (this.dbFolderId) return this.dbFolderId;
 
     // Check if .sqlite-cloud-backup folder exists
     const response = await this.drive.files.list({
@@ -58,9 +155,59 @@ export class GoogleDriveProvider extends BaseProvider {
     }
 
     // Ensure db-specific subfolder
-    const dbFolderId = await this.ensureDbFolder();
+    this.dbFolderId = await this.ensureDbFolder();
+
+    return this.dbFolderId;
+  }
 
-    return dbFolderId;
+  /**
+   * Resolve a subfolder of the db folder (e.g. `versions`), optionally creating it
+   */
+  private async resolveFolder(folderPath: string, create: boolean): Promise<string | null> {
+    let parentId = await this.ensureRootFolder();
+    if (!folderPath) return parentId;
+
+    const segments = folderPath.split('/');
+    for (let i = 0; i < segments.length; i++) {
+      const key = segments.slice(0, i + 1).join('/');
+      const cached = this.subfolderIds.get(key);
+      if (cached) {
+        parentId = cached;
+        continue;
+      }
+
+      const response = await this.drive.files.list({
+        q: `name='${segments[i]}' and mimeType='application/vnd.google-apps.folder' and '${parentId}' in parents and trashed=false`,
+        fields: 'files(id, name)'
+      });
+
+      let folderId = response.data.files?.[0]?.id ?? null;
+      if (!folderId) {
+        if (!create) return null;
+
+        const folder = await this.drive.files.create({
+          requestBody: {
+            name: segments[i],
+            mimeType: 'application/vnd.google-apps.folder',
+            parents: [parentId]
+          },
+          fields: 'id'
+        });
+        folderId = folder.data.id!;
+      }
+
+      this.subfolderIds.set(key, folderId);
+      parentId = folderId;
+    }
+
+    return parentId;
+  }
+
+  private splitPath(fileName: string): { folder: string; name: string } {
+    const index = fileName.lastIndexOf('/');
+    return index === -1
+      ? { folder: '', name: fileName }
+      : { folder: fileName.substring(0, index), name: fileName.substring(index + 1) };
   }
 
   private async ensureDbFolder(): Promise<string> {
@@ -85,43 +232,78 @@ export class GoogleDriveProvider extends BaseProvider {
     return folder.data.id!;
   }
 
+  /**
+   * Upload a file that fits in one chunk with a single multipart request; larger files go through
+   * a resumable session like uploadStream()
+   */
   async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
-    const folderId = await this.ensureRootFolder();
+    if (buffer.length > Math.min(this.chunkSize, MULTIPART_LIMIT)) {
+      await this.uploadStream(fileName, Readable.from(buffer));
+      return;
+    }
 
-    // Check if file exists
-    const existing = await this.findFile(fileName);
+    await this.uploadMultipart(fileName, buffer, await this.findFile(fileName));
+    this.emit('progress', { phase: 'upload', fileName, bytesDone: buffer.length, bytesTotal: buffer.length });
+    this.logger.info(`Uploaded file to Google Drive: ${fileName}`);
+  }
 
-    const media = {
-      mimeType: 'application/x-sqlite3',
-      body: Readable.from(buffer)
-    };
+  /**
+   * Drive has no conditional create and allows several files with one name. Create the file unless
+   * it exists, then keep it only if it is the oldest of that name: of two writers that both passed
+   * the check, the first keeps its file and the other gets ConflictError. findFile() returns the
+   * oldest as well, so readers agree on it while both exist.
+   */
+  async createFile(fileName: string, buffer: Buffer): Promise<void> {
+    if (await this.findFile(fileName)) {
+      throw new ConflictError(`${fileName} already exists`);
+    }
 
-    if (existing) {
-      // Update existing file
-      await this.drive.files.update({
-        fileId: existing.id!,
-        media,
-        fields: 'id'
-      });
-      this.logger.info(`Updated file in Google Drive: ${fileName}`);
-    } else {
-      // Create new file
-      await this.drive.files.create({
-        requestBody: {
-          name: fileName,
-          parents: [folderId]
-        },
-        media,
-        fields: 'id'
-      });
+    const fileId = await this.uploadMultipart(fileName, buffer, null);
+    if ((await this.findFile(fileName))?.id !== fileId) {
+      await this.drive.files.delete({ fileId });
+      throw new ConflictError(`${fileName} already exists`);
+    }
+    this.logger.info(`Uploaded file to Google Drive: ${fileName}`);
+  }
+
+  /**
+   * Upload with the Drive resumable upload protocol. The stream is staged in a local file first;
+   * if an earlier upload of the same bytes was interrupted, it continues where that one stopped.
+   */
+  async uploadStream(fileName: string, source: Readable): Promise<void> {
+    const stagingPath = await this.transferStorage.getTempPath(fileName, 'upload');
+
+    try {
+      const { checksum, size } = await this.stageUpload(source, stagingPath);
+
+      let session = await this.transferStorage.getUpload(fileName);
+      let offset: number | null = null;
+      if (session && session.checksum === checksum && session.size === size) {
+        offset = await this.queryUploadOffset(session);
+        if (offset !== null) {
+          this.logger.info(`Resuming upload of ${fileName} at byte ${offset} of ${size}`);
+        }
+      }
+
+      if (!session || offset === null) {
+        session = { uri: await this.startUpload(fileName, size), checksum, size, startedAt: Date.now() };
+        await this.transferStorage.saveUpload(fileName, session);
+        offset = 0;
+      }
+
+      await this.sendChunks(fileName, session, stagingPath, offset);
+      await this.transferStorage.clearUpload(fileName);
       this.logger.info(`Uploaded file to Google Drive: ${fileName}`);
+
+    } finally {
+      await fs.promises.rm(stagingPath, { force: true });
     }
   }
 
   async downloadFile(fileName: string): Promise<Buffer> {
     const file = await this.findFile(fileName);
     if (!file) {
-      throw new Error(`File not found: ${fileName}`);
+      throw new CloudNotFoundError(`File not found: ${fileName}`);
     }
 
     const response = await this.drive.files.get(
@@ -133,6 +315,43 @@ export class GoogleDriveProvider extends BaseProvider {
     return Buffer.from(response.data as ArrayBuffer);
   }
 
+  /**
+   * Download into a partial file with Range requests, continuing a download an earlier call left behind.
+   * The returned stream reads the completed file and removes it once closed.
+   */
+  async downloadStream(fileName: string): Promise<Readable> {
+    const file = await this.findFile(fileName);
+    if (!file) {
+      throw new CloudNotFoundError(`File not found: ${fileName}`);
+    }
+
+    const partialPath = await this.transferStorage.getTempPath(fileName, 'download');
+    const revision = file.md5Checksum ?? file.modifiedTime ?? '';
+    const previous = await this.transferStorage.getDownload(fileName);
+
+    let offset = 0;
+    if (previous && previous.fileId === file.id && previous.revision === revision && fs.existsSync(partialPath)) {
+      offset = (await fs.promises.stat(partialPath)).size;
+      this.logger.info(`Resuming download of ${fileName} at byte ${offset}`);
+    } else {
+      await fs.promises.rm(partialPath, { force: true });
+      await this.transferStorage.saveDownload(fileName, { fileId: file.id!, revision });
+    }
+
+    const size = file.size !== undefined && file.size !== null ? Number(file.size) : null;
+    if (size === null || offset < size) {
+      await this.downloadRange(file.id!, fileName, partialPath, offset, size);
+    }
+    await this.transferStorage.clearDownload(fileName);
+
+    this.logger.info(`Downloaded file from Google Drive: ${fileName}`);
+    const stream = fs.createReadStream(partialPath);
+    stream.on('close', () => {
+      fs.promises.rm(partialPath, { force: true }).catch(() => undefined);
+    });
+    return stream;
+  }
+
   async fileExists(fileName: string): Promise<boolean> {
     const file = await this.findFile(fileName);
     return file !== null;
@@ -142,17 +361,41 @@ export class GoogleDriveProvider extends BaseProvider {
     const metadataFile = await this.findFile('metadata.json');
     if (!metadataFile) return null;
 
-    const buffer = await this.downloadFile('metadata.json');
-    const metadata: SyncMetadata = JSON.parse(buffer.toString('utf-8'));
+    // Download the revision that was found, so the etag matches the content
+    const response = await this.drive.files.get(
+      { fileId: metadataFile.id!, alt: 'media' },
+      { responseType: 'arraybuffer' }
+    );
+    const metadata: SyncMetadata = JSON.parse(Buffer.from(response.data as ArrayBuffer).toString('utf-8'));
 
     return {
       checksum: metadata.checksum,
       modifiedAt: metadata.lastSyncTimestamp,
-      size: 0 // Not tracked in metadata
+      size: 0, // Not tracked in metadata
+      encryption: metadata.encryption,
+      compression: metadata.compression,
+      manifest: metadata.manifest,
+      file: metadata.file,
+      generation: metadata.version,
+      deviceId: metadata.deviceId,
+      etag: GoogleDriveProvider.revisionOf(metadataFile)
     };
   }
 
-  async updateMetadata(metadata: SyncMetadata): Promise<void> {
+  /**
+   * Drive v3 has no preconditions on updates, so `ifMatch` is only a check of the head revision
+   * right before the write, not part of it. Two writers that both pass the check in the same
+   * moment both write, and the last one wins; generation conflicts are not enforced on Drive.
+   * Keep the cloud lock on to serialize pushes.
+   */
+  async updateMetadata(metadata: SyncMetadata, options: MetadataWriteOptions = {}): Promise<void> {
+    if (options.ifMatch !== undefined) {
+      const current = await this.findFile('metadata.json');
+      if ((current ? GoogleDriveProvider.revisionOf(current) : null) !== options.ifMatch) {
+        throw new ConflictError('Cloud metadata changed since it was read');
+      }
+    }
+
     const buffer = Buffer.from(JSON.stringify(metadata, null, 2));
     await this.uploadFile('metadata.json', buffer);
   }
@@ -165,14 +408,262 @@ export class GoogleDriveProvider extends BaseProvider {
     }
   }
 
+  async listFiles(folder: string): Promise<string[]> {
+    const folderId = await this.resolveFolder(folder, false);
+    if (!folderId) return [];
+
+    const files: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.drive.files.list({
+        q: `'${folderId}' in parents and mimeType!='application/vnd.google-apps.folder' and trashed=false`,
+        fields: 'nextPageToken, files(id, name)',
+        pageSize: 1000,
+        pageToken
+      });
+
+      for (const file of response.data.files ?? []) {
+        files.push(`${folder}/${file.name}`);
+      }
+      pageToken = response.data.nextPageToken ?? undefined;
+    } while (pageToken);
+
+    return files;
+  }
+
+  async copyFile(source: string, destination: string): Promise<void> {
+    const file = await this.findFile(source);
+    if (!file) {
+      throw new CloudNotFoundError(`File not found: ${source}`);
+    }
+
+    // Drive allows duplicate names, so replace any existing destination
+    await this.deleteFile(destination);
+
+    const { folder, name } = this.splitPath(destination);
+    const folderId = (await this.resolveFolder(folder, true))!;
+
+    await this.drive.files.copy({
+      fileId: file.id!,
+      requestBody: { name, parents: [folderId] },
+      fields: 'id'
+    });
+    this.logger.info(`Copied file in Google Drive: ${source} -> ${destination}`);
+  }
+
+  /**
+   * Identifies a file's content; binary files have a head revision, the checksum is a fallback
+   */
+  private static revisionOf(file: drive_v3.Schema$File): string | undefined {
+    return file.headRevisionId ?? file.md5Checksum ?? undefined;
+  }
+
   private async findFile(fileName: string): Promise<drive_v3.Schema$File | null> {
-    const folderId = await this.ensureRootFolder();
+    const { folder, name } = this.splitPath(fileName);
+    const folderId = await this.resolveFolder(folder, false);
+    if (!folderId) return null;
 
     const response = await this.drive.files.list({
-      q: `name='${fileName}' and '${folderId}' in parents and trashed=false`,
-      fields: 'files(id, name, modifiedTime)'
+      q: `name='${name}' and '${folderId}' in parents and trashed=false`,
+      fields: 'files(id, name, modifiedTime, size, md5Checksum, headRevisionId)',
+      // Drive allows duplicate names; always pick the oldest
+      orderBy: 'createdTime'
     });
 
     return response.data.files?.[0] || null;
   }
+
+  /**
+   * Copy the stream to a local file, hashing it on the way
+   */
+  private async stageUpload(source: Readable, stagingPath: string): Promise<{ checksum: string; size: number }> {
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+
+    await pipeline(
+      source,
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const chunk of chunks) {
+          hash.update(chunk);
+          size += chunk.length;
+          yield chunk;
+        }
+      },
+      fs.createWriteStream(stagingPath)
+    );
+
+    return { checksum: hash.digest('hex'), size };
+  }
+
+  /**
+   * Send metadata and content in one request, updating `existing` in place if given. Returns the file id.
+   */
+  private async uploadMultipart(fileName: string, buffer: Buffer, existing: drive_v3.Schema$File | null): Promise<string> {
+    const { folder, name } = this.splitPath(fileName);
+    const metadata = existing ? {} : { name, parents: [(await this.resolveFolder(folder, true))!] };
+    const boundary = `sqlite-cloud-backup-${crypto.randomUUID()}`;
+    const data = Buffer.concat([
+      Buffer.from(
+        `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(metadata)}\r\n` +
+        `--${boundary}\r\nContent-Type: application/x-sqlite3\r\n\r\n`
+      ),
+      buffer,
+      Buffer.from(`\r\n--${boundary}--`)
+    ]);
+    const headers = { 'Content-Type': `multipart/related; boundary=${boundary}` };
+
+    const response = existing
+      ? await this.request('PATCH', `${this.rootUrl}/upload/drive/v3/files/${existing.id}?uploadType=multipart`, { headers, data })
+      : await this.request('POST', `${this.rootUrl}/upload/drive/v3/files?uploadType=multipart`, { headers, data });
+
+    if (response.status !== 200) {
+      throw driveError(`Google Drive upload of ${fileName} failed`, response);
+    }
+    return (response.data as drive_v3.Schema$File).id!;
+  }
+
+  /**
+   * Open a resumable upload session, updating the file in place if it exists
+   */
+  private async startUpload(fileName: string, size: number): Promise<string> {
+    const { folder, name } = this.splitPath(fileName);
+    const existing = await this.findFile(fileName);
+
+    const response = existing
+      ? await this.request('PATCH', `${this.rootUrl}/upload/drive/v3/files/${existing.id}?uploadType=resumable`, {
+        headers: { 'X-Upload-Content-Type': 'application/x-sqlite3', 'X-Upload-Content-Length': String(size) },
+        data: {}
+      })
+      : await this.request('POST', `${this.rootUrl}/upload/drive/v3/files?uploadType=resumable`, {
+        headers: { 'X-Upload-Content-Type': 'application/x-sqlite3', 'X-Upload-Content-Length': String(size) },
+        data: { name, parents: [(await this.resolveFolder(folder, true))!] }
+      });
+
+    const location = response.headers.location;
+    if (response.status !== 200 || !location) {
+      throw driveError(`Google Drive upload of ${fileName} could not be started`, response);
+    }
+    return location;
+  }
+
+  /**
+   * Ask Drive how much of an interrupted upload it has. Returns null if the session expired.
+   */
+  private async queryUploadOffset(session: UploadSession): Promise<number | null> {
+    const response = await this.request('PUT', session.uri, {
+      headers: { 'Content-Range': `bytes */${session.size}` }
+    });
+
+    if (response.status === 200 || response.status === 201) return session.size;
+    if (response.status === 308) return parseUploadedRange(response);
+    if (response.status === 404 || response.status === 410) return null;
+    throw driveError('Google Drive upload status check failed', response);
+  }
+
+  /**
+   * Send the staged file from `offset` in chunks, following the offsets Drive acknowledges
+   */
+  private async sendChunks(fileName: string, session: UploadSession, stagingPath: string, offset: number): Promise<void> {
+    const { size } = session;
+
+    while (offset < size || size === 0) {
+      const end = Math.min(offset + this.chunkSize, size);
+      const response = await this.request('PUT', session.uri, {
+        headers: {
+          'Content-Length': String(end - offset),
+          'Content-Range': size === 0 ? 'bytes */0' : `bytes ${offset}-${end - 1}/${size}`
+        },
+        data: size === 0 ? '' : fs.createReadStream(stagingPath, { start: offset, end: end - 1 })
+      });
+
+      if (response.status === 200 || response.status === 201) {
+        this.emit('progress', { phase: 'upload', fileName, bytesDone: size, bytesTotal: size });
+        return;
+      }
+      if (response.status !== 308) {
+        throw driveError('Google Drive upload failed', response);
+      }
+      offset = parseUploadedRange(response);
+      this.emit('progress', { phase: 'upload', fileName, bytesDone: offset, bytesTotal: size });
+    }
+  }
+
+  /**
+   * Append the file from `offset` to the partial download
+   */
+  private async downloadRange(
+    fileId: string,
+    fileName: string,
+    partialPath: string,
+    offset: number,
+    size: number | null
+  ): Promise<void> {
+    const response = await this.request('GET', `${this.rootUrl}/drive/v3/files/${fileId}?alt=media`, {
+      headers: offset > 0 ? { Range: `bytes=${offset}-` } : {},
+      responseType: 'stream'
+    });
+
+    // Nothing left to fetch
+    if (response.status === 416) {
+      (response.data as Readable).destroy();
+      return;
+    }
+    if (response.status !== 200 && response.status !== 206) {
+      const data = await readErrorBody(response.data as Readable);
+      throw driveError(`Google Drive download of ${fileName} failed`, { ...response, data });
+    }
+
+    // A server that ignores the Range header sends the whole file again
+    const append = response.status === 206;
+    await pipeline(
+      this.trackProgress(response.data as Readable, 'download', fileName, size, append ? offset : 0),
+      fs.createWriteStream(partialPath, { flags: append ? 'a' : 'w' })
+    );
+  }
+
+  private async request(
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH',
+    url: string,
+    options: { headers?: Record<string, string>; data?: unknown; responseType?: 'json' | 'stream' } = {}
+  ): Promise<DriveResponse> {
+    return this.oauth2Client.request<unknown>({
+      method,
+      url,
+      headers: options.headers,
+      data: options.data,
+      responseType: options.responseType,
+      validateStatus: () => true
+    });
+  }
+}
+
+/**
+ * Typed error for a failed response, classified like errors from the googleapis client:
+ * Drive reports rate limits and full storage as 403, with the reason in the body
+ */
+function driveError(message: string, response: DriveResponse): SyncError {
+  return toProviderError(Object.assign(new Error(`${message}: ${response.status}`), { response }));
+}
+
+/**
+ * JSON body of a failed streamed response, or undefined if it has none
+ */
+async function readErrorBody(stream: Readable): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  try {
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Next byte to send, from the Range header of a 308 response (no header means nothing was stored)
+ */
+function parseUploadedRange(response: DriveResponse): number {
+  const range = response.headers.range;
+  const match = range?.match(/bytes=0-(\d+)/);
+  return match ? Number(match[1]) + 1 : 0;
 }
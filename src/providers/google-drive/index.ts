@@ -1,3 +1,4 @@
 export { GoogleDriveProvider } from './google-drive-provider';
 export { OAuthFlow, OAuthTokens } from './oauth-flow';
 export { TokenStorage, StoredTokens } from './token-storage';
+export { TransferStorage, UploadSession, DownloadSession } from './transfer-storage';
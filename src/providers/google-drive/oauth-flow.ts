@@ -1,6 +1,9 @@
 import http from 'http';
+import { EventEmitter } from 'events';
 import { URL } from 'url';
 import { Logger } from '../../utils/logger';
+import { AuthenticationRequiredError } from '../../errors';
+import { ProviderEvents } from '../../types';
 import open from 'open';
 
 export interface OAuthTokens {
@@ -9,13 +12,17 @@ export interface OAuthTokens {
   expiry_date?: number;
 }
 
-export class OAuthFlow {
+/**
+ * Browser-based OAuth flow. Emits 'auth-required' with the sign-in URL once it waits for the user.
+ */
+export class OAuthFlow extends EventEmitter<Pick<ProviderEvents, 'auth-required'>> {
   private logger: Logger;
   private server: http.Server | null = null;
   private readonly redirectUri = 'http://localhost:3000/oauth/callback';
   private readonly scopes = ['https://www.googleapis.com/auth/drive.file'];
 
   constructor(logger: Logger) {
+    super();
     this.logger = logger;
   }
 
@@ -51,7 +58,7 @@ export class OAuthFlow {
             res.writeHead(400, { 'Content-Type': 'text/html' });
             res.end('<h1>Authentication Failed</h1><p>You can close this window.</p>');
             this.stopServer();
-            reject(new Error(`OAuth error: ${error}`));
+            reject(new AuthenticationRequiredError(`OAuth error: ${error}`));
             return;
           }
 
@@ -66,7 +73,7 @@ export class OAuthFlow {
           res.writeHead(400, { 'Content-Type': 'text/html' });
           res.end('<h1>Invalid Request</h1><p>No authorization code received.</p>');
           this.stopServer();
-          reject(new Error('No authorization code received'));
+          reject(new AuthenticationRequiredError('No authorization code received'));
         } else {
           res.writeHead(404);
           res.end();
@@ -79,6 +86,8 @@ export class OAuthFlow {
         // Build OAuth URL
         const authUrl = this.buildAuthUrl(clientId);
 
+        this.emit('auth-required', { reason: 'Sign in to Google Drive to continue', authUrl });
+
         // Open browser
         this.logger.info('Opening browser for authentication...');
         open(authUrl).catch(err => {
@@ -90,7 +99,7 @@ export class OAuthFlow {
       // Timeout after 5 minutes
       setTimeout(() => {
         this.stopServer();
-        reject(new Error('OAuth flow timed out after 5 minutes'));
+        reject(new AuthenticationRequiredError('OAuth flow timed out after 5 minutes'));
       }, 5 * 60 * 1000);
     });
   }
@@ -137,7 +146,7 @@ export class OAuthFlow {
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Failed to exchange code for tokens: ${error}`);
+      throw new AuthenticationRequiredError(`Failed to exchange code for tokens: ${error}`);
     }
 
     const data = await response.json() as {
@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { Logger } from '../../utils/logger.js';
+import { AuthenticationRequiredError } from '../../errors';
 
 export interface StoredTokens {
   refreshToken: string;
@@ -60,7 +61,7 @@ export class TokenStorage {
       this.logger.debug('Saved tokens to storage');
     } catch (error) {
       this.logger.error('Failed to save tokens', error as Error);
-      throw new Error('Failed to save authentication tokens');
+      throw new AuthenticationRequiredError('Failed to save authentication tokens', { cause: error });
     }
   }
 
@@ -0,0 +1,87 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Logger } from '../../utils/logger.js';
+
+export interface UploadSession {
+  uri: string; // Resumable session URI returned by Drive
+  checksum: string; // SHA-256 of the bytes being uploaded
+  size: number;
+  startedAt: number;
+}
+
+export interface DownloadSession {
+  fileId: string;
+  revision: string; // md5Checksum (or modifiedTime) of the file the partial download belongs to
+}
+
+interface TransferState {
+  uploads: Record<string, UploadSession>;
+  downloads: Record<string, DownloadSession>;
+}
+
+/**
+ * Keeps resumable upload sessions and partial downloads next to the local sync metadata,
+ * so an interrupted transfer can continue in a later run
+ */
+export class TransferStorage {
+  private logger: Logger;
+  private stateDir: string;
+  private stateFile: string;
+
+  constructor(dbPath: string, dbName: string, logLevel: 'debug' | 'info' | 'warn' | 'error' = 'info') {
+    this.logger = new Logger(logLevel);
+    this.stateDir = path.join(path.dirname(dbPath), '.sqlite-cloud-backup', dbName);
+    this.stateFile = path.join(this.stateDir, 'google-drive-transfers.json');
+  }
+
+  /**
+   * Local path for the staged upload or partial download of a cloud file
+   */
+  async getTempPath(fileName: string, suffix: 'upload' | 'download'): Promise<string> {
+    await fs.mkdir(this.stateDir, { recursive: true });
+    return path.join(this.stateDir, `google-drive-${fileName.replace(/[^\w.-]/g, '_')}.${suffix}`);
+  }
+
+  async getUpload(fileName: string): Promise<UploadSession | null> {
+    return (await this.read()).uploads[fileName] ?? null;
+  }
+
+  async saveUpload(fileName: string, session: UploadSession): Promise<void> {
+    await this.update(state => { state.uploads[fileName] = session; });
+  }
+
+  async clearUpload(fileName: string): Promise<void> {
+    await this.update(state => { delete state.uploads[fileName]; });
+  }
+
+  async getDownload(fileName: string): Promise<DownloadSession | null> {
+    return (await this.read()).downloads[fileName] ?? null;
+  }
+
+  async saveDownload(fileName: string, session: DownloadSession): Promise<void> {
+    await this.update(state => { state.downloads[fileName] = session; });
+  }
+
+  async clearDownload(fileName: string): Promise<void> {
+    await this.update(state => { delete state.downloads[fileName]; });
+  }
+
+  private async read(): Promise<TransferState> {
+    try {
+      return JSON.parse(await fs.readFile(this.stateFile, 'utf-8')) as TransferState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Failed to read transfer state, starting over', error);
+      }
+      return { uploads: {}, downloads: {} };
+    }
+  }
+
+  private async update(change: (state: TransferState) => void): Promise<void> {
+    const state = await this.read();
+    change(state);
+
+    await fs.mkdir(this.stateDir, { recursive: true });
+    await fs.writeFile(this.stateFile, JSON.stringify(state, null, 2), 'utf-8');
+  }
+}
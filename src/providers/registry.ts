@@ -0,0 +1,97 @@
+import { BaseProvider } from './base-provider';
+import { GoogleDriveProvider } from './google-drive';
+import { FilesystemProvider } from './filesystem';
+import { S3Provider } from './s3';
+import { WebDavProvider } from './webdav';
+import {
+  ProviderContext,
+  ProviderFactory,
+  GoogleDriveCredentials,
+  FilesystemCredentials,
+  S3Credentials,
+  WebDavCredentials
+} from '../types';
+import { ConfigurationError } from '../errors';
+
+export class ProviderRegistry {
+  private static factories = new Map<string, ProviderFactory>();
+
+  /**
+   * Register a provider factory under a name usable as `SyncConfig.provider`.
+   * Registering an existing name replaces the previous factory.
+   */
+  static register(name: string, factory: ProviderFactory): void {
+    if (!name) {
+      throw new ConfigurationError('Provider name is required');
+    }
+    if (typeof factory !== 'function') {
+      throw new ConfigurationError(`Provider factory for ${name} must be a function`);
+    }
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * Remove a registered provider
+   */
+  static unregister(name: string): boolean {
+    return this.factories.delete(name);
+  }
+
+  /**
+   * Check if a provider name is registered
+   */
+  static has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * Build a provider by name
+   */
+  static create(name: string, context: ProviderContext): BaseProvider {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new ConfigurationError(`Unsupported provider: ${name}`);
+    }
+    return factory(context);
+  }
+}
+
+function requireCredentials<T>(name: string, context: ProviderContext): T {
+  if (!context.credentials) {
+    throw new ConfigurationError(`Provider ${name} requires credentials`);
+  }
+  return context.credentials as T;
+}
+
+// Built-in providers
+ProviderRegistry.register('google-drive', (context) => new GoogleDriveProvider(
+  requireCredentials<GoogleDriveCredentials>('google-drive', context),
+  context.dbName,
+  context.logger,
+  context.dbPath
+));
+
+ProviderRegistry.register('filesystem', (context) => new FilesystemProvider(
+  requireCredentials<FilesystemCredentials>('filesystem', context),
+  context.dbName,
+  context.logger
+));
+
+ProviderRegistry.register('s3', (context) => new S3Provider(
+  requireCredentials<S3Credentials>('s3', context),
+  context.dbName,
+  context.logger
+));
+
+ProviderRegistry.register('webdav', (context) => new WebDavProvider(
+  requireCredentials<WebDavCredentials>('webdav', context),
+  context.dbName,
+  context.logger
+));
+
+/**
+ * Register a custom provider so it can be selected by name in `SyncConfig.provider`
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  ProviderRegistry.register(name, factory);
+}
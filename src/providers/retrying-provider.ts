@@ -0,0 +1,100 @@
+import { PassThrough, Readable } from 'stream';
+import { BaseProvider } from './base-provider';
+import { RetryPolicy, toProviderError } from '../utils/retry';
+import { MetadataWriteOptions, ProviderMetadata } from '../types';
+
+/**
+ * Wraps a provider so each call is retried on transient failures, and
+ * errors from the backend or its SDK surface as typed errors.
+ * Stream uploads can't be replayed, so stream calls aren't retried;
+ * callers that can recreate the stream retry the whole transfer instead.
+ */
+export class RetryingProvider extends BaseProvider {
+  private provider: BaseProvider;
+  private retry: RetryPolicy;
+
+  constructor(provider: BaseProvider, retry: RetryPolicy) {
+    super();
+    this.provider = provider;
+    this.retry = retry;
+  }
+
+  async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
+    return this.run(() => this.provider.uploadFile(fileName, buffer), `Upload of ${fileName}`);
+  }
+
+  async createFile(fileName: string, buffer: Buffer): Promise<void> {
+    return this.run(() => this.provider.createFile(fileName, buffer), `Creation of ${fileName}`);
+  }
+
+  async downloadFile(fileName: string): Promise<Buffer> {
+    return this.run(() => this.provider.downloadFile(fileName), `Download of ${fileName}`);
+  }
+
+  async fileExists(fileName: string): Promise<boolean> {
+    return this.run(() => this.provider.fileExists(fileName), `Lookup of ${fileName}`);
+  }
+
+  async getMetadata(fileName: string): Promise<ProviderMetadata | null> {
+    return this.run(() => this.provider.getMetadata(fileName), 'Metadata download');
+  }
+
+  async updateMetadata(metadata: unknown, options?: MetadataWriteOptions): Promise<void> {
+    return this.run(() => this.provider.updateMetadata(metadata, options), 'Metadata upload');
+  }
+
+  async deleteFile(fileName: string): Promise<void> {
+    return this.run(() => this.provider.deleteFile(fileName), `Deletion of ${fileName}`);
+  }
+
+  async listFiles(folder: string): Promise<string[]> {
+    return this.run(() => this.provider.listFiles(folder), `Listing of ${folder}`);
+  }
+
+  async copyFile(source: string, destination: string): Promise<void> {
+    return this.run(() => this.provider.copyFile(source, destination), `Copy of ${source}`);
+  }
+
+  async uploadStream(fileName: string, source: Readable): Promise<void> {
+    try {
+      await this.provider.uploadStream(fileName, source);
+    } catch (error) {
+      // Failures of the local source (reading, compressing, encrypting) aren't provider errors
+      throw source.errored === error ? error : toProviderError(error);
+    }
+  }
+
+  async downloadStream(fileName: string): Promise<Readable> {
+    let stream: Readable;
+    try {
+      stream = await this.provider.downloadStream(fileName);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    const output = new PassThrough();
+    stream.on('error', error => output.destroy(toProviderError(error)));
+    output.on('close', () => stream.destroy());
+    return stream.pipe(output);
+  }
+
+  async needsAuthentication(): Promise<boolean> {
+    return this.provider.needsAuthentication();
+  }
+
+  async authenticate(): Promise<void> {
+    return this.provider.authenticate();
+  }
+
+  async logout(): Promise<void> {
+    return this.provider.logout();
+  }
+
+  private async run<T>(operation: () => Promise<T>, description: string): Promise<T> {
+    try {
+      return await this.retry.run(operation, description);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
@@ -0,0 +1 @@
+export { S3Provider } from './s3-provider';
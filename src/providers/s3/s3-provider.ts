@@ -0,0 +1,280 @@
+import {
+  S3Client,
+  S3ClientConfig,
+  GetObjectCommand,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  ListObjectsV2Command
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { Readable } from 'stream';
+import { BaseProvider } from '../base-provider';
+import { S3Credentials, MetadataWriteOptions, ProviderMetadata, SyncMetadata } from '../../types';
+import { Logger } from '../../utils/logger';
+import { CloudNotFoundError, ConfigurationError, ConflictError } from '../../errors';
+
+// Databases larger than one part are uploaded with multipart upload
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+const MULTIPART_QUEUE_SIZE = 4;
+
+export class S3Provider extends BaseProvider {
+  private client: S3Client;
+  private bucket: string;
+  private keyPrefix: string;
+  private logger: Logger;
+
+  constructor(credentials: S3Credentials, dbName: string, logger: Logger) {
+    super();
+    this.logger = logger;
+
+    if (!credentials.bucket) {
+      throw new ConfigurationError('S3 provider requires a bucket');
+    }
+
+    this.bucket = credentials.bucket;
+
+    const prefix = (credentials.prefix ?? '').replace(/^\/+|\/+$/g, '');
+    this.keyPrefix = [prefix, '.sqlite-cloud-backup', dbName].filter(Boolean).join('/');
+
+    const config: S3ClientConfig = {
+      region: credentials.region ?? 'us-east-1',
+      endpoint: credentials.endpoint,
+      forcePathStyle: credentials.forcePathStyle
+    };
+
+    if (credentials.endpoint) {
+      // Self-hosted servers don't all understand the newer flexible checksum headers
+      config.requestChecksumCalculation = 'WHEN_REQUIRED';
+      config.responseChecksumValidation = 'WHEN_REQUIRED';
+    }
+
+    if (credentials.accessKeyId && credentials.secretAccessKey) {
+      config.credentials = {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey,
+        sessionToken: credentials.sessionToken
+      };
+    }
+
+    this.client = new S3Client(config);
+  }
+
+  async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
+    await this.upload(fileName, buffer);
+  }
+
+  /**
+   * Conditional PUT: S3 rejects it with 412 if the object exists
+   */
+  async createFile(fileName: string, buffer: Buffer): Promise<void> {
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey(fileName),
+        Body: buffer,
+        IfNoneMatch: '*'
+      }));
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if (status === 412 || status === 409) {
+        throw new ConflictError(`${fileName} already exists`, { cause: error });
+      }
+      throw error;
+    }
+    this.logger.info(`Uploaded file to S3: ${fileName}`);
+  }
+
+  async uploadStream(fileName: string, source: Readable): Promise<void> {
+    // Streams of unknown length are split into parts as they arrive
+    await this.upload(fileName, this.trackProgress(source, 'upload', fileName));
+  }
+
+  async downloadStream(fileName: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey(fileName)
+      }));
+
+      this.logger.info(`Downloading file from S3: ${fileName}`);
+      return this.trackProgress(response.Body as Readable, 'download', fileName, response.ContentLength ?? null);
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new CloudNotFoundError(`File not found: ${fileName}`);
+      }
+      throw error;
+    }
+  }
+
+  private async upload(fileName: string, body: Buffer | Readable): Promise<void> {
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.getKey(fileName),
+        Body: body,
+        ContentType: fileName.endsWith('.json') ? 'application/json' : 'application/x-sqlite3'
+      },
+      partSize: MULTIPART_PART_SIZE,
+      queueSize: MULTIPART_QUEUE_SIZE,
+      leavePartsOnError: false
+    });
+
+    await upload.done();
+    this.logger.info(`Uploaded file to S3: ${fileName}`);
+  }
+
+  async downloadFile(fileName: string): Promise<Buffer> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey(fileName)
+      }));
+
+      const bytes = await response.Body!.transformToByteArray();
+      this.logger.info(`Downloaded file from S3: ${fileName}`);
+      return Buffer.from(bytes);
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new CloudNotFoundError(`File not found: ${fileName}`);
+      }
+      throw error;
+    }
+  }
+
+  async fileExists(fileName: string): Promise<boolean> {
+    return (await this.headObject(fileName)) !== null;
+  }
+
+  async getMetadata(fileName: string): Promise<ProviderMetadata | null> {
+    let response;
+    try {
+      response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey('metadata.json')
+      }));
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+
+    const metadata: SyncMetadata = JSON.parse(await response.Body!.transformToString('utf-8'));
+    const head = await this.headObject(fileName);
+
+    return {
+      checksum: metadata.checksum,
+      modifiedAt: metadata.lastSyncTimestamp,
+      size: head?.size ?? 0,
+      encryption: metadata.encryption,
+      compression: metadata.compression,
+      manifest: metadata.manifest,
+      file: metadata.file,
+      generation: metadata.version,
+      deviceId: metadata.deviceId,
+      etag: response.ETag
+    };
+  }
+
+  async updateMetadata(metadata: SyncMetadata, options: MetadataWriteOptions = {}): Promise<void> {
+    const buffer = Buffer.from(JSON.stringify(metadata, null, 2));
+    if (options.ifMatch === undefined) {
+      await this.uploadFile('metadata.json', buffer);
+      return;
+    }
+
+    // Conditional PUT: S3 rejects it with 412 if another device wrote metadata.json in the meantime
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey('metadata.json'),
+        Body: buffer,
+        ContentType: 'application/json',
+        ...(options.ifMatch === null ? { IfNoneMatch: '*' } : { IfMatch: options.ifMatch })
+      }));
+    } catch (error) {
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if (status === 412 || status === 409) {
+        throw new ConflictError('Cloud metadata changed since it was read', { cause: error });
+      }
+      throw error;
+    }
+    this.logger.info('Uploaded file to S3: metadata.json');
+  }
+
+  async deleteFile(fileName: string): Promise<void> {
+    if (!(await this.fileExists(fileName))) return;
+
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(fileName)
+    }));
+    this.logger.info(`Deleted file from S3: ${fileName}`);
+  }
+
+  async listFiles(folder: string): Promise<string[]> {
+    const prefix = `${this.getKey(folder)}/`;
+    const files: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        Delimiter: '/',
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of response.Contents ?? []) {
+        files.push(`${folder}/${object.Key!.substring(prefix.length)}`);
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  async copyFile(source: string, destination: string): Promise<void> {
+    const sourceKey = this.getKey(source).split('/').map(encodeURIComponent).join('/');
+
+    try {
+      await this.client.send(new CopyObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey(destination),
+        CopySource: `${encodeURIComponent(this.bucket)}/${sourceKey}`
+      }));
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        throw new CloudNotFoundError(`File not found: ${source}`);
+      }
+      throw error;
+    }
+
+    this.logger.info(`Copied file in S3: ${source} -> ${destination}`);
+  }
+
+  private getKey(fileName: string): string {
+    return `${this.keyPrefix}/${fileName}`;
+  }
+
+  private async headObject(fileName: string): Promise<{ size: number } | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey(fileName)
+      }));
+      return { size: response.ContentLength ?? 0 };
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  private isNotFound(error: unknown): boolean {
+    const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return err.name === 'NotFound' ||
+      err.name === 'NoSuchKey' ||
+      err.$metadata?.httpStatusCode === 404;
+  }
+}
@@ -0,0 +1 @@
+export { WebDavProvider } from './webdav-provider';
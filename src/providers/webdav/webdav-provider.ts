@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { BaseProvider } from '../base-provider';
+import { WebDavCredentials, MetadataWriteOptions, ProviderMetadata, SyncMetadata } from '../../types';
+import { Logger } from '../../utils/logger';
+import { CloudNotFoundError, ConfigurationError, errorForStatus } from '../../errors';
+
+interface WebDavStat {
+  etag: string;
+  size: number;
+}
+
+export class WebDavProvider extends BaseProvider {
+  private baseUrl: string;
+  private authHeader: string | null;
+  private dbName: string;
+  private logger: Logger;
+  private foldersReady = false;
+  private readySubfolders = new Set<string>();
+  private cachedMetadata: { etag: string; metadata: SyncMetadata } | null = null;
+
+  constructor(credentials: WebDavCredentials, dbName: string, logger: Logger) {
+    super();
+    this.logger = logger;
+    this.dbName = dbName;
+
+    if (!credentials.url) {
+      throw new ConfigurationError('WebDAV provider requires a url');
+    }
+
+    this.baseUrl = credentials.url.replace(/\/+$/, '');
+
+    if (credentials.token) {
+      this.authHeader = `Bearer ${credentials.token}`;
+    } else if (credentials.username) {
+      const basic = Buffer.from(`${credentials.username}:${credentials.password ?? ''}`).toString('base64');
+      this.authHeader = `Basic ${basic}`;
+    } else {
+      this.authHeader = null;
+    }
+  }
+
+  /**
+   * Initialize folder structure
+   */
+  private async ensureRootFolder(): Promise<void> {
+    if (this.foldersReady) return;
+
+    await this.createCollection(`${this.baseUrl}/.sqlite-cloud-backup`);
+    await this.ensureDbFolder();
+
+    this.foldersReady = true;
+  }
+
+  private async ensureDbFolder(): Promise<void> {
+    await this.createCollection(`${this.baseUrl}/.sqlite-cloud-backup/${encodeURIComponent(this.dbName)}`);
+  }
+
+  /**
+   * Create the subfolders a nested file name (e.g. `versions/x.db`) lives in
+   */
+  private async ensureParentFolders(fileName: string): Promise<void> {
+    await this.ensureRootFolder();
+
+    const segments = fileName.split('/').slice(0, -1);
+    for (let i = 1; i <= segments.length; i++) {
+      const folder = segments.slice(0, i).join('/');
+      if (this.readySubfolders.has(folder)) continue;
+
+      await this.createCollection(this.getFileUrl(folder));
+      this.readySubfolders.add(folder);
+    }
+  }
+
+  async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
+    await this.upload(fileName, buffer);
+  }
+
+  /**
+   * Like uploadFile(), but the MOVE into place doesn't overwrite: the server answers 412 if the file exists
+   */
+  async createFile(fileName: string, buffer: Buffer): Promise<void> {
+    await this.upload(fileName, buffer, false);
+  }
+
+  async uploadStream(fileName: string, source: Readable): Promise<void> {
+    // Sent with chunked transfer encoding
+    await this.upload(fileName, this.trackProgress(source, 'upload', fileName));
+  }
+
+  async downloadStream(fileName: string): Promise<Readable> {
+    const response = await this.request('GET', this.getFileUrl(fileName));
+
+    if (response.status === 404) {
+      throw new CloudNotFoundError(`File not found: ${fileName}`);
+    }
+    this.assertOk(response, 'GET', fileName);
+
+    this.logger.info(`Downloading file from WebDAV: ${fileName}`);
+    const length = response.headers.get('content-length');
+    return this.trackProgress(
+      Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      'download',
+      fileName,
+      length === null ? null : Number(length)
+    );
+  }
+
+  private async upload(fileName: string, body: Buffer | Readable, overwrite = true): Promise<void> {
+    await this.ensureParentFolders(fileName);
+
+    // Upload to a temporary name and MOVE it into place so readers never see a partial file.
+    // The name is unique so devices uploading the same file at once don't share a temp file.
+    const tempName = `${fileName}.${randomUUID()}.tmp`;
+    try {
+      const put = await this.request('PUT', this.getFileUrl(tempName), {
+        body,
+        headers: { 'Content-Type': 'application/octet-stream' }
+      });
+      this.assertOk(put, 'PUT', fileName);
+
+      const move = await this.request('MOVE', this.getFileUrl(tempName), {
+        headers: { Destination: this.getFileUrl(fileName), Overwrite: overwrite ? 'T' : 'F' }
+      });
+      this.assertOk(move, 'MOVE', fileName);
+    } catch (error) {
+      await this.request('DELETE', this.getFileUrl(tempName)).catch(() => undefined);
+      throw error;
+    }
+
+    this.logger.info(`Uploaded file to WebDAV: ${fileName}`);
+  }
+
+  async downloadFile(fileName: string): Promise<Buffer> {
+    const response = await this.request('GET', this.getFileUrl(fileName));
+
+    if (response.status === 404) {
+      throw new CloudNotFoundError(`File not found: ${fileName}`);
+    }
+    this.assertOk(response, 'GET', fileName);
+
+    this.logger.info(`Downloaded file from WebDAV: ${fileName}`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async fileExists(fileName: string): Promise<boolean> {
+    return (await this.statFile(fileName)) !== null;
+  }
+
+  async getMetadata(fileName: string): Promise<ProviderMetadata | null> {
+    const stat = await this.statFile('metadata.json');
+    if (!stat) {
+      this.cachedMetadata = null;
+      return null;
+    }
+
+    // Only download metadata.json again when its ETag changed
+    if (!this.cachedMetadata || this.cachedMetadata.etag !== stat.etag) {
+      const buffer = await this.downloadFile('metadata.json');
+      this.cachedMetadata = { etag: stat.etag, metadata: JSON.parse(buffer.toString('utf-8')) };
+    }
+
+    const fileStat = await this.statFile(fileName);
+
+    return {
+      checksum: this.cachedMetadata.metadata.checksum,
+      modifiedAt: this.cachedMetadata.metadata.lastSyncTimestamp,
+      size: fileStat?.size ?? 0,
+      encryption: this.cachedMetadata.metadata.encryption,
+      compression: this.cachedMetadata.metadata.compression,
+      manifest: this.cachedMetadata.metadata.manifest,
+      file: this.cachedMetadata.metadata.file,
+      generation: this.cachedMetadata.metadata.version,
+      deviceId: this.cachedMetadata.metadata.deviceId,
+      etag: this.cachedMetadata.etag
+    };
+  }
+
+  async updateMetadata(metadata: SyncMetadata, options: MetadataWriteOptions = {}): Promise<void> {
+    const buffer = Buffer.from(JSON.stringify(metadata, null, 2));
+    if (options.ifMatch === undefined) {
+      await this.uploadFile('metadata.json', buffer);
+      return;
+    }
+
+    // A MOVE can't be made conditional on the destination everywhere, so PUT in place;
+    // the server answers 412 if another device wrote metadata.json in the meantime
+    await this.ensureRootFolder();
+    const put = await this.request('PUT', this.getFileUrl('metadata.json'), {
+      body: buffer,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.ifMatch === null ? { 'If-None-Match': '*' } : { 'If-Match': options.ifMatch })
+      }
+    });
+    this.assertOk(put, 'PUT', 'metadata.json');
+    this.logger.info('Uploaded file to WebDAV: metadata.json');
+  }
+
+  async deleteFile(fileName: string): Promise<void> {
+    const response = await this.request('DELETE', this.getFileUrl(fileName));
+    if (response.status === 404) return;
+    this.assertOk(response, 'DELETE', fileName);
+
+    this.logger.info(`Deleted file from WebDAV: ${fileName}`);
+  }
+
+  async listFiles(folder: string): Promise<string[]> {
+    const folderUrl = `${this.getFileUrl(folder)}/`;
+    const response = await this.request('PROPFIND', folderUrl, {
+      headers: { Depth: '1', 'Content-Type': 'application/xml' },
+      body: '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/></d:prop></d:propfind>'
+    });
+
+    if (response.status === 404) return [];
+    this.assertOk(response, 'PROPFIND', folder);
+
+    const xml = await response.text();
+    const responses = xml.split(/<(?:[\w-]+:)?response[\s>]/i).slice(1);
+
+    return responses
+      .filter(entry => !/<(?:[\w-]+:)?collection\s*\/?>/i.test(entry))
+      .map(entry => this.readProp(entry, 'href'))
+      .filter((href): href is string => href !== null)
+      .map(href => decodeURIComponent(href.replace(/\/+$/, '').split('/').pop() ?? ''))
+      .filter(name => name && !name.endsWith('.tmp'))
+      .map(name => `${folder}/${name}`);
+  }
+
+  async copyFile(source: string, destination: string): Promise<void> {
+    await this.ensureParentFolders(destination);
+
+    const response = await this.request('COPY', this.getFileUrl(source), {
+      headers: { Destination: this.getFileUrl(destination), Overwrite: 'T' }
+    });
+
+    if (response.status === 404) {
+      throw new CloudNotFoundError(`File not found: ${source}`);
+    }
+    this.assertOk(response, 'COPY', source);
+
+    this.logger.info(`Copied file on WebDAV: ${source} -> ${destination}`);
+  }
+
+  /**
+   * Look up ETag and size with a depth-0 PROPFIND
+   */
+  private async statFile(fileName: string): Promise<WebDavStat | null> {
+    const response = await this.request('PROPFIND', this.getFileUrl(fileName), {
+      headers: { Depth: '0', 'Content-Type': 'application/xml' },
+      body: '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:getcontentlength/></d:prop></d:propfind>'
+    });
+
+    if (response.status === 404) return null;
+    this.assertOk(response, 'PROPFIND', fileName);
+
+    const xml = await response.text();
+    const etag = this.readProp(xml, 'getetag');
+    const size = Number(this.readProp(xml, 'getcontentlength') ?? 0);
+
+    return { etag: etag ?? '', size };
+  }
+
+  private readProp(xml: string, name: string): string | null {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}[^>]*>([^<]*)</(?:[\\w-]+:)?${name}>`, 'i'));
+    return match ? match[1].replace(/&quot;/g, '"').trim() : null;
+  }
+
+  private async createCollection(folderUrl: string): Promise<void> {
+    const response = await this.request('MKCOL', `${folderUrl}/`);
+
+    // 405 Method Not Allowed means the collection already exists
+    if (response.status !== 201 && response.status !== 405) {
+      this.assertOk(response, 'MKCOL', folderUrl);
+    }
+  }
+
+  private getFileUrl(fileName: string): string {
+    const encodedName = fileName.split('/').map(encodeURIComponent).join('/');
+    return `${this.baseUrl}/.sqlite-cloud-backup/${encodeURIComponent(this.dbName)}/${encodedName}`;
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    init: { headers?: Record<string, string>; body?: Buffer | string | Readable } = {}
+  ): Promise<Response> {
+    const headers: Record<string, string> = { ...init.headers };
+    if (this.authHeader) {
+      headers.Authorization = this.authHeader;
+    }
+
+    if (init.body instanceof Readable) {
+      // Streaming request bodies must be sent half-duplex
+      return fetch(url, { method, headers, body: Readable.toWeb(init.body) as unknown as RequestInit['body'], duplex: 'half' } as RequestInit);
+    }
+    return fetch(url, { method, headers, body: init.body });
+  }
+
+  private assertOk(response: Response, method: string, fileName: string): void {
+    if (!response.ok) {
+      throw errorForStatus(
+        `WebDAV ${method} ${fileName} failed: ${response.status} ${response.statusText}`,
+        response.status,
+        response.headers.get('retry-after')
+      );
+    }
+  }
+}
@@ -1,29 +1,190 @@
 // Core type definitions for sqlite-cloud-backup v0.1
 
+import type { BaseProvider } from '../providers/base-provider';
+import type { Logger } from '../utils/logger';
+import type { SyncError } from '../errors';
+
 // Provider types
-export type CloudProvider = 'google-drive';
+export type CloudProvider = 'google-drive' | 'filesystem' | 's3' | 'webdav';
 
 export interface GoogleDriveCredentials {
   clientId: string;
   clientSecret: string;
   refreshToken?: string; // Optional - will trigger OAuth flow if not provided
   redirectUri?: string;
+  chunkSize?: number; // Resumable upload chunk size, a multiple of 256 KiB. Default: 8 MiB
+  rootUrl?: string; // Drive API root (proxies, test servers). Default: 'https://www.googleapis.com/'
+  tokenUrl?: string; // OAuth token endpoint. Default: Google's
+}
+
+export interface FilesystemCredentials {
+  basePath: string; // Directory (local disk, NAS mount, network share) that holds the backups
+}
+
+export interface S3Credentials {
+  bucket: string;
+  region?: string; // Default: 'us-east-1'
+  endpoint?: string; // Custom endpoint for S3-compatible storage (MinIO, Garage, R2, ...)
+  prefix?: string; // Key prefix inside the bucket
+  forcePathStyle?: boolean; // Use path-style addressing (required by most self-hosted servers)
+  accessKeyId?: string; // Optional - falls back to the AWS default credential chain
+  secretAccessKey?: string;
+  sessionToken?: string;
+}
+
+export interface WebDavCredentials {
+  url: string; // WebDAV root, e.g. https://cloud.example.com/remote.php/dav/files/alice
+  username?: string; // Basic auth
+  password?: string; // Basic auth (use an app password for Nextcloud)
+  token?: string; // Bearer auth - used instead of username/password when set
 }
 
-export type ProviderCredentials = GoogleDriveCredentials;
+export type ProviderCredentials =
+  | GoogleDriveCredentials
+  | FilesystemCredentials
+  | S3Credentials
+  | WebDavCredentials;
+
+// Everything a provider factory gets to build a provider for one database
+export interface ProviderContext {
+  dbPath: string;
+  dbName: string;
+  credentials?: ProviderCredentials;
+  logger: Logger;
+}
+
+export type ProviderFactory = (context: ProviderContext) => BaseProvider;
 
 // Sync types
 export type SyncType = 'push' | 'pull' | 'bidirectional';
 
+// What changed since the last sync, relative to the last synced checksum
+export type SyncState = 'unchanged' | 'local-changed' | 'cloud-changed' | 'conflict';
+
 export interface SyncConfig {
   dbPath: string;
-  provider: CloudProvider;
-  credentials: ProviderCredentials;
+  // Built-in or registered provider name, a provider instance, or a factory
+  provider: CloudProvider | string | BaseProvider | ProviderFactory;
+  credentials?: ProviderCredentials; // Not needed when passing a provider instance or factory
   options?: SyncOptions;
 }
 
 export interface SyncOptions {
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  versioning?: VersioningOptions;
+  conflictStrategy?: ConflictStrategy; // Default: 'last-write-wins'
+  encryption?: EncryptionOptions; // Encrypt databases before upload
+  compression?: CompressionCodec | CompressionOptions; // Default: 'none'
+  storage?: StorageMode; // Default: 'file'
+  chunkSize?: number; // Chunk size for 'chunked' storage, a power of two from 4 KiB to 16 MiB. Default: 64 KiB
+  retry?: RetryOptions; // Retry transient provider failures (rate limits, 5xx, dropped connections)
+  lock?: LockOptions | false; // Cloud lease held during push, pull, sync and key rotation; false disables it
+  deviceId?: string; // Identifies this device to other devices. Default: a random id kept with the local sync metadata
+  deviceName?: string; // Shown for this device in listDevices(). Default: the hostname
+  appVersion?: string; // Version of your app, recorded with this device in listDevices()
+  historySize?: number; // Results kept for getSyncHistory(); 0 disables the history. Default: 100
+}
+
+export interface LockOptions {
+  ttl?: number; // Lease lifetime in ms, renewed every third of it while an operation runs. Default: 30000
+  wait?: number; // How long to wait for another device's lease before throwing LockedError, in ms. Default: 0
+}
+
+export type LockOperation = SyncType | 'rotate-key';
+
+export interface LockInfo {
+  owner: string; // Device id of the holder
+  operation: LockOperation;
+  acquiredAt: number;
+  expiresAt: number; // By the holder's clock
+  stale: boolean; // Expired long enough ago that another device may break it
+  heldByThisDevice: boolean;
+}
+
+export interface DeviceInfo {
+  id: string;
+  name: string; // SyncOptions.deviceName, or the hostname
+  hostname: string;
+  platform: string; // Node.js process.platform
+  appVersion?: string; // SyncOptions.appVersion
+  lastPushAt?: number;
+  lastPullAt?: number;
+  lastSeenAt: number; // Last successful push, pull or sync
+  lastSeenChecksum: string; // Cloud checksum as of lastSeenAt
+  lastSeenGeneration?: number; // Cloud generation as of lastSeenAt
+  thisDevice: boolean;
+}
+
+export interface SyncStatus {
+  deviceId: string;
+  authenticated: boolean; // False if the provider needs interactive authentication first
+  localChecksum: string;
+  lastSyncAt: number | null; // Last successful push, pull or sync on this device
+  lastSyncChecksum: string | null; // Checksum both sides had then
+  lastSyncGeneration: number | null;
+  cloud: CloudStatus | null; // Null when signed out, offline or nothing was pushed yet
+  state: SyncState | null; // What sync() would find now; null without cloud state
+  pendingChanges: boolean; // The local database changed since the last sync
+  lastError: SyncError | null; // Error of the last operation, if it failed
+  lock: LockInfo | null; // Cloud lease, while some device holds one
+  autoSync: AutoSyncState;
+}
+
+export interface CloudStatus {
+  checksum: string;
+  generation?: number;
+  modifiedAt: number; // When the cloud copy was pushed, by the pushing device's clock
+  deviceId?: string; // Device that pushed it
+}
+
+export interface HistoryOptions {
+  limit?: number; // Most recent results to return. Default: all that are kept
+}
+
+export interface RetryOptions {
+  maxRetries?: number; // Retries after the first attempt; 0 disables retrying. Default: 3
+  baseDelay?: number; // Delay before the first retry in ms, doubled for each further one. Default: 500
+  maxDelay?: number; // Upper bound for a single delay, including a server's Retry-After. Default: 30000
+  jitter?: boolean; // Randomize half of each delay. Default: true
+}
+
+export interface AutoSyncOptions {
+  interval: number; // Delay between runs in ms, counted from the end of the previous run
+  maxInterval?: number; // Upper bound for the delay after repeated failures. Default: 1 hour, or interval if longer
+  syncOnShutdown?: boolean; // Attempt a final sync in shutdown(). Default: true
+  watch?: boolean | WatchOptions; // Also sync shortly after local commits
+}
+
+export interface WatchOptions {
+  pollInterval?: number; // How often to check for commits, in ms. Default: 1000
+  quietPeriod?: number; // Sync once no commit happened for this long, in ms. Default: 2000
+  maxDelay?: number; // Sync at most this long after the first unsynced commit, even if writes continue. Default: 10000
+}
+
+export interface AutoSyncState {
+  enabled: boolean;
+  paused: boolean;
+  running: boolean;
+  watching: boolean; // Local commits trigger a sync
+  nextRunAt: number | null; // Set while a run is scheduled; kept while paused
+  consecutiveFailures: number;
+  lastError: SyncError | null; // Error of the last run, cleared by a successful one
+}
+
+// 'file' uploads the whole database on every push; 'chunked' only uploads chunks the cloud doesn't have
+export type StorageMode = 'file' | 'chunked';
+
+export type CompressionCodec = 'none' | 'gzip' | 'brotli';
+
+export interface CompressionOptions {
+  codec: CompressionCodec;
+  level?: number; // gzip 1-9 (default 6), brotli 0-11 (default 6)
+}
+
+export interface EncryptionOptions {
+  passphrase?: string; // Stretched with scrypt using a per-file salt
+  key?: Buffer; // Raw 32-byte key, instead of a passphrase
+  keyId: string; // Names the key in each file header, in plaintext, e.g. '2024-01'
 }
 
 export interface SyncResult {
@@ -32,9 +193,24 @@ export interface SyncResult {
   timestamp: number;
   localChecksum: string;
   cloudChecksum: string;
-  bytesTransferred: number;
+  bytesTransferred: number; // Bytes sent or received, after compression and encryption
+  rawBytes: number; // Size of the database itself
   duration: number;
-  error?: Error;
+  state?: SyncState; // Set by sync()
+  conflict?: SyncConflict; // Set when a conflict is left for resolveConflict()
+  merge?: MergeStats; // Set when a conflict was resolved by a row-level merge
+  chunks?: ChunkStats; // Set when the cloud copy is stored as chunks
+  generation?: number; // Cloud generation both sides are at after the operation
+  error?: SyncError; // Set on results that record a failure
+}
+
+export interface PushOptions {
+  force?: boolean; // Push even if another device pushed since this device last synced
+}
+
+export interface ChunkStats {
+  total: number; // Chunks the database consists of
+  transferred: number; // Chunks uploaded or downloaded; the rest were already on the other side
 }
 
 // Metadata types
@@ -43,16 +219,186 @@ export interface SyncMetadata {
   lastSyncTimestamp: number;
   lastSyncType: SyncType;
   checksum: string;
-  version: number;
+  version: number; // Generation: one more than the generation the push replaced
+  versionId?: string; // Snapshot created by the last push
+  encryption?: EncryptionInfo; // Set when current.db is encrypted
+  compression?: CompressionCodec; // Codec current.db was compressed with, if any
+  manifest?: string; // Chunk manifest of the current database, instead of current.db
+  file?: string; // Generation-named copy of the current database, instead of current.db
+  deviceId?: string; // Device that made the push
+}
+
+export interface KeyRotationResult {
+  fromKeyId: string;
+  toKeyId: string;
+  rotated: number; // Objects re-encrypted by this call
+  skipped: number; // Objects already under the new key, e.g. from an interrupted rotation
+  duration: number;
+}
+
+export interface EncryptionInfo {
+  keyId: string;
+  checksum: string; // SHA-256 of the encrypted file; `checksum` covers the plaintext
 }
 
 export interface LocalMetadata {
   lastSyncTimestamp: number;
   lastSyncChecksum: string;
+  lastSyncGeneration?: number; // Cloud generation as of the last sync
+  deviceId?: string; // Generated on first use unless SyncOptions.deviceId is set
+  rollback?: RollbackInfo; // Set while a restored snapshot hasn't been pushed or replaced
+  conflict?: SyncConflict; // Set while a manual conflict awaits resolveConflict()
+}
+
+export interface RollbackInfo {
+  versionId: string;
+  checksum: string;
+  timestamp: number;
 }
 
 export interface ProviderMetadata {
   checksum: string;
   modifiedAt: number;
   size: number;
+  encryption?: EncryptionInfo;
+  compression?: CompressionCodec;
+  manifest?: string;
+  file?: string;
+  generation?: number; // SyncMetadata.version
+  deviceId?: string; // SyncMetadata.deviceId
+  etag?: string; // Revision of the metadata file, for conditional updates
+}
+
+export interface MetadataWriteOptions {
+  // Only write if the metadata file still has this etag; null: only if it doesn't exist yet
+  ifMatch?: string | null;
+}
+
+// Conflict types
+export type ConflictStrategy = 'last-write-wins' | 'keep-local' | 'keep-cloud' | 'manual' | 'custom' | 'merge';
+
+export interface ConflictSnapshot {
+  path: string; // Local copy of this side's database
+  checksum: string;
+  modifiedAt: number;
+  size: number;
+}
+
+export interface SyncConflict {
+  id: string;
+  detectedAt: number;
+  baseChecksum: string; // Checksum of the last sync, empty if this device never synced
+  local: ConflictSnapshot;
+  cloud: ConflictSnapshot;
+}
+
+// Keep one side, or publish a merged database file
+export type ConflictChoice = 'local' | 'cloud' | { mergedPath: string };
+
+export type ConflictResolver = (conflict: SyncConflict) => ConflictChoice | Promise<ConflictChoice>;
+
+// Row-level merge types
+export type SqliteRow = Record<string, unknown>; // Integers are bigints
+
+export interface RowConflict {
+  table: string;
+  key: SqliteRow; // Primary key columns, or `rowid`
+  columns: string[]; // Columns both sides changed differently (all columns if a side inserted or deleted the row)
+  base: SqliteRow | null; // null if the row didn't exist at the last sync
+  local: SqliteRow | null; // null if deleted locally
+  cloud: SqliteRow | null; // null if deleted in the cloud
+}
+
+// Keep one side's version of the row (null means deleted), or write the given row
+export type RowConflictChoice = 'local' | 'cloud' | SqliteRow;
+
+export type RowConflictResolver = (conflict: RowConflict) => RowConflictChoice | Promise<RowConflictChoice>;
+
+export interface MergeStats {
+  rowsApplied: number; // Cloud-side row changes written into the local database
+  conflicts: number; // Rows passed to the row conflict resolver
+}
+
+// Versioning types
+export interface RetentionPolicy {
+  keepLast?: number; // Keep the N most recent snapshots
+  keepDaily?: number; // Keep the newest snapshot of each of the last N days with snapshots
+  keepWeekly?: number; // Same, per ISO week
+  keepMonthly?: number; // Same, per calendar month
+}
+
+export interface VersioningOptions {
+  enabled?: boolean; // Default: true
+  retention?: RetentionPolicy; // Default: { keepLast: 10 }
+}
+
+export interface VersionInfo {
+  id: string; // `<timestamp>_<checksum>`
+  fileName: string; // Path inside the cloud db folder
+  timestamp: number;
+  checksum: string;
+  compression: CompressionCodec; // Always 'none' for chunk manifests; each chunk records its own codec
+  storage: StorageMode;
+}
+
+export interface RestoreOptions {
+  targetPath?: string; // Write the snapshot here instead of replacing the local database
+}
+
+export interface RestoreResult {
+  versionId: string;
+  checksum: string;
+  targetPath: string;
+  bytesTransferred: number;
+  rawBytes: number;
+  timestamp: number;
+  duration: number;
+}
+
+// Event types
+export type TransferPhase = 'upload' | 'download';
+
+export interface TransferProgress {
+  phase: TransferPhase;
+  fileName: string; // Cloud file being transferred, or `chunks` for chunked storage
+  bytesDone: number;
+  bytesTotal: number | null; // null when the size isn't known up front, e.g. for compressed uploads
+}
+
+export interface SyncStartEvent {
+  type: SyncType;
+}
+
+export interface SyncErrorEvent {
+  type: SyncType;
+  error: SyncError;
+}
+
+export interface ConflictDetectedEvent {
+  strategy: ConflictStrategy; // How the conflict is about to be handled
+  localChecksum: string;
+  cloudChecksum: string;
+  baseChecksum: string;
+}
+
+export interface AuthRequiredEvent {
+  reason: string;
+  authUrl?: string; // Set when the OAuth flow is waiting for the user to sign in at this URL
+}
+
+export interface TokenRefreshedEvent {
+  expiresAt: number | null; // Expiry of the new access token
+}
+
+export interface ProviderEvents {
+  progress: [TransferProgress];
+  'auth-required': [AuthRequiredEvent];
+  'token-refreshed': [TokenRefreshedEvent];
+}
+
+export interface SyncEvents extends ProviderEvents {
+  'sync-start': [SyncStartEvent];
+  'sync-complete': [SyncResult];
+  'sync-error': [SyncErrorEvent];
+  'conflict-detected': [ConflictDetectedEvent];
 }
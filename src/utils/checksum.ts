@@ -1,5 +1,57 @@
 import crypto from 'crypto';
 import fs from 'fs';
+import { Transform, TransformCallback } from 'stream';
+
+const HEAD_LENGTH = 512;
+
+/**
+ * Pass-through stream that hashes and counts the bytes flowing through it
+ */
+export class HashStream extends Transform {
+  private hash = crypto.createHash('sha256');
+  private digest: string | null = null;
+  private verify?: (checksum: string) => void;
+  bytes = 0;
+  /** The first bytes seen, enough to read a file header */
+  head = Buffer.alloc(0);
+
+  /**
+   * `verify` runs once the stream ends; throwing from it fails the stream
+   */
+  constructor(verify?: (checksum: string) => void) {
+    super();
+    this.verify = verify;
+  }
+
+  /**
+   * SHA-256 of everything that passed through. Only available after the stream ended.
+   */
+  get checksum(): string {
+    if (this.digest === null) {
+      throw new Error('Checksum is not available until the stream has ended');
+    }
+    return this.digest;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hash.update(chunk);
+    this.bytes += chunk.length;
+    if (this.head.length < HEAD_LENGTH) {
+      this.head = Buffer.concat([this.head, chunk.subarray(0, HEAD_LENGTH - this.head.length)]);
+    }
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.digest = this.hash.digest('hex');
+    try {
+      this.verify?.(this.digest);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+}
 
 export class ChecksumUtil {
   /**
@@ -23,6 +75,13 @@ export class ChecksumUtil {
     return crypto.createHash('sha256').update(buffer).digest('hex');
   }
 
+  /**
+   * Create a stream that hashes data in flight
+   */
+  static createHashStream(verify?: (checksum: string) => void): HashStream {
+    return new HashStream(verify);
+  }
+
   /**
    * Verify file integrity
    */
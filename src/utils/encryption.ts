@@ -0,0 +1,406 @@
+import crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+import { promisify } from 'util';
+import { EncryptionOptions } from '../types';
+import { ConfigurationError, EncryptionError } from '../errors';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const MAGIC = Buffer.from('SCBE');
+const FORMAT_VERSION = 1;
+
+const KDF_SCRYPT = 1;
+const KDF_HKDF = 2;
+
+// scrypt cost: N = 2^15, r = 8, p = 1 (~32 MB, ~100 ms)
+const SCRYPT_LOG_N = 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// Derived file keys kept per EncryptionKey, so files sharing a salt (chunks of one push) derive once
+const DERIVED_KEY_CACHE_SIZE = 16;
+
+// magic | version | kdf, logN, r, p | salt | iv | keyId length
+const FIXED_HEADER_LENGTH = MAGIC.length + 5 + SALT_LENGTH + IV_LENGTH + 1;
+
+export interface EncryptionHeader {
+  version: number;
+  keyId: string;
+}
+
+interface ParsedHeader extends EncryptionHeader {
+  kdf: number;
+  logN: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  iv: Buffer;
+  length: number;
+}
+
+/**
+ * A passphrase or raw key, with the file key derivation used by EncryptionUtil
+ */
+export class EncryptionKey {
+  private options: EncryptionOptions;
+  private derivedKeys = new Map<string, Promise<Buffer>>();
+  private nameKey: Promise<Buffer> | null = null;
+
+  constructor(options: EncryptionOptions) {
+    if (Boolean(options.passphrase) === Boolean(options.key)) {
+      throw new ConfigurationError('Encryption requires either a passphrase or a key');
+    }
+    if (options.key && options.key.length !== KEY_LENGTH) {
+      throw new ConfigurationError(`Encryption key must be ${KEY_LENGTH} bytes`);
+    }
+    if (!options.keyId || Buffer.byteLength(options.keyId) > 255) {
+      throw new ConfigurationError('Encryption requires a keyId of 1-255 bytes');
+    }
+
+    this.options = options;
+  }
+
+  /**
+   * The configured key id, written in plaintext to file headers. There is no default: anything
+   * derived from the key would let a reader of the headers test passphrase guesses against it.
+   */
+  async getKeyId(): Promise<string> {
+    return this.options.keyId;
+  }
+
+  /**
+   * Secret for naming content stored under this key, such as HMAC chunk names. Salted with the
+   * key id, so the same passphrase under another id names content differently.
+   */
+  async getNameKey(): Promise<Buffer> {
+    if (!this.nameKey) {
+      const { passphrase, key, keyId } = this.options;
+      const salt = `sqlite-cloud-backup:names:${keyId}`;
+      const N = 2 ** SCRYPT_LOG_N;
+
+      this.nameKey = passphrase
+        ? scrypt(passphrase, salt, KEY_LENGTH, { N, r: SCRYPT_R, p: SCRYPT_P, maxmem: 256 * N * SCRYPT_R })
+        : Promise.resolve(Buffer.from(crypto.hkdfSync('sha256', key!, salt, 'sqlite-cloud-backup:names', KEY_LENGTH)));
+    }
+    return this.nameKey;
+  }
+
+  /**
+   * Derive the per-file key from the passphrase (scrypt) or the raw key (HKDF-SHA256)
+   */
+  async deriveKey(kdf: number, salt: Buffer, logN: number, r: number, p: number): Promise<Buffer> {
+    const cacheKey = `${kdf}:${logN}:${r}:${p}:${salt.toString('hex')}`;
+    let derived = this.derivedKeys.get(cacheKey);
+
+    if (!derived) {
+      derived = this.derive(kdf, salt, logN, r, p);
+      derived.catch(() => this.derivedKeys.delete(cacheKey));
+
+      this.derivedKeys.set(cacheKey, derived);
+      if (this.derivedKeys.size > DERIVED_KEY_CACHE_SIZE) {
+        this.derivedKeys.delete(this.derivedKeys.keys().next().value!);
+      }
+    }
+    return derived;
+  }
+
+  get kdf(): number {
+    return this.options.passphrase ? KDF_SCRYPT : KDF_HKDF;
+  }
+
+  private async derive(kdf: number, salt: Buffer, logN: number, r: number, p: number): Promise<Buffer> {
+    if (kdf === KDF_SCRYPT) {
+      if (!this.options.passphrase) {
+        throw new EncryptionError('File was encrypted with a passphrase, but a raw key is configured');
+      }
+      const N = 2 ** logN;
+      return scrypt(this.options.passphrase, salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r });
+    }
+
+    if (kdf === KDF_HKDF) {
+      if (!this.options.key) {
+        throw new EncryptionError('File was encrypted with a raw key, but a passphrase is configured');
+      }
+      return Buffer.from(crypto.hkdfSync('sha256', this.options.key, salt, 'sqlite-cloud-backup:file', KEY_LENGTH));
+    }
+
+    throw new EncryptionError(`Unsupported key derivation: ${kdf}`);
+  }
+}
+
+/**
+ * AES-256-GCM file encryption.
+ *
+ * Layout: magic "SCBE" | version | kdf | scrypt logN, r, p | salt (16) | iv (12) |
+ * keyId length | keyId | ciphertext | auth tag (16). The header is authenticated as AAD.
+ */
+export class EncryptionUtil {
+  /**
+   * Check whether a buffer starts with the encryption header
+   */
+  static isEncrypted(data: Buffer): boolean {
+    return data.length >= MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+  }
+
+  /**
+   * Read the format version and key id without decrypting
+   */
+  static readHeader(data: Buffer): EncryptionHeader {
+    const { version, keyId } = parseHeader(data);
+    return { version, keyId };
+  }
+
+  /**
+   * Whichever of `keys` has the given key id. Throws if none does.
+   */
+  static async findKey(keyId: string, keys: EncryptionKey[]): Promise<EncryptionKey> {
+    if (keys.length === 0) {
+      throw new EncryptionError('Cloud database is encrypted. Set options.encryption to decrypt it');
+    }
+
+    const keyIds: string[] = [];
+    for (const candidate of keys) {
+      const candidateId = await candidate.getKeyId();
+      if (candidateId === keyId) return candidate;
+      keyIds.push(candidateId);
+    }
+
+    const configured = keyIds.map(candidateId => `"${candidateId}"`).join(', ');
+    throw new EncryptionError(`Database is encrypted with key "${keyId}", but the configured key is ${configured}`);
+  }
+
+  /**
+   * Random salt for encrypt(). Files encrypted with the same salt share one key derivation.
+   */
+  static generateSalt(): Buffer {
+    return crypto.randomBytes(SALT_LENGTH);
+  }
+
+  /**
+   * Encrypt with a fresh IV, and a fresh salt unless one is given
+   */
+  static async encrypt(plaintext: Buffer, key: EncryptionKey, salt?: Buffer): Promise<Buffer> {
+    const { header, cipher } = await createCipher(key, salt);
+
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([header, ciphertext, cipher.getAuthTag()]);
+  }
+
+  /**
+   * Decrypt and authenticate with the key (or whichever of `keys`) matching the header.
+   * Throws if no key id matches or the data was tampered with.
+   */
+  static async decrypt(data: Buffer, keys: EncryptionKey | EncryptionKey[]): Promise<Buffer> {
+    const header = parseHeader(data);
+    const decipher = await createDecipher(header, data.subarray(0, header.length), Array.isArray(keys) ? keys : [keys]);
+
+    if (data.length < header.length + TAG_LENGTH) {
+      throw new EncryptionError('Encrypted data is truncated');
+    }
+    decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+
+    try {
+      return Buffer.concat([
+        decipher.update(data.subarray(header.length, data.length - TAG_LENGTH)),
+        decipher.final()
+      ]);
+    } catch {
+      throw new EncryptionError('Decryption failed - wrong key or corrupted data');
+    }
+  }
+
+  /**
+   * Create a transform that encrypts everything written to it, in the same format as encrypt()
+   */
+  static async createEncryptStream(key: EncryptionKey): Promise<Transform> {
+    const { header, cipher } = await createCipher(key);
+    let headerWritten = false;
+
+    const writeHeader = (stream: Transform): void => {
+      if (!headerWritten) {
+        stream.push(header);
+        headerWritten = true;
+      }
+    };
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        writeHeader(this);
+        callback(null, cipher.update(chunk));
+      },
+      flush(callback) {
+        writeHeader(this);
+        this.push(cipher.final());
+        callback(null, cipher.getAuthTag());
+      }
+    });
+  }
+
+  /**
+   * Create a transform that decrypts with whichever of `keys` matches the header.
+   * Unencrypted data passes through unchanged.
+   */
+  static createDecryptStream(keys: EncryptionKey[]): DecryptStream {
+    return new DecryptStream(keys);
+  }
+}
+
+/**
+ * Streaming counterpart of EncryptionUtil.decrypt().
+ * The last 16 bytes are held back until the end, where they are checked as the auth tag.
+ */
+export class DecryptStream extends Transform {
+  /** Header of the encrypted input; null until read, and for unencrypted input */
+  header: EncryptionHeader | null = null;
+  private keys: EncryptionKey[];
+  private pending = Buffer.alloc(0);
+  private mode: 'detect' | 'plain' | 'encrypted' = 'detect';
+  private decipher: crypto.DecipherGCM | null = null;
+
+  constructor(keys: EncryptionKey[]) {
+    super();
+    this.keys = keys;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.process(chunk).then(() => callback(), callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.mode === 'detect') {
+      if (EncryptionUtil.isEncrypted(this.pending)) {
+        callback(new EncryptionError('Encrypted data is truncated'));
+        return;
+      }
+      callback(null, this.pending);
+      return;
+    }
+
+    if (this.mode === 'plain') {
+      callback();
+      return;
+    }
+
+    if (this.pending.length < TAG_LENGTH) {
+      callback(new EncryptionError('Encrypted data is truncated'));
+      return;
+    }
+
+    try {
+      this.decipher!.setAuthTag(this.pending);
+      callback(null, this.decipher!.final());
+    } catch {
+      callback(new EncryptionError('Decryption failed - wrong key or corrupted data'));
+    }
+  }
+
+  private async process(chunk: Buffer): Promise<void> {
+    if (this.mode === 'plain') {
+      this.push(chunk);
+      return;
+    }
+
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    if (this.mode === 'detect') {
+      if (this.pending.length < MAGIC.length) return;
+
+      if (!EncryptionUtil.isEncrypted(this.pending)) {
+        this.mode = 'plain';
+        this.push(this.pending);
+        this.pending = Buffer.alloc(0);
+        return;
+      }
+
+      if (this.pending.length < FIXED_HEADER_LENGTH) return;
+      const headerLength = FIXED_HEADER_LENGTH + this.pending[FIXED_HEADER_LENGTH - 1];
+      if (this.pending.length < headerLength) return;
+
+      const header = parseHeader(this.pending);
+      this.decipher = await createDecipher(header, this.pending.subarray(0, headerLength), this.keys);
+      this.header = { version: header.version, keyId: header.keyId };
+      this.pending = this.pending.subarray(headerLength);
+      this.mode = 'encrypted';
+    }
+
+    if (this.pending.length > TAG_LENGTH) {
+      const ciphertextLength = this.pending.length - TAG_LENGTH;
+      this.push(this.decipher!.update(this.pending.subarray(0, ciphertextLength)));
+      this.pending = Buffer.from(this.pending.subarray(ciphertextLength));
+    }
+  }
+}
+
+async function createCipher(
+  key: EncryptionKey,
+  salt: Buffer = crypto.randomBytes(SALT_LENGTH)
+): Promise<{ header: Buffer; cipher: crypto.CipherGCM }> {
+  const keyId = Buffer.from(await key.getKeyId());
+  const iv = crypto.randomBytes(IV_LENGTH);
+
+  const header = Buffer.concat([
+    MAGIC,
+    Buffer.from([FORMAT_VERSION, key.kdf, SCRYPT_LOG_N, SCRYPT_R, SCRYPT_P]),
+    salt,
+    iv,
+    Buffer.from([keyId.length]),
+    keyId
+  ]);
+
+  const fileKey = await key.deriveKey(key.kdf, salt, SCRYPT_LOG_N, SCRYPT_R, SCRYPT_P);
+  const cipher = crypto.createCipheriv('aes-256-gcm', fileKey, iv);
+  cipher.setAAD(header);
+
+  return { header, cipher };
+}
+
+async function createDecipher(
+  header: ParsedHeader,
+  headerBytes: Buffer,
+  keys: EncryptionKey[]
+): Promise<crypto.DecipherGCM> {
+  const key = await EncryptionUtil.findKey(header.keyId, keys);
+  const fileKey = await key.deriveKey(header.kdf, header.salt, header.logN, header.r, header.p);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', fileKey, header.iv);
+  decipher.setAAD(headerBytes);
+  return decipher;
+}
+
+function parseHeader(data: Buffer): ParsedHeader {
+  if (!EncryptionUtil.isEncrypted(data)) {
+    throw new EncryptionError('Data is not encrypted');
+  }
+
+  const version = data[4];
+  if (version !== FORMAT_VERSION) {
+    throw new EncryptionError(`Unsupported encryption format version: ${version}`);
+  }
+
+  let offset = 5;
+  const [kdf, logN, r, p] = data.subarray(offset, offset + 4);
+  offset += 4;
+  const salt = data.subarray(offset, offset + SALT_LENGTH);
+  offset += SALT_LENGTH;
+  const iv = data.subarray(offset, offset + IV_LENGTH);
+  offset += IV_LENGTH;
+  const keyIdLength = data[offset];
+  offset += 1;
+  const keyId = data.subarray(offset, offset + keyIdLength).toString('utf-8');
+  offset += keyIdLength;
+
+  if (offset > data.length) {
+    throw new EncryptionError('Encrypted data is truncated');
+  }
+
+  return { version, keyId, kdf, logN, r, p, salt, iv, length: offset };
+}
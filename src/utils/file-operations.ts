@@ -1,4 +1,5 @@
 import fs from 'fs';
+import { randomUUID } from 'crypto';
 
 export class FileOperations {
   /**
@@ -10,12 +11,28 @@ export class FileOperations {
     }
   }
 
+  /**
+   * Unique temp name next to `filePath`, so writers sharing a folder never write to the same temp file
+   */
+  static tempPath(filePath: string): string {
+    return `${filePath}.${randomUUID()}.tmp`;
+  }
+
   /**
    * Copy file atomically
    */
   static async copyFile(source: string, destination: string): Promise<void> {
-    const tempDest = `${destination}.tmp`;
+    const tempDest = FileOperations.tempPath(destination);
     await fs.promises.copyFile(source, tempDest);
     await fs.promises.rename(tempDest, destination);
   }
+
+  /**
+   * Write buffer to file atomically
+   */
+  static async writeFileAtomic(filePath: string, buffer: Buffer): Promise<void> {
+    const tempPath = FileOperations.tempPath(filePath);
+    await fs.promises.writeFile(tempPath, buffer);
+    await fs.promises.rename(tempPath, filePath);
+  }
 }
@@ -0,0 +1,233 @@
+import { Logger } from './logger';
+import { RetryOptions } from '../types';
+import {
+  SyncError,
+  AuthenticationRequiredError,
+  CloudNotFoundError,
+  QuotaExceededError,
+  ConflictError,
+  ProviderError,
+  ConfigurationError
+} from '../errors';
+
+// How a failed provider call should be handled; only 'transient' errors are retried
+export type ErrorKind = 'transient' | 'auth' | 'quota' | 'not-found' | 'conflict' | 'fatal';
+
+const DEFAULTS: Required<RetryOptions> = { maxRetries: 3, baseDelay: 500, maxDelay: 30_000, jitter: true };
+
+// Socket and DNS failures worth another attempt, from Node, undici and gaxios
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'
+]);
+
+// Google API reasons and S3 error names
+const RATE_LIMIT_REASONS = new Set([
+  'rateLimitExceeded', 'userRateLimitExceeded', 'sharingRateLimitExceeded', 'backendError',
+  'SlowDown', 'Throttling', 'ThrottlingException', 'RequestTimeout', 'InternalError', 'ServiceUnavailable'
+]);
+const QUOTA_REASONS = new Set(['storageQuotaExceeded', 'quotaExceeded', 'dailyLimitExceeded', 'teamDriveFileLimitExceeded']);
+const AUTH_REASONS = new Set([
+  'invalid_grant', 'invalid_client', 'unauthorized_client', 'authError',
+  'insufficientPermissions', 'insufficientFilePermissions', 'appNotAuthorizedToFile',
+  'AccessDenied', 'Forbidden', 'InvalidAccessKeyId', 'SignatureDoesNotMatch', 'ExpiredToken', 'InvalidToken'
+]);
+// Local disk full, from the filesystem provider
+const QUOTA_CODES = new Set(['ENOSPC', 'EDQUOT']);
+const NOT_FOUND_REASONS = new Set(['notFound', 'NoSuchKey', 'NoSuchBucket', 'NotFound']);
+// A conditional write lost against another writer
+const CONFLICT_REASONS = new Set(['conditionNotMet', 'PreconditionFailed', 'ConditionalRequestConflict']);
+
+/**
+ * Retries transient provider failures with exponential backoff
+ */
+export class RetryPolicy {
+  private options: Required<RetryOptions>;
+  private logger: Logger;
+  private sleep: (ms: number) => Promise<void>;
+
+  /**
+   * `sleep` waits between attempts; tests can replace it or use fake timers
+   */
+  constructor(options: RetryOptions, logger: Logger, sleep = defaultSleep) {
+    this.options = {
+      maxRetries: options.maxRetries ?? DEFAULTS.maxRetries,
+      baseDelay: options.baseDelay ?? DEFAULTS.baseDelay,
+      maxDelay: options.maxDelay ?? DEFAULTS.maxDelay,
+      jitter: options.jitter ?? DEFAULTS.jitter
+    };
+    this.logger = logger;
+    this.sleep = sleep;
+
+    const { maxRetries, baseDelay, maxDelay } = this.options;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new ConfigurationError('retry.maxRetries must be a non-negative integer');
+    }
+    if (!(baseDelay >= 0) || !(maxDelay >= baseDelay)) {
+      throw new ConfigurationError('retry.baseDelay must be non-negative and no greater than retry.maxDelay');
+    }
+  }
+
+  /**
+   * Run `operation`, retrying it while it fails with transient errors.
+   * The operation must be safe to repeat.
+   */
+  async run<T>(operation: () => Promise<T>, description: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || RetryPolicy.classify(error) !== 'transient') {
+          throw error;
+        }
+
+        const delay = this.getDelay(attempt, error);
+        if (delay === null) throw error;
+
+        this.logger.warn(
+          `${description} failed (${(error as Error).message}), retrying in ${delay}ms ` +
+          `(${attempt + 1}/${this.options.maxRetries})`
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Delay before retry number `attempt + 1`: the server's Retry-After if it sent one,
+   * otherwise exponential backoff. Returns null if the server asks to wait longer than maxDelay.
+   */
+  getDelay(attempt: number, error?: unknown): number | null {
+    const { baseDelay, maxDelay, jitter } = this.options;
+
+    const retryAfter = error === undefined ? null : RetryPolicy.getRetryAfter(error);
+    if (retryAfter !== null) {
+      return retryAfter <= maxDelay ? retryAfter : null;
+    }
+
+    const delay = Math.min(maxDelay, baseDelay * 2 ** attempt);
+    // Half fixed, half random, so devices that failed together don't retry in lockstep
+    return jitter ? Math.round(delay / 2 + Math.random() * delay / 2) : delay;
+  }
+
+  /**
+   * Decide whether an error from a provider or one of the SDKs it uses is worth retrying
+   */
+  static classify(error: unknown): ErrorKind {
+    if (error instanceof AuthenticationRequiredError) return 'auth';
+    if (error instanceof QuotaExceededError) return 'quota';
+    if (error instanceof CloudNotFoundError) return 'not-found';
+    if (error instanceof ConflictError) return 'conflict';
+    if (error instanceof SyncError && !(error instanceof ProviderError)) return 'fatal';
+
+    const status = getStatus(error);
+    const reason = getReason(error);
+
+    if (status === 507 || (reason && QUOTA_REASONS.has(reason))) return 'quota';
+    if (reason && RATE_LIMIT_REASONS.has(reason)) return 'transient';
+    // Drive and S3 also use 403 for other failures, so a 403 with another reason isn't about credentials
+    if (status === 401 || (status === 403 && !reason) || (reason && AUTH_REASONS.has(reason))) return 'auth';
+    if (status === 404 || status === 410 || (reason && NOT_FOUND_REASONS.has(reason))) return 'not-found';
+    if (status === 412 || (reason && CONFLICT_REASONS.has(reason))) return 'conflict';
+    if (status === 408 || status === 429 || (status !== null && status >= 500)) return 'transient';
+
+    // Network failures are often wrapped, e.g. fetch's TypeError('fetch failed', { cause })
+    for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+      const code = (current as { code?: unknown }).code;
+      if (typeof code === 'string' && TRANSIENT_CODES.has(code)) return 'transient';
+      if (typeof code === 'string' && QUOTA_CODES.has(code)) return 'quota';
+    }
+
+    return status === null && (error as { $retryable?: unknown })?.$retryable ? 'transient' : 'fatal';
+  }
+
+  /**
+   * Retry-After of an HTTP error in milliseconds, from seconds or an HTTP date
+   */
+  static getRetryAfter(error: unknown): number | null {
+    const value = getRetryAfterHeader(error);
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+}
+
+/**
+ * Convert an error from a provider or its SDK into the matching typed error.
+ * Typed errors pass through unchanged.
+ */
+export function toProviderError(error: unknown): SyncError {
+  if (error instanceof SyncError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  switch (RetryPolicy.classify(error)) {
+    case 'auth':
+      return new AuthenticationRequiredError(message, { cause: error });
+    case 'quota':
+      return new QuotaExceededError(message, { cause: error });
+    case 'not-found':
+      return new CloudNotFoundError(message, { cause: error });
+    case 'conflict':
+      return new ConflictError(message, { cause: error });
+    default:
+      return new ProviderError(message, {
+        status: getStatus(error) ?? undefined,
+        retryAfter: getRetryAfterHeader(error),
+        reason: getReason(error),
+        cause: error
+      });
+  }
+}
+
+interface ErrorShape {
+  status?: unknown;
+  statusCode?: unknown;
+  response?: { status?: unknown; headers?: unknown; data?: unknown };
+  $metadata?: { httpStatusCode?: unknown };
+  $response?: { headers?: unknown };
+  retryAfter?: unknown;
+  reason?: unknown;
+  errors?: Array<{ reason?: unknown }>;
+  name?: unknown;
+}
+
+function getStatus(error: unknown): number | null {
+  const shape = error as ErrorShape | undefined;
+  const status = shape?.status ?? shape?.statusCode ?? shape?.response?.status ?? shape?.$metadata?.httpStatusCode;
+  return typeof status === 'number' ? status : null;
+}
+
+function getReason(error: unknown): string | null {
+  const shape = error as ErrorShape | undefined;
+  const data = shape?.response?.data as { error?: string | { errors?: Array<{ reason?: unknown }> } } | undefined;
+
+  const reason =
+    shape?.reason ??
+    shape?.errors?.[0]?.reason ??
+    (typeof data?.error === 'object' ? data.error.errors?.[0]?.reason : data?.error) ??
+    (shape?.$metadata ? shape.name : undefined);
+  return typeof reason === 'string' ? reason : null;
+}
+
+function getRetryAfterHeader(error: unknown): string | null {
+  const shape = error as ErrorShape | undefined;
+  if (typeof shape?.retryAfter === 'string') return shape.retryAfter;
+
+  for (const headers of [shape?.response?.headers, shape?.$response?.headers]) {
+    if (!headers) continue;
+
+    const value = typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get('retry-after')
+      : (headers as Record<string, unknown>)['retry-after'];
+    if (typeof value === 'string') return value;
+  }
+  return null;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
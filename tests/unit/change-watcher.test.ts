@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChangeWatcher } from '../../src/core/change-watcher';
+import { Logger } from '../../src/utils/logger';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+describe('ChangeWatcher', () => {
+  const testDir = path.join(__dirname, 'test-change-watcher');
+  const dbPath = path.join(testDir, 'app.db');
+  const logger = new Logger('error');
+  let app: Database.Database;
+  let watcher: ChangeWatcher;
+  let onChange: ReturnType<typeof vi.fn>;
+
+  const write = (body: string) => app.prepare('INSERT INTO notes VALUES (?)').run(body);
+
+  const createDatabase = (databasePath: string) => {
+    const db = new Database(databasePath);
+    db.pragma('journal_mode = WAL');
+    db.exec('CREATE TABLE IF NOT EXISTS notes (body TEXT)');
+    return db;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    fs.mkdirSync(testDir, { recursive: true });
+    app = createDatabase(dbPath);
+    onChange = vi.fn();
+    watcher = new ChangeWatcher(dbPath, { pollInterval: 100, quietPeriod: 500, maxDelay: 2000 }, onChange, logger);
+    watcher.start();
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    app.close();
+    vi.useRealTimers();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report a commit once writes are quiet', async () => {
+    write('hello');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(watcher.hasPendingChanges()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(onChange).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(watcher.hasPendingChanges()).toBe(false);
+  });
+
+  it('should not report reads or automatic checkpoints', async () => {
+    app.prepare('SELECT * FROM notes').all();
+    app.pragma('wal_checkpoint(PASSIVE)');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should cap the delay while writes continue', async () => {
+    for (let elapsed = 0; elapsed < 5000; elapsed += 200) {
+      write(`note ${elapsed}`);
+      await vi.advanceTimersByTimeAsync(200);
+    }
+
+    // Each burst is synced at most maxDelay after its first commit
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should follow our own file replacement without reporting it', async () => {
+    const pulled = path.join(testDir, 'pulled.db');
+    createDatabase(pulled).close();
+    fs.renameSync(pulled, dbPath);
+    watcher.rebase();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onChange).not.toHaveBeenCalled();
+
+    // Commits to the new file are still seen
+    app.close();
+    app = createDatabase(dbPath);
+    write('after pull');
+    await vi.advanceTimersByTimeAsync(600);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a file replaced by someone else', async () => {
+    const restored = path.join(testDir, 'restored.db');
+    createDatabase(restored).close();
+    fs.renameSync(restored, dbPath);
+
+    await vi.advanceTimersByTimeAsync(600);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop reporting once stopped', async () => {
+    write('hello');
+    await vi.advanceTimersByTimeAsync(100);
+    watcher.stop();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should validate options', () => {
+    expect(() => new ChangeWatcher(dbPath, { pollInterval: 0 }, onChange, logger)).toThrow('pollInterval');
+    expect(() => new ChangeWatcher(dbPath, { quietPeriod: 5000, maxDelay: 1000 }, onChange, logger)).toThrow('maxDelay');
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { ChecksumUtil } from '../../src/utils/checksum';
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 
 describe('ChecksumUtil', () => {
   const testFile = path.join(__dirname, 'test-checksum.txt');
@@ -53,4 +55,27 @@ describe('ChecksumUtil', () => {
 
     expect(fileChecksum).toBe(bufferChecksum);
   });
+
+  it('should hash streams in flight', async () => {
+    const hash = ChecksumUtil.createHashStream();
+    const chunks: Buffer[] = [];
+
+    await pipeline(Readable.from([Buffer.from('test content '), Buffer.from('for checksum')]), hash, async (source) => {
+      for await (const chunk of source) chunks.push(chunk);
+    });
+
+    expect(Buffer.concat(chunks).toString()).toBe(testContent);
+    expect(hash.checksum).toBe(ChecksumUtil.calculateBufferChecksum(Buffer.from(testContent)));
+    expect(hash.bytes).toBe(testContent.length);
+  });
+
+  it('should fail the stream when verification fails', async () => {
+    const hash = ChecksumUtil.createHashStream(() => {
+      throw new Error('Checksum mismatch');
+    });
+
+    await expect(pipeline(Readable.from([Buffer.from(testContent)]), hash, async (source) => {
+      for await (const chunk of source) void chunk;
+    })).rejects.toThrow('Checksum mismatch');
+  });
 });
@@ -0,0 +1,355 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ChunkStore } from '../../src/core/chunk-store';
+import SqliteCloudBackup, { ChecksumMismatchError, FilesystemProvider, Logger, SyncOptions } from '../../src/index';
+import { ChecksumUtil } from '../../src/utils/checksum';
+import { EncryptionKey, EncryptionUtil } from '../../src/utils/encryption';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+describe('ChunkStore', () => {
+  const testDir = path.join(__dirname, 'test-chunk-store');
+  const chunksDir = path.join(testDir, 'cloud', '.sqlite-cloud-backup', 'test', 'chunks');
+  const sourcePath = path.join(testDir, 'source.db');
+  const targetPath = path.join(testDir, 'target.db');
+  const chunkSize = 4096;
+  const noEncoding = { compression: { codec: 'none' as const }, key: null };
+  let provider: FilesystemProvider;
+  let store: ChunkStore;
+
+  // Four chunks and a short tail; the third chunk repeats the first
+  const blocks = [crypto.randomBytes(chunkSize), crypto.randomBytes(chunkSize)];
+  const content = Buffer.concat([blocks[0], blocks[1], blocks[0], crypto.randomBytes(chunkSize), Buffer.from('tail')]);
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(sourcePath, content);
+
+    provider = new FilesystemProvider({ basePath: path.join(testDir, 'cloud') }, 'test', new Logger('error'));
+    store = new ChunkStore(provider, new Logger('error'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should validate the chunk size', () => {
+    expect(() => ChunkStore.validateChunkSize(4096)).not.toThrow();
+    expect(() => ChunkStore.validateChunkSize(2048)).toThrow('power of two');
+    expect(() => ChunkStore.validateChunkSize(5000)).toThrow('power of two');
+  });
+
+  it('should store each distinct chunk once', async () => {
+    const { manifest, stats } = await store.upload(sourcePath, chunkSize, noEncoding);
+
+    expect(manifest).toMatchObject({ checksum: ChecksumUtil.calculateBufferChecksum(content), size: content.length });
+    expect(manifest.chunks).toHaveLength(5);
+    expect(manifest.chunks[2]).toBe(manifest.chunks[0]);
+    expect(stats.chunks).toEqual({ total: 5, transferred: 4 });
+    expect(fs.readdirSync(chunksDir)).toHaveLength(4);
+
+    const again = await store.upload(sourcePath, chunkSize, noEncoding);
+    expect(again.stats).toMatchObject({ bytesTransferred: 0, chunks: { total: 5, transferred: 0 } });
+  });
+
+  it('should only download chunks the seed file lacks', async () => {
+    const { manifest: original } = await store.upload(sourcePath, chunkSize, noEncoding);
+    const seedPath = path.join(testDir, 'seed.db');
+    fs.copyFileSync(sourcePath, seedPath);
+
+    const changed = Buffer.from(content);
+    changed[chunkSize * 3 + 10] ^= 1;
+    fs.writeFileSync(sourcePath, changed);
+    const { manifest, stats } = await store.upload(sourcePath, chunkSize, noEncoding);
+    expect(stats.chunks.transferred).toBe(1);
+
+    const downloaded = await store.download(manifest, targetPath, { keys: [], seedPath });
+
+    expect(downloaded.chunks).toEqual({ total: 5, transferred: 1 });
+    expect(fs.readFileSync(targetPath).equals(changed)).toBe(true);
+
+    // Without a seed, repeated chunks are still only downloaded once
+    const full = await store.download(original, targetPath, { keys: [] });
+    expect(full.chunks.transferred).toBe(4);
+    expect(fs.readFileSync(targetPath).equals(content)).toBe(true);
+  });
+
+  it('should compress and encrypt each chunk', async () => {
+    const key = new EncryptionKey({ passphrase: 'passphrase', keyId: 'k' });
+    const { manifest } = await store.upload(sourcePath, chunkSize, { compression: { codec: 'gzip' }, key });
+
+    const stored = fs.readdirSync(chunksDir);
+    expect(stored.every(name => name.endsWith('.gz'))).toBe(true);
+    expect(stored.every(name => EncryptionUtil.isEncrypted(fs.readFileSync(path.join(chunksDir, name))))).toBe(true);
+
+    await store.download(manifest, targetPath, { keys: [key] });
+    expect(fs.readFileSync(targetPath).equals(content)).toBe(true);
+
+    await expect(store.download(manifest, targetPath, { keys: [] })).rejects.toThrow('Cloud database is encrypted');
+  });
+
+  it('should name encrypted chunks under their key and never reuse them under another', async () => {
+    const { manifest: plain } = await store.upload(sourcePath, chunkSize, noEncoding);
+    const secret = crypto.randomBytes(32);
+    const key = new EncryptionKey({ key: secret, keyId: 'k' });
+
+    const { manifest, stats } = await store.upload(sourcePath, chunkSize, { ...noEncoding, key });
+
+    // Plaintext chunks are not reused, and names are not content hashes
+    expect(stats.chunks.transferred).toBe(4);
+    expect(manifest.keyId).toBe('k');
+    expect(manifest.chunks.filter(chunkHash => plain.chunks.includes(chunkHash))).toEqual([]);
+    for (const chunkHash of manifest.chunks) {
+      expect(EncryptionUtil.isEncrypted(fs.readFileSync(path.join(chunksDir, chunkHash)))).toBe(true);
+    }
+
+    const again = await store.upload(sourcePath, chunkSize, { ...noEncoding, key });
+    expect(again.stats.chunks.transferred).toBe(0);
+
+    const other = new EncryptionKey({ key: secret, keyId: 'other' });
+    expect((await store.upload(sourcePath, chunkSize, { ...noEncoding, key: other })).stats.chunks.transferred).toBe(4);
+    await expect(store.download(manifest, targetPath, { keys: [other] })).rejects.toThrow('encrypted with key "k"');
+  });
+
+  it('should rename chunks under the new key when rotating, resuming where it stopped', async () => {
+    const from = new EncryptionKey({ passphrase: 'old passphrase', keyId: 'old' });
+    const to = new EncryptionKey({ key: crypto.randomBytes(32), keyId: 'new' });
+    const { manifest: plain } = await store.upload(sourcePath, chunkSize, noEncoding);
+    await store.writeManifest('manifests/1000_a.json', plain);
+    fs.writeFileSync(sourcePath, Buffer.concat([blocks[1], Buffer.from('other tail')]));
+    const { manifest: encrypted } = await store.upload(sourcePath, chunkSize, { ...noEncoding, key: from });
+    await store.writeManifest('manifests/2000_b.json', encrypted);
+    const manifests = ['manifests/1000_a.json', 'manifests/2000_b.json'];
+
+    // Fail after the first manifest's chunks
+    const upload = provider.uploadFile.bind(provider);
+    let uploads = 0;
+    provider.uploadFile = async (fileName, data) => {
+      if (fileName.startsWith('manifests/2000') || ++uploads > 5) throw new Error('Connection reset');
+      return upload(fileName, data);
+    };
+    await expect(store.rotate(manifests, from, to)).rejects.toThrow('Connection reset');
+    provider.uploadFile = upload;
+
+    // The second manifest is still readable with the old key
+    await store.download(await store.readManifest('manifests/2000_b.json'), targetPath, { keys: [from] });
+
+    expect(await store.rotate(manifests, from, to)).toEqual({ rotated: 1, skipped: 4 });
+
+    const rotated = await Promise.all(manifests.map(fileName => store.readManifest(fileName)));
+    expect(rotated.map(manifest => manifest.keyId)).toEqual(['new', 'new']);
+    expect(fs.readdirSync(chunksDir).sort()).toEqual([...new Set(rotated.flatMap(manifest => manifest.chunks))].sort());
+
+    await store.download(rotated[0], targetPath, { keys: [to] });
+    expect(fs.readFileSync(targetPath).equals(content)).toBe(true);
+  });
+
+  it('should leave the target untouched when a chunk is corrupted', async () => {
+    const { manifest } = await store.upload(sourcePath, chunkSize, noEncoding);
+    fs.writeFileSync(path.join(chunksDir, manifest.chunks[1]), crypto.randomBytes(chunkSize));
+    fs.writeFileSync(targetPath, 'previous');
+
+    await expect(store.download(manifest, targetPath, { keys: [] })).rejects.toThrow('Checksum mismatch');
+
+    expect(fs.readFileSync(targetPath, 'utf-8')).toBe('previous');
+    expect(fs.existsSync(`${targetPath}.download`)).toBe(false);
+  });
+
+  it('should reject corrupted manifests and formats it does not know', async () => {
+    await provider.uploadFile('manifests/1000_a.json', Buffer.from('{ not json'));
+    await provider.uploadFile('manifests/2000_b.json', Buffer.from(JSON.stringify({ format: 99 })));
+
+    await expect(store.readManifest('manifests/1000_a.json')).rejects.toThrow(ChecksumMismatchError);
+    await expect(store.readManifest('manifests/2000_b.json')).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+
+  it('should delete chunks no manifest refers to', async () => {
+    const { manifest: first } = await store.upload(sourcePath, chunkSize, noEncoding);
+    fs.writeFileSync(sourcePath, Buffer.concat([blocks[0], Buffer.from('tail')]));
+    const { manifest: second } = await store.upload(sourcePath, chunkSize, noEncoding);
+    await store.writeManifest('manifests/1000_a.json', first);
+    await store.writeManifest('manifests/2000_b.json', second);
+
+    expect(await store.collectGarbage(['manifests/1000_a.json', 'manifests/2000_b.json'])).toBe(0);
+    expect(await store.collectGarbage(['manifests/2000_b.json'])).toBe(2);
+    expect(fs.readdirSync(chunksDir).sort()).toEqual([...new Set(second.chunks)].sort());
+  });
+});
+
+describe('Chunked sync', () => {
+  const testDir = path.join(__dirname, 'test-chunked-sync');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'device1', 'app.db');
+  const otherDbPath = path.join(testDir, 'device2', 'app.db');
+  const cloudFolder = path.join(backupDir, '.sqlite-cloud-backup', 'app');
+
+  const createBackup = (options: SyncOptions = {}, targetDbPath = dbPath) => new SqliteCloudBackup({
+    dbPath: targetDbPath,
+    provider: 'filesystem',
+    credentials: { basePath: backupDir },
+    options: { logLevel: 'error', storage: 'chunked', chunkSize: 4096, ...options }
+  });
+
+  const updateRow = (targetDbPath: string, id: number, value: string) => {
+    const db = new Database(targetDbPath);
+    db.prepare('UPDATE notes SET body = ? WHERE id = ?').run(value, id);
+    db.close();
+  };
+
+  const readRow = (targetDbPath: string, id: number) => {
+    const db = new Database(targetDbPath, { readonly: true });
+    const row = db.prepare('SELECT body FROM notes WHERE id = ?').get(id) as { body: string };
+    db.close();
+    return row.body;
+  };
+
+  const storedChunks = () => fs.readdirSync(path.join(cloudFolder, 'chunks'));
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    fs.mkdirSync(path.dirname(otherDbPath), { recursive: true });
+
+    // ~100 pages of distinct rows
+    const db = new Database(dbPath);
+    db.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT)');
+    const insert = db.prepare('INSERT INTO notes (id, body) VALUES (?, ?)');
+    for (let i = 1; i <= 200; i++) insert.run(i, crypto.randomBytes(1000).toString('hex'));
+    db.close();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should only upload the chunks a change touched', async () => {
+    const backup = createBackup();
+    const first = await backup.pushToCloud();
+
+    expect(first.chunks!.total).toBeGreaterThan(50);
+    expect(first.chunks!.transferred).toBe(first.chunks!.total);
+    expect(fs.existsSync(path.join(cloudFolder, 'current.db'))).toBe(false);
+
+    updateRow(dbPath, 100, 'edited');
+    const second = await backup.pushToCloud();
+
+    expect(second.chunks!.transferred).toBeGreaterThan(0);
+    expect(second.chunks!.transferred).toBeLessThan(5);
+    expect(second.bytesTransferred).toBeLessThan(first.bytesTransferred / 10);
+
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+    expect(metadata.manifest).toBe(`manifests/${metadata.versionId}.json`);
+    expect(metadata.checksum).toBe(second.localChecksum);
+  });
+
+  it('should only download the chunks another device changed', async () => {
+    await createBackup().pushToCloud();
+    const other = createBackup({}, otherDbPath);
+    const initial = await other.pullFromCloud();
+    expect(initial.chunks!.transferred).toBe(initial.chunks!.total);
+
+    updateRow(dbPath, 7, 'from device 1');
+    await createBackup().sync();
+
+    const result = await other.sync();
+
+    expect(result.state).toBe('cloud-changed');
+    expect(result.chunks!.transferred).toBeLessThan(5);
+    expect(readRow(otherDbPath, 7)).toBe('from device 1');
+  });
+
+  it('should share chunks between versions and restore any of them', async () => {
+    const backup = createBackup();
+    await backup.pushToCloud();
+    const chunksAfterFirst = storedChunks().length;
+
+    updateRow(dbPath, 1, 'second');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await backup.pushToCloud();
+
+    expect(storedChunks().length - chunksAfterFirst).toBeLessThan(5);
+
+    const versions = await backup.listVersions();
+    expect(versions.map(version => version.storage)).toEqual(['chunked', 'chunked']);
+
+    await backup.restore(versions[1].id);
+    expect(readRow(dbPath, 1)).not.toBe('second');
+  });
+
+  it('should delete chunks only pruned versions used', async () => {
+    const backup = createBackup({ versioning: { retention: { keepLast: 1 } } });
+    await backup.pushToCloud();
+
+    const db = new Database(dbPath);
+    db.exec('DELETE FROM notes WHERE id > 100; VACUUM;');
+    db.close();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const result = await backup.pushToCloud();
+
+    const versions = await backup.listVersions();
+    expect(versions).toHaveLength(1);
+
+    const manifest = JSON.parse(fs.readFileSync(path.join(cloudFolder, versions[0].fileName), 'utf-8'));
+    expect(storedChunks().sort()).toEqual([...new Set<string>(manifest.chunks)].sort());
+    expect(storedChunks().length).toBeLessThanOrEqual(result.chunks!.total);
+  });
+
+  it('should keep only the current manifest when versioning is disabled', async () => {
+    const backup = createBackup({ versioning: { enabled: false } });
+    await backup.pushToCloud();
+    updateRow(dbPath, 1, 'second');
+    await backup.pushToCloud();
+
+    expect(fs.readdirSync(path.join(cloudFolder, 'manifests'))).toHaveLength(1);
+
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+    expect(metadata.versionId).toBeUndefined();
+    await createBackup({}, otherDbPath).pullFromCloud();
+    expect(readRow(otherDbPath, 1)).toBe('second');
+  });
+
+  it('should switch between whole-file and chunked storage', async () => {
+    await createBackup({ storage: 'file' }).pushToCloud();
+    expect((await createBackup().sync()).state).toBe('unchanged');
+
+    updateRow(dbPath, 1, 'chunked');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await createBackup().sync();
+    expect(fs.existsSync(path.join(cloudFolder, 'current.db'))).toBe(false);
+
+    // Devices still configured for whole files read the chunks
+    const other = createBackup({ storage: 'file' }, otherDbPath);
+    await other.pullFromCloud();
+    expect(readRow(otherDbPath, 1)).toBe('chunked');
+
+    updateRow(otherDbPath, 1, 'file again');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await other.sync();
+    await createBackup().sync();
+    expect(readRow(dbPath, 1)).toBe('file again');
+
+    const storage = (await other.listVersions()).map(version => version.storage);
+    expect(storage).toEqual(['file', 'chunked', 'file']);
+  });
+
+  it('should encrypt chunks and rotate their key', async () => {
+    const oldKey = { passphrase: 'old passphrase', keyId: 'old' };
+    const newKey = { key: crypto.randomBytes(32), keyId: 'new' };
+
+    const backup = createBackup({ encryption: oldKey, compression: 'gzip' });
+    await backup.pushToCloud();
+    const keyIds = () => storedChunks().map(name =>
+      EncryptionUtil.readHeader(fs.readFileSync(path.join(cloudFolder, 'chunks', name))).keyId);
+    expect(new Set(keyIds())).toEqual(new Set(['old']));
+
+    const result = await backup.rotateEncryptionKey(oldKey, newKey);
+
+    expect(result).toMatchObject({ rotated: storedChunks().length, skipped: 0 });
+    expect(new Set(keyIds())).toEqual(new Set(['new']));
+
+    await createBackup({ encryption: newKey }, otherDbPath).pullFromCloud();
+    expect(readRow(otherDbPath, 1)).toBe(readRow(dbPath, 1));
+  });
+});
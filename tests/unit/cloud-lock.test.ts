@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import SqliteCloudBackup, { FilesystemProvider, LockedError, Logger, SyncOptions } from '../../src/index';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Readable } from 'stream';
+
+describe('Cloud lock', () => {
+  const testDir = path.join(__dirname, 'test-cloud-lock');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'app.db');
+  const cloudFolder = path.join(backupDir, '.sqlite-cloud-backup', 'app');
+  const lockFile = path.join(cloudFolder, 'lock.json');
+
+  // Runs a callback in the middle of each upload, while the lock is held
+  class HookedProvider extends FilesystemProvider {
+    duringUpload: (() => Promise<void> | void) | null = null;
+
+    constructor() {
+      super({ basePath: backupDir }, 'app', new Logger('error'));
+    }
+
+    async uploadStream(fileName: string, source: Readable): Promise<void> {
+      await this.duringUpload?.();
+      return super.uploadStream(fileName, source);
+    }
+  }
+
+  const createBackup = (options: SyncOptions = {}, provider: FilesystemProvider = new HookedProvider()) =>
+    new SqliteCloudBackup({ dbPath, provider, options: { logLevel: 'error', ...options } });
+
+  const writeLease = (lease: { owner: string; expiresAt: number; ttl?: number }) => {
+    fs.mkdirSync(cloudFolder, { recursive: true });
+    fs.writeFileSync(lockFile, JSON.stringify({
+      token: 'other-token',
+      operation: 'push',
+      acquiredAt: lease.expiresAt - 30_000,
+      ttl: 30_000,
+      ...lease
+    }));
+  };
+
+  const readLease = () => JSON.parse(fs.readFileSync(lockFile, 'utf-8'));
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const db = new Database(dbPath);
+    db.exec("CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES ('hello');");
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should hold the lock during a push and release it afterwards', async () => {
+    const provider = new HookedProvider();
+    const backup = createBackup({}, provider);
+    const { deviceId } = await backup.getStatus();
+    let holder: unknown = null;
+    provider.duringUpload = async () => { holder = (await backup.getStatus()).lock; };
+
+    await backup.pushToCloud();
+
+    expect(holder).toMatchObject({ owner: deviceId, operation: 'push', stale: false, heldByThisDevice: true });
+    expect(fs.existsSync(lockFile)).toBe(false);
+    expect((await backup.getStatus()).lock).toBeNull();
+  });
+
+  it('should throw LockedError while another device holds the lock', async () => {
+    writeLease({ owner: 'laptop', expiresAt: Date.now() + 30_000 });
+    const backup = createBackup();
+
+    const error = await backup.sync().catch(e => e);
+
+    expect(error).toBeInstanceOf(LockedError);
+    expect(error.code).toBe('LOCKED');
+    expect(error.message).toContain('laptop');
+    expect(fs.existsSync(path.join(cloudFolder, 'current.db'))).toBe(false);
+    expect((await backup.getStatus()).lock).toMatchObject({ owner: 'laptop', heldByThisDevice: false });
+  });
+
+  it('should wait for the lock when configured to', async () => {
+    writeLease({ owner: 'laptop', expiresAt: Date.now() + 30_000 });
+    setTimeout(() => fs.rmSync(lockFile), 200);
+
+    const result = await createBackup({ lock: { wait: 5000 } }).pushToCloud();
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should give up waiting after the timeout', async () => {
+    writeLease({ owner: 'laptop', expiresAt: Date.now() + 30_000 });
+
+    await expect(createBackup({ lock: { wait: 100 } }).pushToCloud()).rejects.toBeInstanceOf(LockedError);
+  });
+
+  it('should only break a lease one TTL after it expired', async () => {
+    // Expired, but the holder's clock may be behind
+    writeLease({ owner: 'laptop', expiresAt: Date.now() - 10_000 });
+    await expect(createBackup().pushToCloud()).rejects.toBeInstanceOf(LockedError);
+
+    writeLease({ owner: 'laptop', expiresAt: Date.now() - 31_000 });
+    const backup = createBackup();
+    expect((await backup.getStatus()).lock?.stale).toBe(true);
+
+    await expect(backup.pushToCloud()).resolves.toMatchObject({ success: true });
+    expect(fs.existsSync(lockFile)).toBe(false);
+  });
+
+  it('should not overwrite a lease created after it checked for one', async () => {
+    // Misses the other device's lease on the first check, as if both devices checked at once
+    class RacingProvider extends HookedProvider {
+      missLease = true;
+
+      async fileExists(fileName: string): Promise<boolean> {
+        if (fileName === 'lock.json' && this.missLease) {
+          this.missLease = false;
+          return false;
+        }
+        return super.fileExists(fileName);
+      }
+    }
+    writeLease({ owner: 'laptop', expiresAt: Date.now() + 30_000 });
+
+    await expect(createBackup({}, new RacingProvider()).pushToCloud()).rejects.toBeInstanceOf(LockedError);
+    expect(readLease().owner).toBe('laptop');
+  });
+
+  it('should not publish when another device took the lock over', async () => {
+    const provider = new HookedProvider();
+    provider.duringUpload = () => writeLease({ owner: 'laptop', expiresAt: Date.now() + 30_000 });
+
+    await expect(createBackup({}, provider).pushToCloud()).rejects.toThrow('taken over by device laptop');
+
+    expect(fs.existsSync(path.join(cloudFolder, 'metadata.json'))).toBe(false);
+    // The other device's lease is left alone
+    expect(readLease().owner).toBe('laptop');
+  });
+
+  it('should renew the lease during long operations', async () => {
+    const provider = new HookedProvider();
+    const expirations: number[] = [];
+    provider.duringUpload = async () => {
+      expirations.push(readLease().expiresAt);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expirations.push(readLease().expiresAt);
+    };
+
+    await createBackup({ lock: { ttl: 90 } }, provider).pushToCloud();
+
+    expect(expirations[1]).toBeGreaterThan(expirations[0]);
+  });
+
+  it('should skip the lock when disabled', async () => {
+    writeLease({ owner: 'laptop', expiresAt: Date.now() + 30_000 });
+
+    await expect(createBackup({ lock: false }).pushToCloud()).resolves.toMatchObject({ success: true });
+    expect(readLease().owner).toBe('laptop');
+  });
+
+  it('should keep the device id across instances unless configured', async () => {
+    const { deviceId } = await createBackup().getStatus();
+
+    expect(deviceId).toMatch(/^[0-9a-f-]{36}$/);
+    expect((await createBackup().getStatus()).deviceId).toBe(deviceId);
+    expect((await createBackup({ deviceId: 'desktop' }).getStatus()).deviceId).toBe('desktop');
+  });
+});
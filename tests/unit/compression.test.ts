@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { CompressionUtil } from '../../src/utils/compression';
+import { CompressionCodec } from '../../src/types';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+async function collect(source: Readable, ...transforms: NodeJS.ReadWriteStream[]): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(source, ...transforms, async (stream: AsyncIterable<Buffer>) => {
+    for await (const chunk of stream) chunks.push(chunk);
+  });
+  return Buffer.concat(chunks);
+}
+
+describe('CompressionUtil', () => {
+  const buffer = Buffer.from('SQLite format 3\0'.padEnd(32 * 1024, '\0'));
+
+  it.each<CompressionCodec>(['gzip', 'brotli'])('should round-trip %s', async (codec) => {
+    const compressed = await CompressionUtil.compress(buffer, codec);
+
+    expect(compressed.length).toBeLessThan(buffer.length / 10);
+    expect(await CompressionUtil.decompress(compressed, codec)).toEqual(buffer);
+  });
+
+  it.each<CompressionCodec>(['gzip', 'brotli', 'none'])('should round-trip %s as a stream', async (codec) => {
+    const compressed = await collect(Readable.from([buffer]), CompressionUtil.createCompressStream(codec));
+
+    expect(await CompressionUtil.decompress(compressed, codec)).toEqual(buffer);
+    expect(await collect(Readable.from([compressed]), CompressionUtil.createDecompressStream(codec))).toEqual(buffer);
+  });
+
+  it('should pass buffers through with none', async () => {
+    expect(await CompressionUtil.compress(buffer, 'none')).toBe(buffer);
+    expect(await CompressionUtil.decompress(buffer, 'none')).toBe(buffer);
+  });
+
+  it('should resolve default levels and validate ranges', () => {
+    expect(CompressionUtil.resolveLevel('gzip')).toBe(6);
+    expect(CompressionUtil.resolveLevel('brotli', 11)).toBe(11);
+    expect(() => CompressionUtil.resolveLevel('brotli', 12)).toThrow('between 0 and 11');
+    expect(() => CompressionUtil.resolveLevel('gzip', 0)).toThrow('between 1 and 9');
+    expect(() => CompressionUtil.resolveLevel('zstd' as CompressionCodec)).toThrow('Unsupported compression codec');
+  });
+
+  it('should fail on corrupted input', async () => {
+    const compressed = await CompressionUtil.compress(buffer, 'gzip');
+
+    await expect(CompressionUtil.decompress(compressed.subarray(0, 20), 'gzip')).rejects.toThrow();
+  });
+});
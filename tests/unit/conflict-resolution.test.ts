@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import SqliteCloudBackup from '../../src/index';
+import { ConflictStrategy, SyncConflict } from '../../src/types';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+// Two devices sharing one backup folder
+describe('Conflict resolution', () => {
+  const testDir = path.join(__dirname, 'test-conflict-resolution');
+  const backupDir = path.join(testDir, 'backups');
+  const laptopPath = path.join(testDir, 'laptop', 'notes.db');
+  const desktopPath = path.join(testDir, 'desktop', 'notes.db');
+
+  const createDevice = (dbPath: string, conflictStrategy?: ConflictStrategy) => new SqliteCloudBackup({
+    dbPath,
+    provider: 'filesystem',
+    credentials: { basePath: backupDir },
+    options: { logLevel: 'error', conflictStrategy }
+  });
+
+  const insert = (dbPath: string, value: string) => {
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO notes (value) VALUES (?)').run(value);
+    db.close();
+  };
+
+  const readValues = (dbPath: string) => {
+    const db = new Database(dbPath, { readonly: true });
+    const rows = db.prepare('SELECT value FROM notes ORDER BY id').all() as { value: string }[];
+    db.close();
+    return rows.map(row => row.value);
+  };
+
+  const cloudPath = path.join(backupDir, '.sqlite-cloud-backup', 'notes', 'current.db');
+
+  // Laptop and desktop start from the same database, then both add a row
+  const createConflict = async (conflictStrategy?: ConflictStrategy) => {
+    const laptop = createDevice(laptopPath, conflictStrategy);
+    const desktop = createDevice(desktopPath);
+
+    await laptop.pushToCloud();
+    await desktop.pullFromCloud();
+
+    insert(desktopPath, 'desktop');
+    await desktop.sync();
+    insert(laptopPath, 'laptop');
+
+    return laptop;
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(laptopPath), { recursive: true });
+    fs.mkdirSync(path.dirname(desktopPath), { recursive: true });
+
+    const db = new Database(laptopPath);
+    db.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY, value TEXT)');
+    db.prepare('INSERT INTO notes (value) VALUES (?)').run('shared');
+    db.close();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep the local database with keep-local', async () => {
+    const laptop = await createConflict('keep-local');
+
+    const result = await laptop.sync();
+
+    expect(result.state).toBe('conflict');
+    expect(result.type).toBe('push');
+    expect(readValues(cloudPath)).toEqual(['shared', 'laptop']);
+  });
+
+  it('should keep the cloud database with keep-cloud', async () => {
+    const laptop = await createConflict('keep-cloud');
+
+    const result = await laptop.sync();
+
+    expect(result.type).toBe('pull');
+    expect(readValues(laptopPath)).toEqual(['shared', 'desktop']);
+  });
+
+  describe('manual', () => {
+    it('should report the conflict and leave both sides untouched', async () => {
+      const laptop = await createConflict('manual');
+      const cloudBefore = fs.readFileSync(cloudPath);
+
+      const result = await laptop.sync();
+
+      expect(result.state).toBe('conflict');
+      expect(result.type).toBe('bidirectional');
+      expect(result.conflict).toBeDefined();
+      expect(readValues(result.conflict!.local.path)).toEqual(['shared', 'laptop']);
+      expect(readValues(result.conflict!.cloud.path)).toEqual(['shared', 'desktop']);
+      expect(readValues(laptopPath)).toEqual(['shared', 'laptop']);
+      expect(fs.readFileSync(cloudPath).equals(cloudBefore)).toBe(true);
+
+      // Syncing again reports the same conflict
+      const again = await laptop.sync();
+      expect(again.conflict?.id).toBe(result.conflict!.id);
+    });
+
+    it('should finish the sync with resolveConflict()', async () => {
+      const laptop = await createConflict('manual');
+      const { conflict } = await laptop.sync();
+
+      const result = await laptop.resolveConflict(conflict!.id, 'cloud');
+
+      expect(result.type).toBe('pull');
+      expect(readValues(laptopPath)).toEqual(['shared', 'desktop']);
+      expect(fs.existsSync(conflict!.local.path)).toBe(false);
+      expect(fs.existsSync(conflict!.cloud.path)).toBe(false);
+      expect((await laptop.sync()).state).toBe('unchanged');
+    });
+
+    it('should reject unknown conflict ids', async () => {
+      const laptop = await createConflict('manual');
+      await laptop.sync();
+
+      await expect(laptop.resolveConflict('missing', 'local')).rejects.toThrow('Conflict not found');
+    });
+
+    it('should refuse to resolve against a cloud copy that changed since', async () => {
+      const laptop = await createConflict('manual');
+      const { conflict } = await laptop.sync();
+
+      insert(desktopPath, 'desktop again');
+      await createDevice(desktopPath).sync();
+
+      await expect(laptop.resolveConflict(conflict!.id, 'local')).rejects.toThrow('Cloud database changed');
+      expect(readValues(cloudPath)).toEqual(['shared', 'desktop', 'desktop again']);
+    });
+  });
+
+  describe('merge', () => {
+    const createDivergedDevices = async () => {
+      const laptop = createDevice(laptopPath, 'merge');
+      const desktop = createDevice(desktopPath, 'merge');
+
+      await laptop.pushToCloud();
+      await desktop.pullFromCloud();
+
+      const edit = (dbPath: string, sql: string) => {
+        const db = new Database(dbPath);
+        db.exec(sql);
+        db.close();
+      };
+      edit(desktopPath, "INSERT INTO notes VALUES (20, 'desktop')");
+      await desktop.sync();
+      edit(laptopPath, "INSERT INTO notes VALUES (10, 'laptop'); UPDATE notes SET value = 'shared, edited' WHERE id = 1;");
+
+      return laptop;
+    };
+
+    it('should merge rows changed on both devices', async () => {
+      const laptop = await createDivergedDevices();
+
+      const result = await laptop.sync();
+
+      expect(result.state).toBe('conflict');
+      expect(result.type).toBe('push');
+      expect(result.merge).toEqual({ rowsApplied: 1, conflicts: 0 });
+      expect(readValues(laptopPath)).toEqual(['shared, edited', 'laptop', 'desktop']);
+      expect(readValues(cloudPath)).toEqual(['shared, edited', 'laptop', 'desktop']);
+      expect((await laptop.sync()).state).toBe('unchanged');
+    });
+
+    it('should fall back to the cloud snapshot of the last sync as merge base', async () => {
+      const laptop = await createDivergedDevices();
+      fs.rmSync(path.join(testDir, 'laptop', '.sqlite-cloud-backup', 'notes', 'base.db'));
+
+      const result = await laptop.sync();
+
+      expect(result.merge?.rowsApplied).toBe(1);
+      expect(readValues(cloudPath)).toEqual(['shared, edited', 'laptop', 'desktop']);
+    });
+
+    it('should pass conflicting rows to the row conflict resolver', async () => {
+      const laptop = await createConflict('merge');
+      laptop.setRowConflictResolver((conflict) => ({ ...conflict.local, value: 'both' }));
+
+      const result = await laptop.sync();
+
+      expect(result.merge).toEqual({ rowsApplied: 1, conflicts: 1 });
+      expect(readValues(cloudPath)).toEqual(['shared', 'both']);
+    });
+  });
+
+  describe('custom', () => {
+    it('should publish a merged database from the resolver', async () => {
+      const laptop = await createConflict('custom');
+      let received: SyncConflict | null = null;
+
+      laptop.setConflictResolver((conflict) => {
+        received = conflict;
+
+        // Append the cloud-only rows to the local copy
+        const db = new Database(conflict.local.path);
+        db.exec(`ATTACH DATABASE '${conflict.cloud.path}' AS cloud`);
+        db.exec('INSERT INTO notes (value) SELECT value FROM cloud.notes WHERE id > 1');
+        db.exec('DETACH DATABASE cloud');
+        db.close();
+
+        return { mergedPath: conflict.local.path };
+      });
+
+      const result = await laptop.sync();
+
+      expect(result.state).toBe('conflict');
+      expect(result.type).toBe('push');
+      expect(received!.baseChecksum).not.toBe('');
+      expect(readValues(laptopPath)).toEqual(['shared', 'laptop', 'desktop']);
+      expect(readValues(cloudPath)).toEqual(['shared', 'laptop', 'desktop']);
+      expect(fs.existsSync(received!.local.path)).toBe(false);
+    });
+
+    it('should require a resolver', async () => {
+      const laptop = await createConflict('custom');
+
+      await expect(laptop.sync()).rejects.toThrow('No conflict resolver set');
+    });
+  });
+});
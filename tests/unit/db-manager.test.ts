@@ -4,6 +4,7 @@ import { Logger } from '../../src/utils/logger';
 import fs from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
+import { ChecksumUtil } from '../../src/utils/checksum';
 
 describe('DatabaseManager', () => {
   const testDir = path.join(__dirname, 'test-db-manager');
@@ -69,6 +70,61 @@ describe('DatabaseManager', () => {
     });
   });
 
+  describe('snapshots', () => {
+    it('should include committed pages still in the WAL', async () => {
+      // App keeps its own connection open without checkpointing
+      const appDb = new Database(testDbPath);
+      appDb.pragma('journal_mode = WAL');
+      appDb.pragma('wal_autocheckpoint = 0');
+      const insert = appDb.prepare('INSERT INTO test (value) VALUES (?)');
+      for (let i = 0; i < 50; i++) insert.run(`wal row ${i}`);
+
+      try {
+        const buffer = await dbManager.getBuffer();
+        const copyPath = path.join(testDir, 'copy.db');
+        fs.writeFileSync(copyPath, buffer);
+
+        const copy = new Database(copyPath, { readonly: true });
+        const { count } = copy.prepare('SELECT COUNT(*) as count FROM test').get() as { count: number };
+        copy.close();
+
+        expect(count).toBe(51);
+      } finally {
+        appDb.close();
+      }
+    });
+
+    it('should produce the same checksum as the uploaded buffer', async () => {
+      const buffer = await dbManager.getBuffer();
+      const checksum = await dbManager.getChecksum();
+
+      expect(ChecksumUtil.calculateBufferChecksum(buffer)).toBe(checksum);
+    });
+
+    it('should keep the checksum stable after replacing with a snapshot', async () => {
+      const buffer = await dbManager.getBuffer();
+      const checksum = await dbManager.getChecksum();
+
+      await dbManager.replaceWithBuffer(buffer);
+
+      expect(await dbManager.getChecksum()).toBe(checksum);
+    });
+
+    it('should clean up temporary snapshot files', async () => {
+      await dbManager.getBuffer();
+      await dbManager.getChecksum();
+
+      const metadataDir = path.join(testDir, '.sqlite-cloud-backup', 'test');
+      const leftovers = fs.readdirSync(metadataDir).filter(name => name.startsWith('snapshot-'));
+      expect(leftovers).toEqual([]);
+    });
+
+    it('should throw when database does not exist', async () => {
+      const missing = new DatabaseManager(path.join(testDir, 'missing.db'), logger);
+      await expect(missing.getBuffer()).rejects.toThrow('Database not found');
+    });
+  });
+
   describe('getChecksum', () => {
     it('should return consistent checksum', async () => {
       const checksum1 = await dbManager.getChecksum();
@@ -125,6 +181,26 @@ describe('DatabaseManager', () => {
     });
   });
 
+  describe('replaceWithFile', () => {
+    it('should move the file over the database and drop a stale WAL', async () => {
+      const tempDb = path.join(testDir, 'temp.db');
+      const db = new Database(tempDb);
+      db.exec('CREATE TABLE other (id INTEGER PRIMARY KEY, name TEXT)');
+      db.close();
+      fs.writeFileSync(`${testDbPath}-wal`, 'stale');
+
+      await dbManager.replaceWithFile(tempDb);
+
+      const replacedDb = new Database(testDbPath);
+      const tables = replacedDb.prepare("SELECT name FROM sqlite_master WHERE type='table'").all();
+      replacedDb.close();
+
+      expect(tables.some((t: { name: string }) => t.name === 'other')).toBe(true);
+      expect(fs.existsSync(tempDb)).toBe(false);
+      expect(fs.existsSync(`${testDbPath}-wal`)).toBe(false);
+    });
+  });
+
   describe('metadata operations', () => {
     it('should return default metadata when none exists', async () => {
       const metadata = await dbManager.getLocalMetadata();
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import SqliteCloudBackup, { FilesystemProvider, Logger, SyncOptions } from '../../src/index';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+describe('Device registry', () => {
+  const testDir = path.join(__dirname, 'test-devices');
+  const backupDir = path.join(testDir, 'backups');
+  const cloudFolder = path.join(backupDir, '.sqlite-cloud-backup', 'app');
+  const laptopPath = path.join(testDir, 'laptop', 'app.db');
+  const desktopPath = path.join(testDir, 'desktop', 'app.db');
+
+  // Fails writes to the devices folder
+  class NoDevicesProvider extends FilesystemProvider {
+    constructor() {
+      super({ basePath: backupDir }, 'app', new Logger('error'));
+    }
+
+    async uploadFile(fileName: string, data: Buffer): Promise<void> {
+      if (fileName.startsWith('devices/')) throw new Error('permission denied');
+      return super.uploadFile(fileName, data);
+    }
+  }
+
+  const createBackup = (
+    dbPath: string,
+    options: SyncOptions = {},
+    provider = new FilesystemProvider({ basePath: backupDir }, 'app', new Logger('error'))
+  ) => new SqliteCloudBackup({ dbPath, provider, options: { logLevel: 'error', ...options } });
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(laptopPath), { recursive: true });
+    const db = new Database(laptopPath);
+    db.exec("CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES ('hello');");
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should record each device with its last push and pull', async () => {
+    const laptop = createBackup(laptopPath, { deviceId: 'laptop', deviceName: 'Work laptop', appVersion: '2.1.0' });
+    const desktop = createBackup(desktopPath, { deviceId: 'desktop' });
+
+    const pushed = await laptop.pushToCloud();
+    const pulled = await desktop.pullFromCloud();
+
+    const devices = await laptop.listDevices();
+    expect(devices.map(device => device.id)).toEqual(['desktop', 'laptop']);
+    expect(devices[1]).toEqual({
+      id: 'laptop',
+      name: 'Work laptop',
+      hostname: os.hostname(),
+      platform: process.platform,
+      appVersion: '2.1.0',
+      lastPushAt: pushed.timestamp,
+      lastSeenAt: pushed.timestamp,
+      lastSeenChecksum: pushed.cloudChecksum,
+      lastSeenGeneration: 1,
+      thisDevice: true
+    });
+    expect(devices[0]).toMatchObject({ name: os.hostname(), lastPullAt: pulled.timestamp, thisDevice: false });
+    expect(devices[0].lastPushAt).toBeUndefined();
+  });
+
+  it('should keep the last push time across pulls and restarts', async () => {
+    const pushed = await createBackup(laptopPath).pushToCloud();
+    const synced = await createBackup(laptopPath).sync();
+
+    const [device] = await createBackup(laptopPath).listDevices();
+    expect(device).toMatchObject({ lastPushAt: pushed.timestamp, lastSeenAt: synced.timestamp });
+  });
+
+  it('should record the pushing device in the cloud metadata', async () => {
+    const laptop = createBackup(laptopPath, { deviceId: 'laptop' });
+    await laptop.pushToCloud();
+
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+    expect(metadata.deviceId).toBe('laptop');
+  });
+
+  it('should forget a device', async () => {
+    const laptop = createBackup(laptopPath, { deviceId: 'laptop' });
+    await laptop.pushToCloud();
+    await createBackup(desktopPath, { deviceId: 'desktop' }).pullFromCloud();
+
+    await laptop.forgetDevice('desktop');
+
+    expect((await laptop.listDevices()).map(device => device.id)).toEqual(['laptop']);
+  });
+
+  it('should not fail a sync when the device record cannot be written', async () => {
+    const backup = createBackup(laptopPath, {}, new NoDevicesProvider());
+
+    await expect(backup.pushToCloud()).resolves.toMatchObject({ success: true });
+    expect(await backup.listDevices()).toEqual([]);
+  });
+});
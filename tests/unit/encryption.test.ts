@@ -0,0 +1,367 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EncryptionKey, EncryptionUtil } from '../../src/utils/encryption';
+import SqliteCloudBackup, { EncryptionOptions, FilesystemProvider, Logger } from '../../src/index';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+describe('EncryptionUtil', () => {
+  const plaintext = Buffer.from('SQLite format 3\0 customer data');
+
+  it('should round-trip with a passphrase', async () => {
+    const key = new EncryptionKey({ passphrase: 'correct horse battery staple', keyId: 'k' });
+
+    const encrypted = await EncryptionUtil.encrypt(plaintext, key);
+
+    expect(EncryptionUtil.isEncrypted(encrypted)).toBe(true);
+    expect(encrypted.includes(Buffer.from('customer data'))).toBe(false);
+    expect(await EncryptionUtil.decrypt(encrypted, key)).toEqual(plaintext);
+  });
+
+  it('should round-trip with a raw key and use a fresh salt per file', async () => {
+    const key = new EncryptionKey({ key: crypto.randomBytes(32), keyId: 'k' });
+
+    const first = await EncryptionUtil.encrypt(plaintext, key);
+    const second = await EncryptionUtil.encrypt(plaintext, key);
+
+    expect(first.equals(second)).toBe(false);
+    expect(await EncryptionUtil.decrypt(second, key)).toEqual(plaintext);
+  });
+
+  it('should record the key id in the header', async () => {
+    const key = new EncryptionKey({ key: crypto.randomBytes(32), keyId: '2024-q1' });
+
+    const encrypted = await EncryptionUtil.encrypt(plaintext, key);
+
+    expect(EncryptionUtil.readHeader(encrypted)).toEqual({ version: 1, keyId: '2024-q1' });
+  });
+
+  it('should reject a different key', async () => {
+    const encrypted = await EncryptionUtil.encrypt(plaintext, new EncryptionKey({ passphrase: 'one', keyId: 'k' }));
+
+    await expect(EncryptionUtil.decrypt(encrypted, new EncryptionKey({ passphrase: 'two', keyId: 'k' })))
+      .rejects.toThrow('Decryption failed');
+    await expect(EncryptionUtil.decrypt(encrypted, new EncryptionKey({ passphrase: 'one', keyId: 'other' })))
+      .rejects.toThrow('encrypted with key "k"');
+  });
+
+  it('should detect tampering with the ciphertext or header', async () => {
+    const key = new EncryptionKey({ key: crypto.randomBytes(32), keyId: 'k' });
+    const encrypted = await EncryptionUtil.encrypt(plaintext, key);
+
+    const flippedBody = Buffer.from(encrypted);
+    flippedBody[flippedBody.length - 20] ^= 1;
+    await expect(EncryptionUtil.decrypt(flippedBody, key)).rejects.toThrow('Decryption failed');
+
+    const flippedSalt = Buffer.from(encrypted);
+    flippedSalt[10] ^= 1;
+    await expect(EncryptionUtil.decrypt(flippedSalt, key)).rejects.toThrow('Decryption failed');
+  });
+
+  it('should validate options', () => {
+    expect(() => new EncryptionKey({ keyId: 'k' })).toThrow('either a passphrase or a key');
+    expect(() => new EncryptionKey({ passphrase: 'a', key: crypto.randomBytes(32), keyId: 'k' }))
+      .toThrow('either a passphrase or a key');
+    expect(() => new EncryptionKey({ key: Buffer.alloc(16), keyId: 'k' })).toThrow('32 bytes');
+    expect(() => new EncryptionKey({ passphrase: 'a', keyId: '' })).toThrow('requires a keyId');
+    expect(() => new EncryptionKey({ passphrase: 'a' } as EncryptionOptions)).toThrow('requires a keyId');
+  });
+
+  describe('streams', () => {
+    const collect = async (data: Buffer, transform: Transform): Promise<Buffer> => {
+      const chunks: Buffer[] = [];
+      // Small chunks exercise the header and tag boundaries
+      const pieces = Array.from({ length: Math.ceil(data.length / 7) }, (_, i) => data.subarray(i * 7, i * 7 + 7));
+      await pipeline(Readable.from(pieces), transform, async (source: AsyncIterable<Buffer>) => {
+        for await (const chunk of source) chunks.push(chunk);
+      });
+      return Buffer.concat(chunks);
+    };
+
+    it('should produce the same format as encrypt()', async () => {
+      const key = new EncryptionKey({ key: crypto.randomBytes(32), keyId: 'k' });
+
+      const encrypted = await collect(plaintext, await EncryptionUtil.createEncryptStream(key));
+
+      expect(EncryptionUtil.readHeader(encrypted)).toEqual({ version: 1, keyId: 'k' });
+      expect(await EncryptionUtil.decrypt(encrypted, key)).toEqual(plaintext);
+
+      const decrypt = EncryptionUtil.createDecryptStream([key]);
+      expect(await collect(await EncryptionUtil.encrypt(plaintext, key), decrypt)).toEqual(plaintext);
+      expect(decrypt.header).toEqual({ version: 1, keyId: 'k' });
+    });
+
+    it('should pick the key matching the header', async () => {
+      const oldKey = new EncryptionKey({ passphrase: 'old', keyId: 'old' });
+      const newKey = new EncryptionKey({ key: crypto.randomBytes(32), keyId: 'new' });
+      const encrypted = await EncryptionUtil.encrypt(plaintext, newKey);
+
+      expect(await collect(encrypted, EncryptionUtil.createDecryptStream([oldKey, newKey]))).toEqual(plaintext);
+      await expect(collect(encrypted, EncryptionUtil.createDecryptStream([oldKey])))
+        .rejects.toThrow('encrypted with key "new"');
+      await expect(collect(encrypted, EncryptionUtil.createDecryptStream([])))
+        .rejects.toThrow('Set options.encryption');
+    });
+
+    it('should pass unencrypted data through', async () => {
+      const decrypt = EncryptionUtil.createDecryptStream([]);
+
+      expect(await collect(plaintext, decrypt)).toEqual(plaintext);
+      expect(decrypt.header).toBeNull();
+    });
+
+    it('should detect tampering and truncation', async () => {
+      const key = new EncryptionKey({ key: crypto.randomBytes(32), keyId: 'k' });
+      const encrypted = await EncryptionUtil.encrypt(plaintext, key);
+
+      const flipped = Buffer.from(encrypted);
+      flipped[flipped.length - 1] ^= 1;
+      await expect(collect(flipped, EncryptionUtil.createDecryptStream([key]))).rejects.toThrow('Decryption failed');
+      await expect(collect(encrypted.subarray(0, 30), EncryptionUtil.createDecryptStream([key])))
+        .rejects.toThrow('truncated');
+    });
+  });
+});
+
+describe('Encrypted sync', () => {
+  const testDir = path.join(__dirname, 'test-encryption');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'secret.db');
+  const cloudFolder = path.join(backupDir, '.sqlite-cloud-backup', 'secret');
+
+  const createBackup = (passphrase?: string) => new SqliteCloudBackup({
+    dbPath,
+    provider: 'filesystem',
+    credentials: { basePath: backupDir },
+    options: {
+      logLevel: 'error',
+      encryption: passphrase ? { passphrase, keyId: 'main' } : undefined
+    }
+  });
+
+  const readValue = () => {
+    const db = new Database(dbPath, { readonly: true });
+    const row = db.prepare('SELECT value FROM secrets').get() as { value: string };
+    db.close();
+    return row.value;
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const db = new Database(dbPath);
+    db.exec("CREATE TABLE secrets (value TEXT); INSERT INTO secrets VALUES ('customer data');");
+    db.close();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should only upload ciphertext and decrypt on pull', async () => {
+    const backup = createBackup('passphrase');
+    const push = await backup.pushToCloud();
+
+    const uploaded = fs.readFileSync(path.join(cloudFolder, 'current.db'));
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+
+    expect(EncryptionUtil.isEncrypted(uploaded)).toBe(true);
+    expect(uploaded.includes(Buffer.from('customer data'))).toBe(false);
+    expect(metadata.encryption.keyId).toBe('main');
+    expect(push.bytesTransferred).toBe(uploaded.length);
+
+    fs.writeFileSync(dbPath, 'garbage');
+    const pull = await backup.pullFromCloud();
+
+    expect(pull.localChecksum).toBe(push.localChecksum);
+    expect(readValue()).toBe('customer data');
+    expect((await backup.sync()).state).toBe('unchanged');
+  });
+
+  it('should compress before encrypting', async () => {
+    const backup = new SqliteCloudBackup({
+      dbPath,
+      provider: 'filesystem',
+      credentials: { basePath: backupDir },
+      options: { logLevel: 'error', encryption: { passphrase: 'passphrase', keyId: 'main' }, compression: 'gzip' }
+    });
+
+    const push = await backup.pushToCloud();
+    expect(push.bytesTransferred).toBeLessThan(push.rawBytes);
+
+    fs.writeFileSync(dbPath, 'garbage');
+    await backup.pullFromCloud();
+    expect(readValue()).toBe('customer data');
+
+    const [version] = await backup.listVersions();
+    await expect(backup.rotateEncryptionKey({ passphrase: 'passphrase', keyId: 'main' }, { passphrase: 'new', keyId: 'next' }))
+      .resolves.toMatchObject({ rotated: 2 });
+    expect(version.fileName.endsWith('.db.gz')).toBe(true);
+  });
+
+  it('should restore encrypted snapshots', async () => {
+    const backup = createBackup('passphrase');
+    await backup.pushToCloud();
+    const [version] = await backup.listVersions();
+
+    const result = await backup.restore(version.id, { targetPath: path.join(testDir, 'restored.db') });
+
+    expect(result.checksum).toBe(version.checksum);
+  });
+
+  it('should detect corrupted ciphertext before decrypting', async () => {
+    const backup = createBackup('passphrase');
+    await backup.pushToCloud();
+
+    const cloudFile = path.join(cloudFolder, 'current.db');
+    const corrupted = fs.readFileSync(cloudFile);
+    corrupted[corrupted.length - 1] ^= 1;
+    fs.writeFileSync(cloudFile, corrupted);
+
+    await expect(backup.pullFromCloud()).rejects.toThrow('Checksum mismatch');
+  });
+
+  it('should refuse to pull encrypted backups without a key', async () => {
+    await createBackup('passphrase').pushToCloud();
+
+    await expect(createBackup().pullFromCloud()).rejects.toThrow('Set options.encryption');
+    await expect(createBackup('wrong').pullFromCloud()).rejects.toThrow('Decryption failed');
+  });
+
+  it('should read unencrypted backups made before encryption was enabled', async () => {
+    await createBackup().pushToCloud();
+    fs.writeFileSync(dbPath, 'garbage');
+
+    await createBackup('passphrase').pullFromCloud();
+
+    expect(readValue()).toBe('customer data');
+  });
+});
+
+describe('Key rotation', () => {
+  const testDir = path.join(__dirname, 'test-key-rotation');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'secret.db');
+  const cloudFolder = path.join(backupDir, '.sqlite-cloud-backup', 'secret');
+
+  const oldKey = { passphrase: 'leaked passphrase', keyId: 'old' };
+  const newKey = { key: crypto.randomBytes(32), keyId: 'new' };
+
+  const createBackup = (encryption: { keyId: string }, provider?: FilesystemProvider) => new SqliteCloudBackup({
+    dbPath,
+    provider: provider ?? 'filesystem',
+    credentials: { basePath: backupDir },
+    options: { logLevel: 'error', encryption }
+  });
+
+  // Header key id of every stored object
+  const storedKeyIds = () => {
+    const files = ['current.db', ...fs.readdirSync(path.join(cloudFolder, 'versions')).map(f => `versions/${f}`)];
+    return files.map(file => EncryptionUtil.readHeader(fs.readFileSync(path.join(cloudFolder, file))).keyId);
+  };
+
+  // Fails every upload after the first `limit`, not counting the cloud lock
+  class FlakyProvider extends FilesystemProvider {
+    uploads = 0;
+
+    constructor(private limit: number) {
+      super({ basePath: backupDir }, 'secret', new Logger('error'));
+    }
+
+    async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
+      if (fileName !== 'lock.json' && ++this.uploads > this.limit) throw new Error('Connection reset');
+      return super.uploadFile(fileName, buffer);
+    }
+
+    async uploadStream(fileName: string, source: Readable): Promise<void> {
+      if (++this.uploads > this.limit) throw new Error('Connection reset');
+      return super.uploadStream(fileName, source);
+    }
+  }
+
+  beforeEach(async () => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const db = new Database(dbPath);
+    db.exec('CREATE TABLE secrets (value TEXT)');
+
+    const backup = createBackup(oldKey);
+    for (const value of ['first', 'second']) {
+      db.prepare('INSERT INTO secrets VALUES (?)').run(value);
+      await backup.pushToCloud();
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    db.close();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should re-encrypt the current copy and all snapshots', async () => {
+    const result = await createBackup(oldKey).rotateEncryptionKey(oldKey, newKey);
+
+    expect(result).toMatchObject({ fromKeyId: 'old', toKeyId: 'new', rotated: 3, skipped: 0 });
+    expect(storedKeyIds()).toEqual(['new', 'new', 'new']);
+
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+    expect(metadata.encryption.keyId).toBe('new');
+
+    const rotated = createBackup(newKey);
+    await rotated.pullFromCloud();
+    for (const version of await rotated.listVersions()) {
+      await rotated.restore(version.id, { targetPath: path.join(testDir, `${version.id}.db`) });
+    }
+    await expect(createBackup(oldKey).pullFromCloud()).rejects.toThrow('encrypted with key "new"');
+  });
+
+  it('should use the new key for later pushes', async () => {
+    const backup = createBackup(oldKey);
+    await backup.rotateEncryptionKey(oldKey, newKey);
+
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO secrets VALUES (?)').run('third');
+    db.close();
+    await backup.sync();
+
+    expect(new Set(storedKeyIds())).toEqual(new Set(['new']));
+  });
+
+  it('should resume an interrupted rotation without leaving unreadable objects', async () => {
+    const flaky = new FlakyProvider(2);
+    await expect(createBackup(oldKey, flaky).rotateEncryptionKey(oldKey, newKey)).rejects.toThrow('Connection reset');
+
+    // Every object is still readable with one of the keys
+    expect(storedKeyIds().sort()).toEqual(['new', 'new', 'old']);
+    await expect(createBackup(oldKey).pullFromCloud()).resolves.toMatchObject({ success: true });
+
+    const result = await createBackup(oldKey).rotateEncryptionKey(oldKey, newKey);
+
+    expect(result).toMatchObject({ rotated: 1, skipped: 2 });
+    expect(storedKeyIds()).toEqual(['new', 'new', 'new']);
+  });
+
+  it('should finish the metadata update of an interrupted rotation', async () => {
+    // Snapshots and current.db are rotated, but the metadata still names the old key
+    const flaky = new FlakyProvider(3);
+    await expect(createBackup(oldKey, flaky).rotateEncryptionKey(oldKey, newKey)).rejects.toThrow('Connection reset');
+
+    await expect(createBackup(newKey).pullFromCloud()).resolves.toMatchObject({ success: true });
+
+    const result = await createBackup(oldKey).rotateEncryptionKey(oldKey, newKey);
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+
+    expect(result).toMatchObject({ rotated: 0, skipped: 3 });
+    expect(metadata.encryption.keyId).toBe('new');
+  });
+
+  it('should reject rotating to the same key id', async () => {
+    await expect(createBackup(oldKey).rotateEncryptionKey(oldKey, { passphrase: 'other', keyId: 'old' }))
+      .rejects.toThrow('different key id');
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import SqliteCloudBackup, {
+  FilesystemProvider,
+  Logger,
+  SyncError,
+  AuthenticationRequiredError,
+  CloudNotFoundError,
+  ChecksumMismatchError,
+  QuotaExceededError,
+  ProviderError,
+  EncryptionError,
+  DatabaseError,
+  ConfigurationError,
+  errorForStatus
+} from '../../src/index';
+import { RetryPolicy, toProviderError } from '../../src/utils/retry';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Readable } from 'stream';
+
+describe('Error classes', () => {
+  it('should carry a stable code and name', () => {
+    const cause = new Error('socket hang up');
+    const error = new CloudNotFoundError('No cloud version found', { cause });
+
+    expect(error).toBeInstanceOf(SyncError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.code).toBe('CLOUD_NOT_FOUND');
+    expect(error.name).toBe('CloudNotFoundError');
+    expect(error.cause).toBe(cause);
+    expect(new ChecksumMismatchError().message).toBe('Checksum mismatch - data corruption detected');
+  });
+
+  it('should wrap unknown errors and pass typed ones through', () => {
+    const typed = new DatabaseError('Database not found: app.db');
+    const wrapped = SyncError.wrap(new TypeError('boom'));
+
+    expect(SyncError.wrap(typed)).toBe(typed);
+    expect(wrapped.code).toBe('UNKNOWN');
+    expect(wrapped.message).toBe('boom');
+  });
+
+  it('should map HTTP statuses to typed errors', () => {
+    expect(errorForStatus('Unauthorized', 401)).toBeInstanceOf(AuthenticationRequiredError);
+    expect(errorForStatus('Gone', 404)).toBeInstanceOf(CloudNotFoundError);
+    expect(errorForStatus('Insufficient storage', 507)).toBeInstanceOf(QuotaExceededError);
+
+    const unavailable = errorForStatus('Unavailable', 503, '5') as ProviderError;
+    expect(unavailable).toBeInstanceOf(ProviderError);
+    expect(unavailable.status).toBe(503);
+    expect(unavailable.retryAfter).toBe('5');
+  });
+
+  it('should convert SDK errors into typed errors', () => {
+    const gaxios = Object.assign(new Error('invalid_grant'), { response: { status: 400, data: { error: 'invalid_grant' } } });
+    const noSuchKey = Object.assign(new Error('No such key'), { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } });
+    const diskFull = Object.assign(new Error('no space left on device'), { code: 'ENOSPC' });
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    expect(toProviderError(gaxios)).toBeInstanceOf(AuthenticationRequiredError);
+    expect(toProviderError(noSuchKey)).toBeInstanceOf(CloudNotFoundError);
+    expect(toProviderError(diskFull)).toBeInstanceOf(QuotaExceededError);
+
+    // Wrapping keeps dropped connections retryable
+    const wrapped = toProviderError(reset);
+    expect(wrapped).toBeInstanceOf(ProviderError);
+    expect(wrapped.message).toBe('socket hang up');
+    expect(RetryPolicy.classify(wrapped)).toBe('transient');
+  });
+});
+
+describe('Sync errors', () => {
+  const testDir = path.join(__dirname, 'test-errors');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'app.db');
+
+  class BrokenProvider extends FilesystemProvider {
+    fault: (() => Error) | null = null;
+    streamFault: (() => Error) | null = null;
+
+    constructor() {
+      super({ basePath: backupDir }, 'app', new Logger('error'));
+    }
+
+    async uploadStream(fileName: string, source: Readable): Promise<void> {
+      if (this.fault) throw this.fault();
+      return super.uploadStream(fileName, source);
+    }
+
+    async downloadStream(fileName: string): Promise<Readable> {
+      const stream = await super.downloadStream(fileName);
+      if (!this.streamFault) return stream;
+
+      const fault = this.streamFault;
+      return Readable.from((async function* () {
+        yield Buffer.from('partial');
+        throw fault();
+      })());
+    }
+  }
+
+  const createBackup = (provider = new BrokenProvider(), passphrase?: string) => new SqliteCloudBackup({
+    dbPath,
+    provider,
+    options: {
+      logLevel: 'error',
+      retry: { maxRetries: 0 },
+      encryption: passphrase ? { passphrase, keyId: 'main' } : undefined
+    }
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const db = new Database(dbPath);
+    db.exec("CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES ('hello');");
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should throw CloudNotFoundError when there is nothing to pull', async () => {
+    await expect(createBackup().pullFromCloud()).rejects.toMatchObject({
+      code: 'CLOUD_NOT_FOUND',
+      message: 'No cloud version found'
+    });
+  });
+
+  it('should throw ChecksumMismatchError for corrupted cloud data', async () => {
+    const backup = createBackup();
+    await backup.pushToCloud();
+    fs.writeFileSync(path.join(backupDir, '.sqlite-cloud-backup', 'app', 'current.db'), 'corrupted');
+
+    await expect(backup.pullFromCloud()).rejects.toBeInstanceOf(ChecksumMismatchError);
+  });
+
+  it('should throw DatabaseError when the local database is missing', async () => {
+    const backup = createBackup();
+    fs.rmSync(dbPath);
+
+    await expect(backup.pushToCloud()).rejects.toBeInstanceOf(DatabaseError);
+  });
+
+  it('should throw EncryptionError for the wrong passphrase', async () => {
+    await createBackup(new BrokenProvider(), 'right').pushToCloud();
+
+    await expect(createBackup(new BrokenProvider(), 'wrong').pullFromCloud()).rejects.toBeInstanceOf(EncryptionError);
+  });
+
+  it('should throw ConfigurationError for invalid options', async () => {
+    const error = await createBackup()
+      .rotateEncryptionKey({ passphrase: 'old', keyId: 'k1' }, { passphrase: 'new', keyId: 'k1' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error.code).toBe('INVALID_CONFIG');
+    expect(() => new FilesystemProvider({ basePath: '' }, 'app', new Logger('error'))).toThrow(ConfigurationError);
+  });
+
+  it('should convert raw provider failures', async () => {
+    const provider = new BrokenProvider();
+    provider.fault = () => Object.assign(new Error('Request had invalid authentication credentials'), { status: 401 });
+
+    await expect(createBackup(provider).pushToCloud()).rejects.toBeInstanceOf(AuthenticationRequiredError);
+
+    provider.fault = () => Object.assign(new Error('Backend error'), { status: 500 });
+    await expect(createBackup(provider).pushToCloud()).rejects.toMatchObject({ code: 'PROVIDER_ERROR', status: 500 });
+  });
+
+  it('should convert failures in the middle of a download', async () => {
+    const provider = new BrokenProvider();
+    const backup = createBackup(provider);
+    await backup.pushToCloud();
+
+    provider.streamFault = () => Object.assign(new Error('Quota exceeded'), {
+      response: { status: 403, data: { error: { errors: [{ reason: 'dailyLimitExceeded' }] } } }
+    });
+
+    await expect(backup.pullFromCloud()).rejects.toBeInstanceOf(QuotaExceededError);
+  });
+});
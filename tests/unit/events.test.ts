@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import SqliteCloudBackup, { CloudNotFoundError, FilesystemProvider, Logger, SyncOptions } from '../../src/index';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+describe('Sync events', () => {
+  const testDir = path.join(__dirname, 'test-events');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'device1', 'app.db');
+  const otherDbPath = path.join(testDir, 'device2', 'app.db');
+
+  const createBackup = (options: SyncOptions = {}, databasePath = dbPath) => new SqliteCloudBackup({
+    dbPath: databasePath,
+    provider: new FilesystemProvider({ basePath: backupDir }, 'app', new Logger('error')),
+    options: { logLevel: 'error', ...options }
+  });
+
+  // Records every event a backup emits, in order
+  const record = (backup: SqliteCloudBackup) => {
+    const events: Array<[string, unknown]> = [];
+    for (const name of ['sync-start', 'progress', 'sync-complete', 'sync-error', 'conflict-detected'] as const) {
+      backup.on(name, (payload: unknown) => events.push([name, payload]));
+    }
+    return events;
+  };
+
+  const writeNote = (databasePath: string, body: string) => {
+    const db = new Database(databasePath);
+    db.prepare('INSERT INTO notes VALUES (?)').run(body);
+    db.close();
+  };
+
+  beforeEach(() => {
+    for (const databasePath of [dbPath, otherDbPath]) {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+      const db = new Database(databasePath);
+      db.exec("CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES ('hello');");
+      db.close();
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should emit start, progress and complete for a push', async () => {
+    const backup = createBackup();
+    const events = record(backup);
+
+    const result = await backup.pushToCloud();
+
+    expect(events[0]).toEqual(['sync-start', { type: 'push' }]);
+    expect(events.at(-1)).toEqual(['sync-complete', result]);
+
+    const progress = events.filter(([name]) => name === 'progress').map(([, payload]) => payload);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress.at(-1)).toMatchObject({ phase: 'upload', fileName: 'current.db', bytesDone: result.bytesTransferred });
+  });
+
+  it('should report download progress against the file size', async () => {
+    const push = await createBackup().pushToCloud();
+    const backup = createBackup();
+    const events = record(backup);
+
+    await backup.pullFromCloud();
+
+    const progress = events.filter(([name]) => name === 'progress').map(([, payload]) => payload);
+    expect(progress.at(-1)).toEqual({
+      phase: 'download',
+      fileName: 'current.db',
+      bytesDone: push.bytesTransferred,
+      bytesTotal: push.bytesTransferred
+    });
+  });
+
+  it('should emit one start and complete pair for sync()', async () => {
+    const backup = createBackup();
+    const events = record(backup);
+
+    await backup.sync();
+
+    const lifecycle = events.filter(([name]) => name !== 'progress').map(([name]) => name);
+    expect(lifecycle).toEqual(['sync-start', 'sync-complete']);
+    expect(events[0]).toEqual(['sync-start', { type: 'bidirectional' }]);
+  });
+
+  it('should emit sync-error with the typed error', async () => {
+    const backup = createBackup();
+    const events = record(backup);
+
+    await expect(backup.pullFromCloud()).rejects.toBeInstanceOf(CloudNotFoundError);
+
+    expect(events).toEqual([
+      ['sync-start', { type: 'pull' }],
+      ['sync-error', { type: 'pull', error: expect.any(CloudNotFoundError) }]
+    ]);
+  });
+
+  it('should emit conflict-detected when both sides changed', async () => {
+    const device1 = createBackup({ conflictStrategy: 'manual' });
+    const device2 = createBackup({ conflictStrategy: 'manual' }, otherDbPath);
+    await device1.sync();
+    await device2.sync();
+
+    writeNote(dbPath, 'from device 1');
+    await device1.sync();
+    writeNote(otherDbPath, 'from device 2');
+
+    const events = record(device2);
+    const result = await device2.sync();
+
+    expect(result.state).toBe('conflict');
+    expect(events.find(([name]) => name === 'conflict-detected')?.[1]).toEqual({
+      strategy: 'manual',
+      localChecksum: result.localChecksum,
+      cloudChecksum: result.cloudChecksum,
+      baseChecksum: expect.any(String)
+    });
+  });
+
+  it('should report chunked progress over the database size', async () => {
+    const backup = createBackup({ storage: 'chunked', chunkSize: 4096 });
+    const events = record(backup);
+
+    const result = await backup.pushToCloud();
+
+    const progress = events.filter(([name]) => name === 'progress').map(([, payload]) => payload);
+    expect(progress).toHaveLength(result.chunks!.total);
+    expect(progress.at(-1)).toEqual({
+      phase: 'upload',
+      fileName: 'chunks',
+      bytesDone: result.rawBytes,
+      bytesTotal: result.rawBytes
+    });
+  });
+});
@@ -70,7 +70,7 @@ describe('FileOperations', () => {
       await FileOperations.copyFile(sourceFile, destFile);
 
       // Temp file should not exist after copy
-      expect(fs.existsSync(`${destFile}.tmp`)).toBe(false);
+      expect(fs.readdirSync(testDir).filter(name => name.endsWith('.tmp'))).toEqual([]);
       expect(fs.existsSync(destFile)).toBe(true);
     });
 
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FilesystemProvider } from '../../src/providers/filesystem';
+import { Logger } from '../../src/utils/logger';
+import { SyncMetadata } from '../../src/types';
+import { ConflictError } from '../../src/errors';
+import SqliteCloudBackup from '../../src/index';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Readable } from 'stream';
+
+describe('FilesystemProvider', () => {
+  const testDir = path.join(__dirname, 'test-filesystem-provider');
+  const backupDir = path.join(testDir, 'backups');
+  const dbFolder = path.join(backupDir, '.sqlite-cloud-backup', 'test');
+  let provider: FilesystemProvider;
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    provider = new FilesystemProvider({ basePath: backupDir }, 'test', new Logger('error'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should require a basePath', () => {
+    expect(() => new FilesystemProvider({ basePath: '' }, 'test', new Logger('error')))
+      .toThrow('requires a basePath');
+  });
+
+  describe('uploadFile/downloadFile', () => {
+    it('should write files into the db folder layout', async () => {
+      await provider.uploadFile('current.db', Buffer.from('database content'));
+
+      expect(fs.readFileSync(path.join(dbFolder, 'current.db'), 'utf-8')).toBe('database content');
+      expect(fs.readdirSync(dbFolder).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should overwrite existing files', async () => {
+      await provider.uploadFile('current.db', Buffer.from('first'));
+      await provider.uploadFile('current.db', Buffer.from('second'));
+
+      const buffer = await provider.downloadFile('current.db');
+      expect(buffer.toString()).toBe('second');
+    });
+
+    it('should throw when downloading a missing file', async () => {
+      await expect(provider.downloadFile('current.db')).rejects.toThrow('File not found');
+    });
+  });
+
+  describe('uploadStream/downloadStream', () => {
+    it('should stream files into place', async () => {
+      await provider.uploadStream('current.db', Readable.from([Buffer.from('database '), Buffer.from('content')]));
+
+      expect(fs.readFileSync(path.join(dbFolder, 'current.db'), 'utf-8')).toBe('database content');
+      expect(fs.readdirSync(dbFolder).filter(name => name.endsWith('.tmp'))).toEqual([]);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of await provider.downloadStream('current.db')) chunks.push(chunk);
+      expect(Buffer.concat(chunks).toString()).toBe('database content');
+    });
+
+    it('should leave the existing file when the source stream fails', async () => {
+      await provider.uploadFile('current.db', Buffer.from('original'));
+
+      const failing = new Readable({
+        read() {
+          this.destroy(new Error('Read failed'));
+        }
+      });
+      await expect(provider.uploadStream('current.db', failing)).rejects.toThrow('Read failed');
+
+      expect(fs.readFileSync(path.join(dbFolder, 'current.db'), 'utf-8')).toBe('original');
+      expect(fs.readdirSync(dbFolder).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should not mix up concurrent writers of the same file', async () => {
+      const other = new FilesystemProvider({ basePath: backupDir }, 'test', new Logger('error'));
+      const first = Buffer.alloc(1024 * 1024, 1);
+      const second = Buffer.alloc(1024 * 1024, 2);
+
+      await Promise.all([
+        provider.uploadStream('current.db', Readable.from([first.subarray(0, 65536), first.subarray(65536)])),
+        other.uploadStream('current.db', Readable.from([second.subarray(0, 65536), second.subarray(65536)]))
+      ]);
+
+      const stored = fs.readFileSync(path.join(dbFolder, 'current.db'));
+      expect(stored.equals(first) || stored.equals(second)).toBe(true);
+      expect(fs.readdirSync(dbFolder).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should throw when streaming a missing file', async () => {
+      await expect(provider.downloadStream('current.db')).rejects.toThrow('File not found');
+    });
+  });
+
+  describe('fileExists/deleteFile', () => {
+    it('should report and delete existing files', async () => {
+      expect(await provider.fileExists('current.db')).toBe(false);
+
+      await provider.uploadFile('current.db', Buffer.from('data'));
+      expect(await provider.fileExists('current.db')).toBe(true);
+
+      await provider.deleteFile('current.db');
+      expect(await provider.fileExists('current.db')).toBe(false);
+    });
+
+    it('should ignore deleting a missing file', async () => {
+      await expect(provider.deleteFile('current.db')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('listFiles/copyFile', () => {
+    it('should list files in a subfolder', async () => {
+      expect(await provider.listFiles('versions')).toEqual([]);
+
+      await provider.uploadFile('versions/a.db', Buffer.from('a'));
+      await provider.uploadFile('versions/b.db', Buffer.from('b'));
+
+      expect((await provider.listFiles('versions')).sort()).toEqual(['versions/a.db', 'versions/b.db']);
+    });
+
+    it('should copy files into subfolders', async () => {
+      await provider.uploadFile('current.db', Buffer.from('snapshot'));
+      await provider.copyFile('current.db', 'versions/1.db');
+
+      expect(fs.readFileSync(path.join(dbFolder, 'versions', '1.db'), 'utf-8')).toBe('snapshot');
+    });
+
+    it('should throw when copying a missing file', async () => {
+      await expect(provider.copyFile('current.db', 'versions/1.db')).rejects.toThrow('File not found');
+    });
+  });
+
+  describe('metadata', () => {
+    it('should return null when no metadata exists', async () => {
+      expect(await provider.getMetadata('current.db')).toBeNull();
+    });
+
+    it('should store metadata and report file size', async () => {
+      const metadata: SyncMetadata = {
+        dbName: 'current',
+        lastSyncTimestamp: 1000,
+        lastSyncType: 'push',
+        checksum: 'abc123',
+        version: 1
+      };
+
+      await provider.uploadFile('current.db', Buffer.from('12345'));
+      await provider.updateMetadata(metadata);
+
+      const result = await provider.getMetadata('current.db');
+      expect(result).toEqual({ checksum: 'abc123', modifiedAt: 1000, size: 5, generation: 1, etag: expect.any(String) });
+      expect(fs.existsSync(path.join(dbFolder, 'metadata.json'))).toBe(true);
+    });
+
+    it('should only replace metadata that is unchanged since it was read', async () => {
+      const metadata: SyncMetadata = {
+        dbName: 'current',
+        lastSyncTimestamp: 1000,
+        lastSyncType: 'push',
+        checksum: 'abc123',
+        version: 1
+      };
+
+      await provider.updateMetadata(metadata, { ifMatch: null });
+      await expect(provider.updateMetadata(metadata, { ifMatch: null })).rejects.toThrow(ConflictError);
+
+      const { etag } = (await provider.getMetadata('current.db'))!;
+      await provider.updateMetadata({ ...metadata, version: 2 }, { ifMatch: etag });
+      await expect(provider.updateMetadata({ ...metadata, version: 3 }, { ifMatch: etag })).rejects.toThrow(ConflictError);
+      expect((await provider.getMetadata('current.db'))?.generation).toBe(2);
+    });
+
+    it('should create a file only if it does not exist', async () => {
+      await provider.createFile('lock.json', Buffer.from('first'));
+      await expect(provider.createFile('lock.json', Buffer.from('second'))).rejects.toThrow(ConflictError);
+
+      expect((await provider.downloadFile('lock.json')).toString()).toBe('first');
+      expect(fs.readdirSync(dbFolder).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should create files exclusively on disks without hard links', async () => {
+      const link = vi.spyOn(fs.promises, 'link').mockRejectedValue(Object.assign(new Error('not permitted'), { code: 'EPERM' }));
+
+      try {
+        await provider.createFile('lock.json', Buffer.from('first'));
+        await expect(provider.createFile('lock.json', Buffer.from('second'))).rejects.toThrow(ConflictError);
+      } finally {
+        link.mockRestore();
+      }
+
+      expect((await provider.downloadFile('lock.json')).toString()).toBe('first');
+      expect(fs.readdirSync(dbFolder).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+  });
+
+  describe('with SqliteCloudBackup', () => {
+    it('should push and pull a database end-to-end', async () => {
+      const dbPath = path.join(testDir, 'test.db');
+      const db = new Database(dbPath);
+      db.exec('CREATE TABLE test (id INTEGER PRIMARY KEY, value TEXT)');
+      db.exec("INSERT INTO test (value) VALUES ('original')");
+      db.close();
+
+      const backup = new SqliteCloudBackup({
+        dbPath,
+        provider: 'filesystem',
+        credentials: { basePath: backupDir },
+        options: { logLevel: 'error' }
+      });
+
+      expect(await backup.needsAuthentication()).toBe(false);
+
+      const pushResult = await backup.pushToCloud();
+      expect(pushResult.success).toBe(true);
+      expect(fs.existsSync(path.join(dbFolder, 'current.db'))).toBe(true);
+
+      // Corrupt the local copy, then restore it from the backup folder
+      fs.writeFileSync(dbPath, 'garbage');
+      const pullResult = await backup.pullFromCloud();
+      expect(pullResult.localChecksum).toBe(pushResult.localChecksum);
+
+      const restored = new Database(dbPath);
+      const row = restored.prepare('SELECT value FROM test').get() as { value: string };
+      restored.close();
+      expect(row.value).toBe('original');
+
+      await backup.shutdown();
+    });
+
+    it('should restore a snapshot to another path for inspection', async () => {
+      const dbPath = path.join(testDir, 'test.db');
+      const db = new Database(dbPath);
+      db.exec('CREATE TABLE test (id INTEGER PRIMARY KEY, value TEXT)');
+      db.exec("INSERT INTO test (value) VALUES ('first')");
+      db.close();
+
+      const backup = new SqliteCloudBackup({
+        dbPath,
+        provider: 'filesystem',
+        credentials: { basePath: backupDir },
+        options: { logLevel: 'error' }
+      });
+      await backup.pushToCloud();
+      const [version] = await backup.listVersions();
+
+      const inspectPath = path.join(testDir, 'inspect', 'old.db');
+      const result = await backup.restore(version.id, { targetPath: inspectPath });
+
+      expect(result.targetPath).toBe(inspectPath);
+      const restored = new Database(inspectPath, { readonly: true });
+      const row = restored.prepare('SELECT value FROM test').get() as { value: string };
+      restored.close();
+      expect(row.value).toBe('first');
+
+      // The local database is untouched, so no rollback is recorded
+      const metadata = JSON.parse(fs.readFileSync(path.join(testDir, '.sqlite-cloud-backup', 'test', 'metadata.json'), 'utf-8'));
+      expect(metadata.rollback).toBeUndefined();
+
+      await backup.shutdown();
+    });
+  });
+});
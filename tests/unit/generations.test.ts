@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import SqliteCloudBackup, {
+  ConflictError,
+  FilesystemProvider,
+  Logger,
+  MetadataWriteOptions,
+  SyncMetadata,
+  SyncOptions
+} from '../../src/index';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Readable } from 'stream';
+
+describe('Generations', () => {
+  const testDir = path.join(__dirname, 'test-generations');
+  const backupDir = path.join(testDir, 'backups');
+  const cloudFolder = path.join(backupDir, '.sqlite-cloud-backup', 'app');
+  const laptopPath = path.join(testDir, 'laptop', 'app.db');
+  const desktopPath = path.join(testDir, 'desktop', 'app.db');
+
+  // Runs a callback once, just before the next upload
+  class HookedProvider extends FilesystemProvider {
+    beforeUpload: ((fileName: string) => Promise<unknown>) | null = null;
+
+    constructor() {
+      super({ basePath: backupDir }, 'app', new Logger('error'));
+    }
+
+    async uploadStream(fileName: string, source: Readable): Promise<void> {
+      const hook = this.beforeUpload;
+      this.beforeUpload = null;
+      await hook?.(fileName);
+      return super.uploadStream(fileName, source);
+    }
+  }
+
+  // Applies the next metadata write, then loses its response
+  class LostResponseProvider extends HookedProvider {
+    loseResponse = false;
+
+    async updateMetadata(metadata: SyncMetadata, options?: MetadataWriteOptions): Promise<void> {
+      await super.updateMetadata(metadata, options);
+      if (this.loseResponse) {
+        this.loseResponse = false;
+        throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      }
+    }
+  }
+
+  const createBackup = (dbPath: string, options: SyncOptions = {}, provider = new HookedProvider()) =>
+    new SqliteCloudBackup({ dbPath, provider, options: { logLevel: 'error', ...options } });
+
+  const createDatabase = (dbPath: string, note: string) => {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const db = new Database(dbPath);
+    db.exec('CREATE TABLE notes (body TEXT)');
+    db.prepare('INSERT INTO notes VALUES (?)').run(note);
+    db.close();
+  };
+
+  const addNote = (dbPath: string, note: string) => {
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO notes VALUES (?)').run(note);
+    db.close();
+  };
+
+  const readNotes = (dbPath: string) => {
+    const db = new Database(dbPath, { readonly: true });
+    const notes = db.prepare('SELECT body FROM notes ORDER BY rowid').all().map(row => (row as { body: string }).body);
+    db.close();
+    return notes;
+  };
+
+  const cloudGeneration = () => JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8')).version;
+
+  beforeEach(() => {
+    createDatabase(laptopPath, 'laptop');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should increase the generation with every push', async () => {
+    const laptop = createBackup(laptopPath);
+
+    expect((await laptop.pushToCloud()).generation).toBe(1);
+    addNote(laptopPath, 'second');
+    expect((await laptop.pushToCloud()).generation).toBe(2);
+    addNote(laptopPath, 'third');
+    expect((await laptop.sync()).generation).toBe(3);
+
+    expect(cloudGeneration()).toBe(3);
+    expect((await laptop.sync())).toMatchObject({ state: 'unchanged', generation: 3 });
+  });
+
+  it('should refuse to push over a generation this device has not seen', async () => {
+    const laptop = createBackup(laptopPath);
+    const desktop = createBackup(desktopPath);
+    await laptop.pushToCloud();
+    expect((await desktop.pullFromCloud()).generation).toBe(1);
+
+    addNote(laptopPath, 'from laptop');
+    await laptop.pushToCloud();
+    addNote(desktopPath, 'from desktop');
+    const error = await desktop.pushToCloud().catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.code).toBe('CONFLICT');
+    expect(error.message).toContain('generation 2');
+    expect(cloudGeneration()).toBe(2);
+
+    expect((await desktop.pushToCloud({ force: true })).generation).toBe(3);
+    expect(readNotes(laptopPath)).toEqual(['laptop', 'from laptop']);
+    await laptop.pullFromCloud();
+    expect(readNotes(laptopPath)).toEqual(['laptop', 'from desktop']);
+  });
+
+  it('should refuse to push over a cloud copy from a device that never synced', async () => {
+    const laptop = createBackup(laptopPath);
+    createDatabase(desktopPath, 'desktop');
+    const desktop = createBackup(desktopPath);
+    await laptop.pushToCloud();
+
+    await expect(desktop.pushToCloud()).rejects.toThrow(ConflictError);
+  });
+
+  it('should push after sync() reconciled a newer generation', async () => {
+    const laptop = createBackup(laptopPath);
+    const desktop = createBackup(desktopPath);
+    await laptop.pushToCloud();
+    await desktop.pullFromCloud();
+
+    addNote(laptopPath, 'from laptop');
+    await laptop.pushToCloud();
+    expect(await desktop.sync()).toMatchObject({ type: 'pull', generation: 2 });
+
+    addNote(desktopPath, 'from desktop');
+    expect((await desktop.pushToCloud()).generation).toBe(3);
+  });
+
+  it('should publish only one of two pushes racing from the same generation', async () => {
+    const laptop = createBackup(laptopPath, { lock: false });
+    const provider = new HookedProvider();
+    const desktop = createBackup(desktopPath, { lock: false }, provider);
+    await laptop.pushToCloud();
+    await desktop.pullFromCloud();
+    addNote(laptopPath, 'from laptop');
+    addNote(desktopPath, 'from desktop');
+
+    // The laptop publishes while the desktop is uploading
+    provider.beforeUpload = () => laptop.pushToCloud();
+    const error = await desktop.pushToCloud().catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(cloudGeneration()).toBe(2);
+
+    // The cloud copy is the laptop's again, not the desktop's upload
+    createDatabase(path.join(testDir, 'phone', 'app.db'), 'phone');
+    const phone = createBackup(path.join(testDir, 'phone', 'app.db'));
+    await phone.pullFromCloud();
+    expect(readNotes(path.join(testDir, 'phone', 'app.db'))).toEqual(['laptop', 'from laptop']);
+  });
+
+  it('should leave the cloud copy intact when a racing push loses with versioning off', async () => {
+    const options: SyncOptions = { lock: false, versioning: { enabled: false } };
+    const laptop = createBackup(laptopPath, options);
+    const provider = new HookedProvider();
+    const desktop = createBackup(desktopPath, options, provider);
+    await laptop.pushToCloud();
+    await desktop.pullFromCloud();
+    addNote(laptopPath, 'from laptop');
+    addNote(desktopPath, 'from desktop');
+
+    provider.beforeUpload = () => laptop.pushToCloud();
+    await expect(desktop.pushToCloud()).rejects.toThrow(ConflictError);
+
+    // Only the published copy is left, and it is the laptop's
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+    expect(fs.readdirSync(cloudFolder).filter(name => name.endsWith('.db'))).toEqual([metadata.file]);
+    expect(metadata.file).toMatch(/^current-2-/);
+
+    await desktop.pullFromCloud();
+    expect(readNotes(desktopPath)).toEqual(['laptop', 'from laptop']);
+  });
+
+  it('should succeed when a retried metadata write finds its own earlier attempt', async () => {
+    const provider = new LostResponseProvider();
+    const laptop = createBackup(laptopPath, { versioning: { enabled: false }, retry: { baseDelay: 1 } }, provider);
+    await laptop.pushToCloud();
+    addNote(laptopPath, 'second');
+
+    provider.loseResponse = true;
+    await expect(laptop.pushToCloud()).resolves.toMatchObject({ success: true, generation: 2 });
+
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+    expect(fs.existsSync(path.join(cloudFolder, metadata.file))).toBe(true);
+    await createBackup(desktopPath).pullFromCloud();
+    expect(readNotes(desktopPath)).toEqual(['laptop', 'second']);
+  });
+
+  it('should upload a retried push under the same name with versioning off', async () => {
+    const provider = new HookedProvider();
+    const laptop = createBackup(laptopPath, { versioning: { enabled: false } }, provider);
+    const uploads: string[] = [];
+
+    provider.beforeUpload = async fileName => {
+      uploads.push(fileName);
+      throw new Error('Drive unplugged');
+    };
+    await expect(laptop.pushToCloud()).rejects.toThrow('Drive unplugged');
+    provider.beforeUpload = async fileName => uploads.push(fileName);
+    await laptop.pushToCloud();
+
+    // So an interrupted resumable upload can continue
+    const metadata = JSON.parse(fs.readFileSync(path.join(cloudFolder, 'metadata.json'), 'utf-8'));
+    expect(uploads).toEqual([metadata.file, metadata.file]);
+  });
+});
@@ -0,0 +1,497 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import Database from 'better-sqlite3';
+import { GoogleDriveProvider } from '../../src/providers/google-drive';
+import { Logger } from '../../src/utils/logger';
+import { GoogleDriveCredentials, SyncMetadata } from '../../src/types';
+import SqliteCloudBackup from '../../src/index';
+import { ConflictError, ProviderError, QuotaExceededError } from '../../src/errors';
+import { RetryPolicy } from '../../src/utils/retry';
+
+const FOLDER = 'application/vnd.google-apps.folder';
+
+interface DriveFile {
+  id: string;
+  name: string;
+  parents: string[];
+  mimeType: string;
+  body: Buffer;
+}
+
+// Minimal Drive v3 stand-in: files, folders, multipart and resumable uploads and ranged downloads, kept in memory
+function createFakeDriveServer() {
+  const files = new Map<string, DriveFile>();
+  const sessions = new Map<string, { fileId?: string; name?: string; parents?: string[]; received: Buffer }>();
+  const requests: string[] = [];
+  // `forbidden`: reasons to reject the next uploads and downloads with, as Drive does with 403
+  const faults = { failChunk: 0, failDownloadAfter: 0, forbidden: [] as string[] };
+  let chunkCount = 0;
+  let nextId = 1;
+
+  const describeFile = (file: DriveFile) => ({
+    id: file.id,
+    name: file.name,
+    mimeType: file.mimeType,
+    ...(file.mimeType === FOLDER ? {} : {
+      size: String(file.body.length),
+      md5Checksum: crypto.createHash('md5').update(file.body).digest('hex')
+    })
+  });
+
+  const json = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '', 'http://localhost');
+      const body = Buffer.concat(chunks);
+      const base = `http://${req.headers.host}`;
+
+      if (url.pathname === '/token') {
+        json(res, 200, { access_token: 'test-token', expires_in: 3600, token_type: 'Bearer' });
+        return;
+      }
+
+      if (req.headers.authorization !== 'Bearer test-token') {
+        json(res, 401, { error: { code: 401, message: 'Invalid Credentials' } });
+        return;
+      }
+
+      // Resumable upload: open a session
+      const uploadMatch = url.pathname.match(/^\/upload\/drive\/v3\/files(?:\/([^/]+))?$/);
+      if ((uploadMatch || url.searchParams.get('alt') === 'media') && faults.forbidden.length > 0) {
+        const reason = faults.forbidden.shift();
+        json(res, 403, { error: { code: 403, message: reason, errors: [{ reason }] } });
+        return;
+      }
+      if (uploadMatch && url.searchParams.get('uploadType') === 'resumable') {
+        requests.push(`${req.method} upload ${uploadMatch[1] ?? ''}`.trim());
+        const sessionId = String(nextId++);
+        const metadata = body.length > 0 ? JSON.parse(body.toString()) : {};
+        sessions.set(sessionId, { fileId: uploadMatch[1], ...metadata, received: Buffer.alloc(0) });
+        res.writeHead(200, { Location: `${base}/upload/session/${sessionId}` });
+        res.end();
+        return;
+      }
+
+      // Multipart upload: metadata and content in one request
+      if (uploadMatch && url.searchParams.get('uploadType') === 'multipart') {
+        requests.push(`${req.method} multipart ${uploadMatch[1] ?? ''}`.trim());
+        const boundary = (req.headers['content-type'] as string).match(/boundary=(.+)$/)![1];
+        const [metadata, media] = body.toString('latin1').split(`--${boundary}`).slice(1, 3)
+          .map((part) => part.slice(part.indexOf('\r\n\r\n') + 4, -2));
+
+        let file = uploadMatch[1] ? files.get(uploadMatch[1]) : undefined;
+        if (!file) {
+          const { name, parents } = JSON.parse(metadata);
+          file = { id: String(nextId++), name, parents: parents ?? [], mimeType: 'application/x-sqlite3', body: Buffer.alloc(0) };
+          files.set(file.id, file);
+        }
+        file.body = Buffer.from(media, 'latin1');
+        json(res, 200, describeFile(file));
+        return;
+      }
+
+      // Resumable upload: chunks and status checks
+      const sessionMatch = url.pathname.match(/^\/upload\/session\/(\d+)$/);
+      if (sessionMatch && req.method === 'PUT') {
+        const session = sessions.get(sessionMatch[1]);
+        if (!session) {
+          json(res, 404, { error: { code: 404, message: 'Session expired' } });
+          return;
+        }
+
+        const contentRange = req.headers['content-range'] as string;
+        requests.push(`PUT session ${contentRange}`);
+        const [, start, , total] = contentRange.match(/^bytes (?:(\d+)-(\d+)|\*)\/(\d+)$/)!;
+
+        if (start !== undefined) {
+          if (++chunkCount === faults.failChunk) {
+            req.socket.destroy();
+            return;
+          }
+          if (Number(start) !== session.received.length) {
+            json(res, 400, { error: { code: 400, message: 'Unexpected offset' } });
+            return;
+          }
+          session.received = Buffer.concat([session.received, body]);
+        }
+
+        if (session.received.length < Number(total)) {
+          const headers: Record<string, string> = session.received.length > 0
+            ? { Range: `bytes=0-${session.received.length - 1}` }
+            : {};
+          res.writeHead(308, headers);
+          res.end();
+          return;
+        }
+
+        let file = session.fileId ? files.get(session.fileId) : undefined;
+        if (!file) {
+          file = { id: String(nextId++), name: session.name!, parents: session.parents ?? [], mimeType: 'application/x-sqlite3', body: Buffer.alloc(0) };
+          files.set(file.id, file);
+        }
+        file.body = session.received;
+        json(res, session.fileId ? 200 : 201, describeFile(file));
+        return;
+      }
+
+      const fileMatch = url.pathname.match(/^\/drive\/v3\/files(?:\/([^/]+))?(\/copy)?$/);
+      if (!fileMatch) {
+        json(res, 404, { error: { code: 404, message: 'Not found' } });
+        return;
+      }
+      const [, fileId, copy] = fileMatch;
+
+      if (req.method === 'GET' && !fileId) {
+        const q = url.searchParams.get('q') ?? '';
+        const name = q.match(/name='([^']*)'/)?.[1];
+        const parent = q.match(/'([^']+)' in parents/)?.[1];
+        const matches = [...files.values()].filter((file) =>
+          (name === undefined || file.name === name) &&
+          (parent === undefined || file.parents.includes(parent)) &&
+          (!q.includes(`mimeType='${FOLDER}'`) || file.mimeType === FOLDER) &&
+          (!q.includes(`mimeType!='${FOLDER}'`) || file.mimeType !== FOLDER)
+        );
+        json(res, 200, { files: matches.map(describeFile) });
+        return;
+      }
+
+      if (req.method === 'POST' && !fileId) {
+        const metadata = JSON.parse(body.toString());
+        const file: DriveFile = { id: String(nextId++), name: metadata.name, parents: metadata.parents ?? [], mimeType: metadata.mimeType, body: Buffer.alloc(0) };
+        files.set(file.id, file);
+        json(res, 200, { id: file.id });
+        return;
+      }
+
+      const file = files.get(fileId);
+      if (!file) {
+        json(res, 404, { error: { code: 404, message: 'File not found' } });
+        return;
+      }
+
+      if (req.method === 'POST' && copy) {
+        const metadata = JSON.parse(body.toString());
+        const duplicate: DriveFile = { ...file, id: String(nextId++), name: metadata.name, parents: metadata.parents };
+        files.set(duplicate.id, duplicate);
+        json(res, 200, { id: duplicate.id });
+        return;
+      }
+
+      if (req.method === 'DELETE') {
+        files.delete(fileId);
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      if (req.method === 'GET' && url.searchParams.get('alt') === 'media') {
+        const range = (req.headers.range as string | undefined)?.match(/^bytes=(\d+)-$/);
+        const start = range ? Number(range[1]) : 0;
+        requests.push(`GET media ${file.name} from ${start}`);
+
+        if (start >= file.body.length && start > 0) {
+          res.writeHead(416);
+          res.end();
+          return;
+        }
+
+        const content = file.body.subarray(start);
+        if (faults.failDownloadAfter) {
+          // Drop the connection part way through a chunked response
+          const cut = faults.failDownloadAfter;
+          faults.failDownloadAfter = 0;
+          res.writeHead(range ? 206 : 200);
+          res.write(content.subarray(0, cut), () => setTimeout(() => req.socket.destroy(), 10));
+          return;
+        }
+        res.writeHead(range ? 206 : 200, { 'Content-Length': content.length });
+        res.end(content);
+        return;
+      }
+
+      json(res, 400, { error: { code: 400, message: 'Unsupported request' } });
+    });
+  });
+
+  const reset = () => {
+    files.clear();
+    sessions.clear();
+    requests.length = 0;
+    faults.failChunk = 0;
+    faults.failDownloadAfter = 0;
+    faults.forbidden.length = 0;
+    chunkCount = 0;
+  };
+
+  return { server, files, sessions, requests, faults, reset };
+}
+
+describe('GoogleDriveProvider', () => {
+  const fake = createFakeDriveServer();
+  const testDir = path.join(__dirname, 'test-google-drive-provider');
+  const dbPath = path.join(testDir, 'test.db');
+  const stateFile = path.join(testDir, '.sqlite-cloud-backup', 'test', 'google-drive-transfers.json');
+  const chunkSize = 256 * 1024;
+  let credentials: GoogleDriveCredentials;
+  let provider: GoogleDriveProvider;
+
+  const readAll = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return Buffer.concat(chunks);
+  };
+
+  const readState = () => JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => fake.server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(fake.server.address() as AddressInfo).port}`;
+    credentials = {
+      clientId: 'client',
+      clientSecret: 'secret',
+      refreshToken: 'refresh',
+      rootUrl: base,
+      tokenUrl: `${base}/token`,
+      chunkSize
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    fake.reset();
+    fs.mkdirSync(testDir, { recursive: true });
+    provider = new GoogleDriveProvider(credentials, 'test', new Logger('error'), dbPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reject chunk sizes Drive does not accept', () => {
+    expect(() => new GoogleDriveProvider({ ...credentials, chunkSize: 1000 }, 'test', new Logger('error'), dbPath))
+      .toThrow('multiple of 262144');
+  });
+
+  it('should upload in chunks and download files', async () => {
+    const content = crypto.randomBytes(chunkSize * 2 + 1000);
+
+    await provider.uploadFile('current.db', content);
+
+    expect(fake.requests.filter((request) => request.startsWith('PUT session'))).toHaveLength(3);
+    expect((await provider.downloadFile('current.db')).equals(content)).toBe(true);
+    expect((await readAll(await provider.downloadStream('current.db'))).equals(content)).toBe(true);
+    expect(readState()).toEqual({ uploads: {}, downloads: {} });
+  });
+
+  it('should report progress and token refreshes', async () => {
+    const content = crypto.randomBytes(chunkSize * 2 + 1000);
+    const progress: Array<[string, number, number | null]> = [];
+    const refreshed: Array<number | null> = [];
+    provider.on('progress', (event) => progress.push([event.phase, event.bytesDone, event.bytesTotal]));
+    provider.on('token-refreshed', (event) => refreshed.push(event.expiresAt));
+
+    await provider.uploadFile('current.db', content);
+    await readAll(await provider.downloadStream('current.db'));
+
+    expect(progress.filter(([phase]) => phase === 'upload')).toEqual([
+      ['upload', chunkSize, content.length],
+      ['upload', chunkSize * 2, content.length],
+      ['upload', content.length, content.length]
+    ]);
+    expect(progress.at(-1)).toEqual(['download', content.length, content.length]);
+    expect(refreshed).toHaveLength(1);
+    expect(refreshed[0]).toBeGreaterThan(Date.now());
+  });
+
+  it('should upload files that fit in one chunk in a single request', async () => {
+    const content = crypto.randomBytes(chunkSize);
+
+    await provider.uploadFile('chunks/ab/abc', content);
+
+    expect(fake.requests).toEqual(['POST multipart']);
+    expect((await provider.downloadFile('chunks/ab/abc')).equals(content)).toBe(true);
+    expect(fs.existsSync(stateFile)).toBe(false);
+  });
+
+  it('should update existing files in place', async () => {
+    await provider.uploadFile('current.db', Buffer.from('first'));
+    await provider.uploadFile('current.db', Buffer.from('second'));
+    await provider.uploadStream('current.db', Readable.from([Buffer.from('third')]));
+
+    expect(fake.requests).toContainEqual(expect.stringMatching(/^PATCH multipart \d+$/));
+    expect(fake.requests).toContainEqual(expect.stringMatching(/^PATCH upload \d+$/));
+    expect([...fake.files.values()].filter((file) => file.name === 'current.db')).toHaveLength(1);
+    expect((await provider.downloadFile('current.db')).toString()).toBe('third');
+  });
+
+  it('should store metadata, list and copy files', async () => {
+    const metadata: SyncMetadata = {
+      dbName: 'current',
+      lastSyncTimestamp: 1000,
+      lastSyncType: 'push',
+      checksum: 'abc123',
+      version: 1
+    };
+
+    await provider.updateMetadata(metadata);
+    await provider.uploadFile('current.db', Buffer.from('snapshot'));
+    await provider.copyFile('current.db', 'versions/1.db');
+
+    expect(await provider.getMetadata('current.db')).toMatchObject({ checksum: 'abc123', modifiedAt: 1000 });
+    expect(await provider.listFiles('versions')).toEqual(['versions/1.db']);
+    expect((await provider.downloadFile('versions/1.db')).toString()).toBe('snapshot');
+  });
+
+  it('should only replace metadata that is unchanged since it was read', async () => {
+    const metadata: SyncMetadata = {
+      dbName: 'current',
+      lastSyncTimestamp: 1000,
+      lastSyncType: 'push',
+      checksum: 'abc123',
+      version: 1
+    };
+
+    await provider.updateMetadata(metadata, { ifMatch: null });
+    await expect(provider.updateMetadata(metadata, { ifMatch: null })).rejects.toThrow(ConflictError);
+
+    const { etag } = (await provider.getMetadata('current.db'))!;
+    await provider.updateMetadata({ ...metadata, version: 2 }, { ifMatch: etag });
+    await expect(provider.updateMetadata({ ...metadata, version: 3 }, { ifMatch: etag })).rejects.toThrow(ConflictError);
+    expect((await provider.getMetadata('current.db'))?.generation).toBe(2);
+  });
+
+  it('should keep only the oldest of two files created with one name', async () => {
+    const other = new GoogleDriveProvider(credentials, 'test', new Logger('error'), dbPath);
+    await provider.createFile('lock.json', Buffer.from('first'));
+    await expect(provider.createFile('lock.json', Buffer.from('second'))).rejects.toThrow(ConflictError);
+
+    // The other device checked before the first file was created
+    vi.spyOn(other as unknown as { findFile(name: string): Promise<unknown> }, 'findFile').mockResolvedValueOnce(null);
+    await expect(other.createFile('lock.json', Buffer.from('third'))).rejects.toThrow(ConflictError);
+
+    expect([...fake.files.values()].filter((file) => file.name === 'lock.json')).toHaveLength(1);
+    expect((await provider.downloadFile('lock.json')).toString()).toBe('first');
+  });
+
+  it('should resume an interrupted upload of the same bytes', async () => {
+    const content = crypto.randomBytes(chunkSize * 4);
+    fake.faults.failChunk = 3;
+
+    await expect(provider.uploadStream('current.db', Readable.from([content]))).rejects.toThrow();
+    const [session] = Object.values(readState().uploads) as { uri: string }[];
+    expect(session.uri).toContain('/upload/session/');
+
+    fake.requests.length = 0;
+    await provider.uploadStream('current.db', Readable.from([content]));
+
+    expect(fake.requests).not.toContainEqual(expect.stringMatching(/upload/));
+    expect(fake.requests[0]).toBe(`PUT session bytes */${content.length}`);
+    expect(fake.requests[1]).toBe(`PUT session bytes ${chunkSize * 2}-${chunkSize * 3 - 1}/${content.length}`);
+    expect((await provider.downloadFile('current.db')).equals(content)).toBe(true);
+    expect(readState().uploads).toEqual({});
+  });
+
+  it('should start over when different bytes are uploaded or the session expired', async () => {
+    fake.faults.failChunk = 2;
+    await expect(provider.uploadStream('current.db', Readable.from([crypto.randomBytes(chunkSize * 2)]))).rejects.toThrow();
+
+    const other = crypto.randomBytes(chunkSize * 2);
+    fake.requests.length = 0;
+    await provider.uploadStream('current.db', Readable.from([other]));
+    expect(fake.requests[0]).toBe('POST upload');
+
+    fake.faults.failChunk = fake.requests.length + 2;
+    const third = crypto.randomBytes(chunkSize * 2);
+    await expect(provider.uploadStream('current.db', Readable.from([third]))).rejects.toThrow();
+    fake.sessions.clear();
+
+    fake.requests.length = 0;
+    await provider.uploadStream('current.db', Readable.from([third]));
+    expect(fake.requests[0]).toMatch(/^PATCH upload/);
+    expect((await provider.downloadFile('current.db')).equals(third)).toBe(true);
+  });
+
+  it('should resume an interrupted download with a Range request', async () => {
+    const content = crypto.randomBytes(chunkSize * 3);
+    await provider.uploadFile('current.db', content);
+    fake.faults.failDownloadAfter = 100_000;
+
+    await expect(provider.downloadStream('current.db')).rejects.toThrow();
+    const partialPath = path.join(testDir, '.sqlite-cloud-backup', 'test', 'google-drive-current.db.download');
+    expect(fs.statSync(partialPath).size).toBe(100_000);
+
+    const resumed = await readAll(await provider.downloadStream('current.db'));
+
+    expect(fake.requests).toContain('GET media current.db from 100000');
+    expect(resumed.equals(content)).toBe(true);
+    await vi.waitFor(() => expect(fs.existsSync(partialPath)).toBe(false));
+    expect(readState().downloads).toEqual({});
+  });
+
+  it('should discard a partial download when the file changed', async () => {
+    await provider.uploadFile('current.db', crypto.randomBytes(chunkSize));
+    fake.faults.failDownloadAfter = 100_000;
+    await expect(provider.downloadStream('current.db')).rejects.toThrow();
+
+    const replacement = crypto.randomBytes(chunkSize);
+    await provider.uploadFile('current.db', replacement);
+    fake.requests.length = 0;
+
+    expect((await readAll(await provider.downloadStream('current.db'))).equals(replacement)).toBe(true);
+    expect(fake.requests).toContain('GET media current.db from 0');
+  });
+
+  it('should tell rate limits and full storage from auth failures', async () => {
+    fake.faults.forbidden.push('userRateLimitExceeded', 'storageQuotaExceeded');
+
+    const limited = await provider.uploadFile('lock.json', Buffer.from('{}')).catch((error) => error);
+    expect(limited).toBeInstanceOf(ProviderError);
+    expect(limited).toMatchObject({ status: 403, reason: 'userRateLimitExceeded' });
+    expect(RetryPolicy.classify(limited)).toBe('transient');
+    await expect(provider.uploadFile('lock.json', Buffer.from('{}'))).rejects.toThrow(QuotaExceededError);
+
+    await provider.uploadFile('current.db', crypto.randomBytes(chunkSize * 2));
+    fake.faults.forbidden.push('rateLimitExceeded');
+    await expect(provider.downloadStream('current.db')).rejects.toMatchObject({ code: 'PROVIDER_ERROR', reason: 'rateLimitExceeded' });
+  });
+
+  it('should push and pull a database end-to-end', async () => {
+    const db = new Database(dbPath);
+    db.exec('CREATE TABLE test (id INTEGER PRIMARY KEY, value TEXT)');
+    db.exec("INSERT INTO test (value) VALUES ('original')");
+    db.close();
+
+    const backup = new SqliteCloudBackup({
+      dbPath,
+      provider: 'google-drive',
+      credentials,
+      options: { logLevel: 'error', compression: 'gzip' }
+    });
+
+    const pushResult = await backup.pushToCloud();
+    fs.writeFileSync(dbPath, 'garbage');
+    const pullResult = await backup.pullFromCloud();
+
+    expect(pullResult.localChecksum).toBe(pushResult.localChecksum);
+    const restored = new Database(dbPath);
+    const row = restored.prepare('SELECT value FROM test').get() as { value: string };
+    restored.close();
+    expect(row.value).toBe('original');
+
+    await backup.shutdown();
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import SqliteCloudBackup, { BaseProvider, registerProvider, ProviderRegistry } from '../../src/index';
+import { ProviderContext, ProviderMetadata, SyncMetadata } from '../../src/types';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+// In-memory provider with an optional fake auth flow
+class MemoryProvider extends BaseProvider {
+  public files: Map<string, Buffer> = new Map();
+  public metadata: SyncMetadata | null = null;
+  public authenticated: boolean;
+
+  constructor(requireAuth = false) {
+    super();
+    this.authenticated = !requireAuth;
+  }
+
+  async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
+    this.files.set(fileName, buffer);
+  }
+
+  async downloadFile(fileName: string): Promise<Buffer> {
+    const file = this.files.get(fileName);
+    if (!file) throw new Error(`File not found: ${fileName}`);
+    return file;
+  }
+
+  async fileExists(fileName: string): Promise<boolean> {
+    return this.files.has(fileName);
+  }
+
+  async getMetadata(_fileName: string): Promise<ProviderMetadata | null> {
+    if (!this.metadata) return null;
+    return { checksum: this.metadata.checksum, modifiedAt: this.metadata.lastSyncTimestamp, size: 0 };
+  }
+
+  async updateMetadata(metadata: SyncMetadata): Promise<void> {
+    this.metadata = metadata;
+  }
+
+  async deleteFile(fileName: string): Promise<void> {
+    this.files.delete(fileName);
+  }
+
+  async listFiles(folder: string): Promise<string[]> {
+    return [...this.files.keys()].filter(name => name.startsWith(`${folder}/`));
+  }
+
+  async needsAuthentication(): Promise<boolean> {
+    return !this.authenticated;
+  }
+
+  async authenticate(): Promise<void> {
+    this.authenticated = true;
+  }
+
+  async logout(): Promise<void> {
+    this.authenticated = false;
+  }
+}
+
+describe('ProviderRegistry', () => {
+  const testDir = path.join(__dirname, 'test-provider-registry');
+  const testDbPath = path.join(testDir, 'test.db');
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    const db = new Database(testDbPath);
+    db.exec('CREATE TABLE IF NOT EXISTS test (id INTEGER PRIMARY KEY, value TEXT)');
+    db.close();
+  });
+
+  afterEach(() => {
+    ProviderRegistry.unregister('memory');
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should have the built-in providers registered', () => {
+    expect(ProviderRegistry.has('google-drive')).toBe(true);
+    expect(ProviderRegistry.has('filesystem')).toBe(true);
+    expect(ProviderRegistry.has('s3')).toBe(true);
+    expect(ProviderRegistry.has('webdav')).toBe(true);
+  });
+
+  it('should reject invalid registrations', () => {
+    expect(() => registerProvider('', () => new MemoryProvider())).toThrow('name is required');
+    expect(() => registerProvider('memory', 'nope' as never)).toThrow('must be a function');
+  });
+
+  it('should throw for unknown provider names', () => {
+    expect(() => new SqliteCloudBackup({
+      dbPath: testDbPath,
+      provider: 'does-not-exist',
+      options: { logLevel: 'error' }
+    })).toThrow('Unsupported provider: does-not-exist');
+  });
+
+  it('should require credentials for built-in providers', () => {
+    expect(() => new SqliteCloudBackup({
+      dbPath: testDbPath,
+      provider: 'filesystem',
+      options: { logLevel: 'error' }
+    })).toThrow('Provider filesystem requires credentials');
+  });
+
+  it('should build registered providers by name with context', async () => {
+    const memory = new MemoryProvider();
+    let receivedContext: ProviderContext | null = null;
+
+    registerProvider('memory', (context) => {
+      receivedContext = context;
+      return memory;
+    });
+
+    const backup = new SqliteCloudBackup({
+      dbPath: testDbPath,
+      provider: 'memory',
+      credentials: { basePath: '/unused' },
+      options: { logLevel: 'error' }
+    });
+
+    expect(receivedContext!.dbName).toBe('test');
+    expect(receivedContext!.dbPath).toBe(testDbPath);
+    expect(receivedContext!.credentials).toEqual({ basePath: '/unused' });
+
+    await backup.pushToCloud();
+    expect(memory.files.has('current.db')).toBe(true);
+  });
+
+  it('should accept a provider instance', async () => {
+    const memory = new MemoryProvider();
+    const backup = new SqliteCloudBackup({
+      dbPath: testDbPath,
+      provider: memory,
+      options: { logLevel: 'error' }
+    });
+
+    const result = await backup.sync();
+
+    expect(result.type).toBe('push');
+    expect(memory.files.has('current.db')).toBe(true);
+  });
+
+  it('should accept a provider factory', async () => {
+    const memory = new MemoryProvider();
+    const backup = new SqliteCloudBackup({
+      dbPath: testDbPath,
+      provider: () => memory,
+      options: { logLevel: 'error' }
+    });
+
+    await backup.pushToCloud();
+    expect(memory.files.has('current.db')).toBe(true);
+  });
+
+  it('should delegate authentication to the provider', async () => {
+    const memory = new MemoryProvider(true);
+    const backup = new SqliteCloudBackup({
+      dbPath: testDbPath,
+      provider: memory,
+      options: { logLevel: 'error' }
+    });
+
+    expect(await backup.needsAuthentication()).toBe(true);
+
+    // Sync triggers the provider's auth flow
+    await backup.pushToCloud();
+    expect(await backup.isAuthenticated()).toBe(true);
+
+    await backup.logout();
+    expect(await backup.isAuthenticated()).toBe(false);
+  });
+
+  it('should refuse interactive auth for providers without it', async () => {
+    const backup = new SqliteCloudBackup({
+      dbPath: testDbPath,
+      provider: 'filesystem',
+      credentials: { basePath: testDir },
+      options: { logLevel: 'error' }
+    });
+
+    expect(await backup.needsAuthentication()).toBe(false);
+    await expect(backup.authenticate()).rejects.toThrow('does not support interactive authentication');
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RetryPolicy } from '../../src/utils/retry';
+import SqliteCloudBackup, { FilesystemProvider, Logger, ProviderError } from '../../src/index';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Readable } from 'stream';
+
+const logger = new Logger('error');
+
+function connectionReset(): Error {
+  return Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+}
+
+describe('RetryPolicy', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('classify', () => {
+    it('should treat rate limits, server errors and dropped connections as transient', () => {
+      expect(RetryPolicy.classify(new ProviderError('Too many requests', { status: 429 }))).toBe('transient');
+      expect(RetryPolicy.classify(new ProviderError('Bad gateway', { status: 502 }))).toBe('transient');
+      expect(RetryPolicy.classify(connectionReset())).toBe('transient');
+      expect(RetryPolicy.classify(new TypeError('fetch failed', { cause: { code: 'UND_ERR_SOCKET' } }))).toBe('transient');
+
+      // Drive reports per-user rate limits as 403
+      const driveRateLimit = { response: { status: 403, data: { error: { errors: [{ reason: 'userRateLimitExceeded' }] } } } };
+      expect(RetryPolicy.classify(driveRateLimit)).toBe('transient');
+      expect(RetryPolicy.classify(new ProviderError('Forbidden', { status: 403, reason: 'rateLimitExceeded' }))).toBe('transient');
+
+      const s3SlowDown = Object.assign(new Error('Slow down'), { name: 'SlowDown', $metadata: { httpStatusCode: 503 } });
+      expect(RetryPolicy.classify(s3SlowDown)).toBe('transient');
+    });
+
+    it('should treat auth, quota and not-found errors as fatal', () => {
+      expect(RetryPolicy.classify(new ProviderError('Unauthorized', { status: 401 }))).toBe('auth');
+      expect(RetryPolicy.classify({ response: { status: 400, data: { error: 'invalid_grant' } } })).toBe('auth');
+      expect(RetryPolicy.classify(new ProviderError('Insufficient storage', { status: 507 }))).toBe('quota');
+      expect(RetryPolicy.classify({ response: { status: 403, data: { error: { errors: [{ reason: 'storageQuotaExceeded' }] } } } }))
+        .toBe('quota');
+      expect(RetryPolicy.classify(Object.assign(new Error('No such key'), { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } })))
+        .toBe('not-found');
+      expect(RetryPolicy.classify(new Error('Checksum mismatch - data corruption detected'))).toBe('fatal');
+
+      // 403 is about credentials unless the backend says otherwise
+      expect(RetryPolicy.classify(new ProviderError('Forbidden', { status: 403 }))).toBe('auth');
+      expect(RetryPolicy.classify(new ProviderError('Forbidden', { status: 403, reason: 'domainPolicy' }))).toBe('fatal');
+    });
+  });
+
+  describe('getDelay', () => {
+    it('should back off exponentially up to maxDelay', () => {
+      const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 500, jitter: false }, logger);
+
+      expect([0, 1, 2, 3, 4].map(attempt => policy.getDelay(attempt))).toEqual([100, 200, 400, 500, 500]);
+    });
+
+    it('should randomize the second half of each delay', () => {
+      const policy = new RetryPolicy({ baseDelay: 1000 }, logger);
+
+      for (let i = 0; i < 20; i++) {
+        const delay = policy.getDelay(1)!;
+        expect(delay).toBeGreaterThanOrEqual(1000);
+        expect(delay).toBeLessThanOrEqual(2000);
+      }
+    });
+
+    it('should follow Retry-After in seconds or as a date', () => {
+      const policy = new RetryPolicy({ maxDelay: 10_000 }, logger);
+
+      expect(policy.getDelay(0, new ProviderError('Slow down', { status: 429, retryAfter: '3' }))).toBe(3000);
+      expect(policy.getDelay(0, { response: { status: 503, headers: { 'retry-after': '7' } } })).toBe(7000);
+
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      expect(policy.getDelay(0, new ProviderError('Slow down', { status: 503, retryAfter: 'Thu, 01 Jan 2026 00:00:05 GMT' }))).toBe(5000);
+
+      // Waiting longer than allowed fails right away
+      expect(policy.getDelay(0, new ProviderError('Slow down', { status: 429, retryAfter: '60' }))).toBeNull();
+    });
+  });
+
+  describe('run', () => {
+    it('should retry transient failures until the operation succeeds', async () => {
+      vi.useFakeTimers();
+      const policy = new RetryPolicy({ baseDelay: 1000, jitter: false }, logger);
+      const operation = vi.fn()
+        .mockRejectedValueOnce(new ProviderError('Unavailable', { status: 503 }))
+        .mockRejectedValueOnce(connectionReset())
+        .mockResolvedValue('done');
+
+      const result = policy.run(operation, 'Upload');
+      await vi.advanceTimersByTimeAsync(999);
+      expect(operation).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(operation).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      await expect(result).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after maxRetries', async () => {
+      const sleep = vi.fn(async () => undefined);
+      const policy = new RetryPolicy({ maxRetries: 2 }, logger, sleep);
+      const operation = vi.fn().mockRejectedValue(new ProviderError('Unavailable', { status: 503 }));
+
+      await expect(policy.run(operation, 'Upload')).rejects.toThrow('Unavailable');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(sleep).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry fatal errors', async () => {
+      const sleep = vi.fn(async () => undefined);
+      const policy = new RetryPolicy({}, logger, sleep);
+      const operation = vi.fn().mockRejectedValue(new ProviderError('Unauthorized', { status: 401 }));
+
+      await expect(policy.run(operation, 'Upload')).rejects.toThrow('Unauthorized');
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should validate options', () => {
+      expect(() => new RetryPolicy({ maxRetries: -1 }, logger)).toThrow('maxRetries');
+      expect(() => new RetryPolicy({ baseDelay: 1000, maxDelay: 10 }, logger)).toThrow('baseDelay');
+    });
+  });
+});
+
+describe('Sync with retries', () => {
+  const testDir = path.join(__dirname, 'test-retry');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'app.db');
+
+  // Fails the first `failures` calls of every operation with the given error
+  class FaultyProvider extends FilesystemProvider {
+    calls = new Map<string, number>();
+
+    constructor(private failures: number, private fault: () => Error) {
+      super({ basePath: backupDir }, 'app', new Logger('error'));
+    }
+
+    // Calls for the cloud lock are let through; it has its own tests
+    private inject(operation: string, fileName: string): void {
+      if (fileName === 'lock.json') return;
+      const count = (this.calls.get(operation) ?? 0) + 1;
+      this.calls.set(operation, count);
+      if (count <= this.failures) throw this.fault();
+    }
+
+    async uploadFile(fileName: string, buffer: Buffer): Promise<void> {
+      this.inject('uploadFile', fileName);
+      return super.uploadFile(fileName, buffer);
+    }
+
+    async uploadStream(fileName: string, source: Readable): Promise<void> {
+      this.inject('uploadStream', fileName);
+      return super.uploadStream(fileName, source);
+    }
+
+    async downloadStream(fileName: string): Promise<Readable> {
+      this.inject('downloadStream', fileName);
+      return super.downloadStream(fileName);
+    }
+
+    async fileExists(fileName: string): Promise<boolean> {
+      this.inject('fileExists', fileName);
+      return super.fileExists(fileName);
+    }
+  }
+
+  const createBackup = (provider: FilesystemProvider, maxRetries?: number) => new SqliteCloudBackup({
+    dbPath,
+    provider,
+    options: { logLevel: 'error', retry: { maxRetries, baseDelay: 1 } }
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const db = new Database(dbPath);
+    db.exec("CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES ('hello');");
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should push and pull through transient failures', async () => {
+    const provider = new FaultyProvider(2, () => new ProviderError('Service unavailable', { status: 503 }));
+    const backup = createBackup(provider);
+
+    const push = await backup.pushToCloud();
+    fs.writeFileSync(dbPath, 'garbage');
+    const pull = await backup.pullFromCloud();
+
+    expect(pull.localChecksum).toBe(push.localChecksum);
+    expect(provider.calls.get('uploadStream')).toBe(3);
+    expect(provider.calls.get('downloadStream')).toBe(3);
+  });
+
+  it('should retry chunk uploads in chunked storage', async () => {
+    const provider = new FaultyProvider(1, connectionReset);
+    const backup = new SqliteCloudBackup({
+      dbPath,
+      provider,
+      options: { logLevel: 'error', storage: 'chunked', retry: { baseDelay: 1 } }
+    });
+
+    const push = await backup.pushToCloud();
+
+    expect(push.chunks!.transferred).toBeGreaterThan(0);
+    expect(provider.calls.get('uploadFile')).toBeGreaterThan(push.chunks!.transferred);
+  });
+
+  it('should fail with the original error once retries are exhausted', async () => {
+    const provider = new FaultyProvider(3, () => new ProviderError('Service unavailable', { status: 503 }));
+
+    await expect(createBackup(provider, 1).pushToCloud()).rejects.toThrow('Service unavailable');
+    expect(provider.calls.get('uploadStream')).toBe(2);
+  });
+
+  it('should not retry authentication failures', async () => {
+    const provider = new FaultyProvider(1, () => new ProviderError('Unauthorized', { status: 401 }));
+
+    await expect(createBackup(provider).sync()).rejects.toThrow('Unauthorized');
+    expect([...provider.calls.values()].reduce((sum, count) => sum + count, 0)).toBe(1);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RowMerger } from '../../src/core/row-merger';
+import { Logger } from '../../src/utils/logger';
+import { RowConflict } from '../../src/types';
+import { ConflictError } from '../../src/errors';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+describe('RowMerger', () => {
+  const testDir = path.join(__dirname, 'test-row-merger');
+  const basePath = path.join(testDir, 'base.db');
+  const localPath = path.join(testDir, 'local.db');
+  const cloudPath = path.join(testDir, 'cloud.db');
+
+  const edit = (dbPath: string, sql: string) => {
+    const db = new Database(dbPath);
+    db.exec(sql);
+    db.close();
+  };
+
+  const readRows = (dbPath: string, table = 'notes') => {
+    const db = new Database(dbPath, { readonly: true });
+    const rows = db.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all();
+    db.close();
+    return rows;
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+
+    edit(basePath, `
+      CREATE TABLE notes (id INTEGER PRIMARY KEY, title TEXT, body TEXT);
+      INSERT INTO notes VALUES (1, 'one', 'first'), (2, 'two', 'second'), (3, 'three', 'third');
+    `);
+    fs.copyFileSync(basePath, localPath);
+    fs.copyFileSync(basePath, cloudPath);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should apply non-overlapping inserts, updates and deletes from both sides', async () => {
+    edit(localPath, "INSERT INTO notes VALUES (4, 'four', 'local'); UPDATE notes SET body = 'edited' WHERE id = 1;");
+    edit(cloudPath, "INSERT INTO notes VALUES (5, 'five', 'cloud'); DELETE FROM notes WHERE id = 2;");
+
+    const stats = await new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath);
+
+    expect(stats).toEqual({ rowsApplied: 2, conflicts: 0 });
+    expect(readRows(localPath)).toEqual([
+      { id: 1, title: 'one', body: 'edited' },
+      { id: 3, title: 'three', body: 'third' },
+      { id: 4, title: 'four', body: 'local' },
+      { id: 5, title: 'five', body: 'cloud' }
+    ]);
+  });
+
+  it('should merge different columns of the same row', async () => {
+    edit(localPath, "UPDATE notes SET title = 'ONE' WHERE id = 1");
+    edit(cloudPath, "UPDATE notes SET body = 'FIRST' WHERE id = 1");
+
+    const stats = await new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath);
+
+    expect(stats.conflicts).toBe(0);
+    expect(readRows(localPath)[0]).toEqual({ id: 1, title: 'ONE', body: 'FIRST' });
+  });
+
+  it('should ignore identical changes on both sides', async () => {
+    edit(localPath, "UPDATE notes SET body = 'same' WHERE id = 1; DELETE FROM notes WHERE id = 3;");
+    edit(cloudPath, "UPDATE notes SET body = 'same' WHERE id = 1; DELETE FROM notes WHERE id = 3;");
+
+    const stats = await new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath);
+
+    expect(stats).toEqual({ rowsApplied: 0, conflicts: 0 });
+  });
+
+  it('should pass overlapping changes to the resolver', async () => {
+    edit(localPath, "UPDATE notes SET body = 'local' WHERE id = 1; DELETE FROM notes WHERE id = 2;");
+    edit(cloudPath, "UPDATE notes SET body = 'cloud' WHERE id = 1; UPDATE notes SET body = 'cloud' WHERE id = 2;");
+
+    const conflicts: RowConflict[] = [];
+    const merger = new RowMerger(new Logger('error'), (conflict) => {
+      conflicts.push(conflict);
+      return conflict.key.id === 1n
+        ? { ...conflict.local, body: `${conflict.local!.body}+${conflict.cloud!.body}` }
+        : 'cloud';
+    });
+
+    const stats = await merger.merge(basePath, cloudPath, localPath);
+
+    expect(stats).toEqual({ rowsApplied: 2, conflicts: 2 });
+    expect(conflicts[0]).toMatchObject({
+      table: 'notes',
+      key: { id: 1n },
+      columns: ['body'],
+      base: { body: 'first' },
+      local: { body: 'local' },
+      cloud: { body: 'cloud' }
+    });
+    expect(conflicts[1]).toMatchObject({ key: { id: 2n }, local: null });
+    expect(readRows(localPath).slice(0, 2)).toEqual([
+      { id: 1, title: 'one', body: 'local+cloud' },
+      { id: 2, title: 'two', body: 'cloud' }
+    ]);
+  });
+
+  it('should keep the local row when no resolver is set', async () => {
+    edit(localPath, "INSERT INTO notes VALUES (4, 'four', 'local')");
+    edit(cloudPath, "INSERT INTO notes VALUES (4, 'four', 'cloud')");
+
+    const stats = await new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath);
+
+    expect(stats).toEqual({ rowsApplied: 0, conflicts: 1 });
+    expect(readRows(localPath)[3]).toEqual({ id: 4, title: 'four', body: 'local' });
+  });
+
+  it('should match rows by rowid in tables without a primary key', async () => {
+    edit(basePath, "CREATE TABLE log (message TEXT); INSERT INTO log VALUES ('a');");
+    fs.copyFileSync(basePath, localPath);
+    fs.copyFileSync(basePath, cloudPath);
+    edit(cloudPath, "UPDATE log SET message = 'b'; INSERT INTO log VALUES ('c');");
+
+    await new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath);
+
+    expect(readRows(localPath, 'log')).toEqual([{ message: 'b' }, { message: 'c' }]);
+  });
+
+  it('should throw ConflictError when merged rows break a constraint', async () => {
+    for (const dbPath of [basePath, localPath, cloudPath]) {
+      edit(dbPath, 'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE)');
+    }
+    edit(localPath, "INSERT INTO users VALUES (1, 'a@example.com')");
+    edit(cloudPath, "INSERT INTO users VALUES (2, 'a@example.com')");
+
+    const error = await new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath).catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.message).toContain('row id = 2 of table "users"');
+    expect(readRows(localPath, 'users')).toEqual([{ id: 1, email: 'a@example.com' }]);
+  });
+
+  it('should throw ConflictError when merged rows refer to a deleted row', async () => {
+    for (const dbPath of [basePath, localPath, cloudPath]) {
+      edit(dbPath, 'CREATE TABLE comments (id INTEGER PRIMARY KEY, note_id INTEGER REFERENCES notes(id))');
+    }
+    edit(localPath, 'DELETE FROM notes WHERE id = 1');
+    edit(cloudPath, 'INSERT INTO comments VALUES (1, 1)');
+
+    await expect(new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath))
+      .rejects.toThrow('row rowid = 1 of table "comments" refers to a row that no longer exists');
+    expect(readRows(localPath, 'comments')).toEqual([]);
+  });
+
+  it('should refuse to merge when the schema changed', async () => {
+    edit(cloudPath, 'ALTER TABLE notes ADD COLUMN tags TEXT');
+
+    await expect(new RowMerger(new Logger('error')).merge(basePath, cloudPath, localPath))
+      .rejects.toThrow('schema changed');
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { S3Provider } from '../../src/providers/s3';
+import { Logger } from '../../src/utils/logger';
+import { SyncMetadata } from '../../src/types';
+import { ConflictError } from '../../src/errors';
+import { Readable } from 'stream';
+
+// Minimal path-style S3 stand-in: single bucket, objects kept in memory
+function createFakeS3Server() {
+  const objects = new Map<string, Buffer>();
+  const uploads = new Map<string, Map<number, Buffer>>();
+  const requests: string[] = [];
+  let nextUploadId = 1;
+  const etagOf = (object: Buffer) => `"${crypto.createHash('md5').update(object).digest('hex')}"`;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '', 'http://localhost');
+      const key = decodeURIComponent(url.pathname).replace(/^\/test-bucket\//, '');
+      const body = Buffer.concat(chunks);
+      const uploadId = url.searchParams.get('uploadId');
+      requests.push(`${req.method} ${key}${url.searchParams.has('uploads') ? '?uploads' : ''}`);
+
+      if (req.method === 'POST' && url.searchParams.has('uploads')) {
+        const id = String(nextUploadId++);
+        uploads.set(id, new Map());
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end(`<InitiateMultipartUploadResult><Bucket>test-bucket</Bucket><Key>${key}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`);
+        return;
+      }
+
+      if (req.method === 'PUT' && uploadId) {
+        uploads.get(uploadId)!.set(Number(url.searchParams.get('partNumber')), body);
+        res.writeHead(200, { ETag: `"part-${url.searchParams.get('partNumber')}"` });
+        res.end();
+        return;
+      }
+
+      if (req.method === 'POST' && uploadId) {
+        const parts = uploads.get(uploadId)!;
+        const ordered = [...parts.keys()].sort((a, b) => a - b).map((n) => parts.get(n)!);
+        objects.set(key, Buffer.concat(ordered));
+        uploads.delete(uploadId);
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end(`<CompleteMultipartUploadResult><Bucket>test-bucket</Bucket><Key>${key}</Key><ETag>"done"</ETag></CompleteMultipartUploadResult>`);
+        return;
+      }
+
+      if (req.method === 'PUT' && req.headers['x-amz-copy-source']) {
+        const source = decodeURIComponent(req.headers['x-amz-copy-source'] as string).replace(/^\/?test-bucket\//, '');
+        if (!objects.has(source)) {
+          res.writeHead(404, { 'Content-Type': 'application/xml' });
+          res.end('<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+          return;
+        }
+        objects.set(key, objects.get(source)!);
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end('<CopyObjectResult><ETag>"etag"</ETag></CopyObjectResult>');
+        return;
+      }
+
+      if (req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+        const prefix = url.searchParams.get('prefix') ?? '';
+        const contents = [...objects.keys()]
+          .filter((k) => k.startsWith(prefix) && !k.substring(prefix.length).includes('/'))
+          .map((k) => `<Contents><Key>${k}</Key><Size>${objects.get(k)!.length}</Size></Contents>`)
+          .join('');
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end(`<ListBucketResult><Name>test-bucket</Name><Prefix>${prefix}</Prefix><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`);
+        return;
+      }
+
+      if (req.method === 'PUT') {
+        const existing = objects.get(key);
+        const ifMatch = req.headers['if-match'];
+        if ((ifMatch && (!existing || etagOf(existing) !== ifMatch)) || (req.headers['if-none-match'] === '*' && existing)) {
+          res.writeHead(412, { 'Content-Type': 'application/xml' });
+          res.end('<Error><Code>PreconditionFailed</Code><Message>At least one of the pre-conditions you specified did not hold</Message></Error>');
+          return;
+        }
+        objects.set(key, body);
+        res.writeHead(200, { ETag: etagOf(body) });
+        res.end();
+        return;
+      }
+
+      const object = objects.get(key);
+
+      if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      if (!object) {
+        res.writeHead(404, { 'Content-Type': 'application/xml' });
+        res.end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Length': object.length, ETag: etagOf(object) });
+      res.end(req.method === 'HEAD' ? undefined : object);
+    });
+  });
+
+  return { server, objects, requests };
+}
+
+describe('S3Provider', () => {
+  const fake = createFakeS3Server();
+  let endpoint: string;
+  let provider: S3Provider;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => fake.server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(fake.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    fake.objects.clear();
+    fake.requests.length = 0;
+
+    provider = new S3Provider({
+      bucket: 'test-bucket',
+      endpoint,
+      prefix: '/backups/',
+      forcePathStyle: true,
+      accessKeyId: 'test',
+      secretAccessKey: 'test'
+    }, 'test', new Logger('error'));
+  });
+
+  it('should require a bucket', () => {
+    expect(() => new S3Provider({ bucket: '' }, 'test', new Logger('error'))).toThrow('requires a bucket');
+  });
+
+  it('should upload and download files under the prefix', async () => {
+    await provider.uploadFile('current.db', Buffer.from('database content'));
+
+    expect(fake.objects.has('backups/.sqlite-cloud-backup/test/current.db')).toBe(true);
+    const buffer = await provider.downloadFile('current.db');
+    expect(buffer.toString()).toBe('database content');
+  });
+
+  it('should use multipart upload for large files', async () => {
+    const large = Buffer.alloc(9 * 1024 * 1024, 7);
+
+    await provider.uploadFile('current.db', large);
+
+    expect(fake.requests).toContain('POST backups/.sqlite-cloud-backup/test/current.db?uploads');
+    const stored = fake.objects.get('backups/.sqlite-cloud-backup/test/current.db')!;
+    expect(stored.length).toBe(large.length);
+    expect(stored.equals(large)).toBe(true);
+  });
+
+  it('should throw when downloading a missing file', async () => {
+    await expect(provider.downloadFile('current.db')).rejects.toThrow('File not found');
+    await expect(provider.downloadStream('current.db')).rejects.toThrow('File not found');
+  });
+
+  it('should stream uploads of unknown length in parts', async () => {
+    const part = Buffer.alloc(3 * 1024 * 1024, 7);
+
+    await provider.uploadStream('current.db', Readable.from([part, part, part]));
+
+    expect(fake.requests).toContain('POST backups/.sqlite-cloud-backup/test/current.db?uploads');
+    const chunks: Buffer[] = [];
+    for await (const chunk of await provider.downloadStream('current.db')) chunks.push(chunk);
+    expect(Buffer.concat(chunks).equals(Buffer.concat([part, part, part]))).toBe(true);
+  });
+
+  it('should report and delete existing files', async () => {
+    expect(await provider.fileExists('current.db')).toBe(false);
+
+    await provider.uploadFile('current.db', Buffer.from('data'));
+    expect(await provider.fileExists('current.db')).toBe(true);
+
+    await provider.deleteFile('current.db');
+    expect(await provider.fileExists('current.db')).toBe(false);
+  });
+
+  it('should list files in a subfolder', async () => {
+    await provider.uploadFile('versions/a.db', Buffer.from('a'));
+    await provider.uploadFile('versions/b.db', Buffer.from('b'));
+    await provider.uploadFile('current.db', Buffer.from('c'));
+
+    expect((await provider.listFiles('versions')).sort()).toEqual(['versions/a.db', 'versions/b.db']);
+  });
+
+  it('should copy files server-side', async () => {
+    await provider.uploadFile('current.db', Buffer.from('snapshot'));
+    await provider.copyFile('current.db', 'versions/1.db');
+
+    expect(fake.objects.get('backups/.sqlite-cloud-backup/test/versions/1.db')?.toString()).toBe('snapshot');
+    await expect(provider.copyFile('missing.db', 'versions/2.db')).rejects.toThrow('File not found');
+  });
+
+  it('should store metadata in a sidecar metadata.json', async () => {
+    expect(await provider.getMetadata('current.db')).toBeNull();
+
+    const metadata: SyncMetadata = {
+      dbName: 'current',
+      lastSyncTimestamp: 1000,
+      lastSyncType: 'push',
+      checksum: 'abc123',
+      version: 1
+    };
+
+    await provider.uploadFile('current.db', Buffer.from('12345'));
+    await provider.updateMetadata(metadata);
+
+    expect(fake.objects.has('backups/.sqlite-cloud-backup/test/metadata.json')).toBe(true);
+    expect(await provider.getMetadata('current.db')).toEqual({ checksum: 'abc123', modifiedAt: 1000, size: 5, generation: 1, etag: expect.any(String) });
+  });
+
+  it('should only replace metadata that is unchanged since it was read', async () => {
+    const metadata: SyncMetadata = {
+      dbName: 'current',
+      lastSyncTimestamp: 1000,
+      lastSyncType: 'push',
+      checksum: 'abc123',
+      version: 1
+    };
+
+    await provider.updateMetadata(metadata, { ifMatch: null });
+    await expect(provider.updateMetadata(metadata, { ifMatch: null })).rejects.toThrow(ConflictError);
+
+    const { etag } = (await provider.getMetadata('current.db'))!;
+    await provider.updateMetadata({ ...metadata, version: 2 }, { ifMatch: etag });
+    await expect(provider.updateMetadata({ ...metadata, version: 3 }, { ifMatch: etag })).rejects.toThrow(ConflictError);
+    expect((await provider.getMetadata('current.db'))?.generation).toBe(2);
+  });
+
+  it('should create a file only if it does not exist', async () => {
+    await provider.createFile('lock.json', Buffer.from('first'));
+    await expect(provider.createFile('lock.json', Buffer.from('second'))).rejects.toThrow(ConflictError);
+
+    expect((await provider.downloadFile('lock.json')).toString()).toBe('first');
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyncScheduler } from '../../src/core/scheduler';
+import SqliteCloudBackup, { FilesystemProvider, Logger } from '../../src/index';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+const logger = new Logger('error');
+
+describe('SyncScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run one interval after starting and after each run', async () => {
+    const run = vi.fn(async () => undefined);
+    const scheduler = new SyncScheduler(run, { interval: 1000 }, logger);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(scheduler.getState()).toMatchObject({ enabled: false, nextRunAt: null });
+  });
+
+  it('should not overlap runs', async () => {
+    let finish!: () => void;
+    const run = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const scheduler = new SyncScheduler(run, { interval: 1000 }, logger);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState().running).toBe(true);
+
+    // The next run is counted from the end of this one
+    finish();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should back off after failures and reset after a success', async () => {
+    const callTimes: number[] = [];
+    let failures = 3;
+    const run = async () => {
+      callTimes.push(Date.now());
+      if (failures-- > 0) throw new Error('offline');
+    };
+    const scheduler = new SyncScheduler(run, { interval: 1000, maxInterval: 3000 }, logger);
+
+    const start = Date.now();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000 + 2000 + 3000 + 3000);
+    expect(scheduler.getState().consecutiveFailures).toBe(0);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // 1s, then 2s, 4s capped at 3s, 3s again after the third failure, then back to 1s
+    expect(callTimes.map(time => time - start)).toEqual([1000, 3000, 6000, 9000, 10_000]);
+    expect(scheduler.getState().lastError).toBeNull();
+  });
+
+  it('should record the last error', async () => {
+    const scheduler = new SyncScheduler(async () => { throw new Error('offline'); }, { interval: 1000 }, logger);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(scheduler.getState()).toMatchObject({ consecutiveFailures: 1, lastError: { code: 'UNKNOWN', message: 'offline' } });
+    expect(scheduler.getDelay()).toBe(2000);
+  });
+
+  it('should hold runs while paused and catch up on resume', async () => {
+    const run = vi.fn(async () => undefined);
+    const scheduler = new SyncScheduler(run, { interval: 1000 }, logger);
+
+    scheduler.start();
+    scheduler.pause();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).not.toHaveBeenCalled();
+    expect(scheduler.getState()).toMatchObject({ enabled: true, paused: true });
+
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run now on request, after the run in progress', async () => {
+    let finish!: () => void;
+    const run = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const scheduler = new SyncScheduler(run, { interval: 60_000 }, logger);
+
+    scheduler.start();
+    scheduler.runNow();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    scheduler.runNow();
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(2);
+
+    // Back on the regular interval afterwards
+    finish();
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.getState().nextRunAt).toBe(Date.now() + 1);
+  });
+
+  it('should ignore run requests while backing off', async () => {
+    const run = vi.fn(async () => { throw new Error('offline'); });
+    const scheduler = new SyncScheduler(run, { interval: 1000 }, logger);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.runNow();
+    await vi.advanceTimersByTimeAsync(1999);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it('should validate options', () => {
+    expect(() => new SyncScheduler(async () => undefined, { interval: 0 }, logger)).toThrow('interval');
+    expect(() => new SyncScheduler(async () => undefined, { interval: 1000, maxInterval: 10 }, logger)).toThrow('maxInterval');
+  });
+});
+
+describe('Auto-sync', () => {
+  const testDir = path.join(__dirname, 'test-auto-sync');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'app.db');
+
+  class SignedOutProvider extends FilesystemProvider {
+    authenticate = vi.fn(async () => undefined);
+
+    constructor() {
+      super({ basePath: backupDir }, 'app', new Logger('error'));
+    }
+
+    async needsAuthentication(): Promise<boolean> {
+      return true;
+    }
+  }
+
+  const createBackup = (provider = new FilesystemProvider({ basePath: backupDir }, 'app', new Logger('error'))) =>
+    new SqliteCloudBackup({ dbPath, provider, options: { logLevel: 'error' } });
+
+  const cloudFile = path.join(backupDir, '.sqlite-cloud-backup', 'app', 'current.db');
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const db = new Database(dbPath);
+    db.exec("CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES ('hello');");
+    db.close();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should attempt a final sync on shutdown', async () => {
+    const backup = createBackup();
+
+    backup.enableAutoSync({ interval: 60_000 });
+    expect(backup.getAutoSyncState()).toMatchObject({ enabled: true, running: false, watching: false });
+    await backup.shutdown();
+
+    expect(fs.existsSync(cloudFile)).toBe(true);
+    expect(backup.getAutoSyncState().enabled).toBe(false);
+  });
+
+  it('should skip the final sync when disabled, paused or opted out', async () => {
+    const disabled = createBackup();
+    disabled.enableAutoSync({ interval: 60_000 });
+    disabled.disableAutoSync();
+    await disabled.shutdown();
+
+    const paused = createBackup();
+    paused.enableAutoSync({ interval: 60_000 });
+    paused.pauseAutoSync();
+    await paused.shutdown();
+
+    const optedOut = createBackup();
+    optedOut.enableAutoSync({ interval: 60_000, syncOnShutdown: false });
+    await optedOut.shutdown();
+
+    expect(fs.existsSync(cloudFile)).toBe(false);
+  });
+
+  it('should sync shortly after a local commit when watching', async () => {
+    const backup = createBackup();
+    const completed = new Promise(resolve => backup.once('sync-complete', resolve));
+
+    backup.enableAutoSync({ interval: 60_000, watch: { pollInterval: 10, quietPeriod: 20 } });
+    expect(backup.getAutoSyncState().watching).toBe(true);
+
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO notes VALUES (?)').run('from the app');
+    db.close();
+
+    await completed;
+    expect(fs.existsSync(cloudFile)).toBe(true);
+    backup.disableAutoSync();
+    expect(backup.getAutoSyncState().watching).toBe(false);
+  });
+
+  it('should not start interactive authentication from the background', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const provider = new SignedOutProvider();
+    const backup = createBackup(provider);
+    const reasons: string[] = [];
+    backup.on('auth-required', ({ reason }) => reasons.push(reason));
+
+    backup.enableAutoSync({ interval: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(provider.authenticate).not.toHaveBeenCalled();
+    expect(reasons).toHaveLength(1);
+    expect(backup.getAutoSyncState()).toMatchObject({
+      consecutiveFailures: 1,
+      lastError: { code: 'AUTH_REQUIRED' },
+      nextRunAt: Date.now() + 2000
+    });
+    backup.disableAutoSync();
+  });
+});
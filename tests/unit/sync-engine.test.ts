@@ -1,10 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SyncEngine } from '../../src/core/sync-engine';
 import { DatabaseManager } from '../../src/core/db-manager';
 import { BaseProvider } from '../../src/providers/base-provider';
 import { Logger } from '../../src/utils/logger';
 import { ChecksumUtil } from '../../src/utils/checksum';
 import { ProviderMetadata, SyncMetadata } from '../../src/types';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock provider implementation
 class MockProvider extends BaseProvider {
@@ -30,7 +33,8 @@ class MockProvider extends BaseProvider {
     return {
       checksum: this.metadata.checksum,
       modifiedAt: this.metadata.lastSyncTimestamp,
-      size: 0
+      size: 0,
+      compression: this.metadata.compression
     };
   }
 
@@ -41,6 +45,10 @@ class MockProvider extends BaseProvider {
   async deleteFile(fileName: string): Promise<void> {
     this.files.delete(fileName);
   }
+
+  async listFiles(folder: string): Promise<string[]> {
+    return [...this.files.keys()].filter(name => name.startsWith(`${folder}/`));
+  }
 }
 
 describe('SyncEngine', () => {
@@ -48,6 +56,9 @@ describe('SyncEngine', () => {
   let mockDbManager: DatabaseManager;
   let mockProvider: MockProvider;
   let logger: Logger;
+  let workDir: string;
+  let localBuffer: Buffer;
+  let replacedWith: Buffer | null;
 
   const testDbBuffer = Buffer.from('test database content');
   const testChecksum = 'abc123def456'; // Simplified for testing
@@ -55,13 +66,26 @@ describe('SyncEngine', () => {
   beforeEach(() => {
     logger = new Logger('error'); // Suppress logs during tests
     mockProvider = new MockProvider();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-engine-'));
+    localBuffer = testDbBuffer;
+    replacedWith = null;
 
-    // Mock DatabaseManager
+    // Mock DatabaseManager; snapshots and replacements go through real files in workDir
     mockDbManager = {
-      getBuffer: vi.fn().mockResolvedValue(testDbBuffer),
+      createSnapshot: vi.fn(async (snapshotPath = path.join(workDir, `snapshot-${Date.now()}.db`)) => {
+        await fs.promises.writeFile(snapshotPath, localBuffer);
+        return snapshotPath;
+      }),
+      removeSnapshot: vi.fn((snapshotPath: string) => fs.promises.rm(snapshotPath, { force: true })),
+      getWorkPath: vi.fn((fileName: string) => path.join(workDir, fileName)),
       getChecksum: vi.fn().mockResolvedValue(testChecksum),
-      replaceWithBuffer: vi.fn().mockResolvedValue(undefined),
+      replaceWithFile: vi.fn(async (sourcePath: string) => {
+        replacedWith = await fs.promises.readFile(sourcePath);
+        await fs.promises.rm(sourcePath);
+      }),
       updateLocalMetadata: vi.fn().mockResolvedValue(undefined),
+      getLocalMetadata: vi.fn().mockResolvedValue({ lastSyncTimestamp: 0, lastSyncChecksum: '' }),
+      getPath: vi.fn().mockReturnValue('/tmp/test.db'),
       getModifiedTime: vi.fn().mockResolvedValue(Date.now()),
       close: vi.fn()
     } as unknown as DatabaseManager;
@@ -69,6 +93,10 @@ describe('SyncEngine', () => {
     syncEngine = new SyncEngine(mockDbManager, mockProvider, logger);
   });
 
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
   describe('pushToCloud', () => {
     it('should upload database and update metadata', async () => {
       const result = await syncEngine.pushToCloud();
@@ -81,6 +109,47 @@ describe('SyncEngine', () => {
       expect(mockDbManager.updateLocalMetadata).toHaveBeenCalled();
     });
 
+    it('should create a version snapshot', async () => {
+      await syncEngine.pushToCloud();
+
+      const versions = await syncEngine.listVersions();
+      const checksum = ChecksumUtil.calculateBufferChecksum(testDbBuffer);
+
+      expect(versions).toHaveLength(1);
+      expect(versions[0].checksum).toBe(checksum);
+      expect(mockProvider.files.get(versions[0].fileName)).toEqual(testDbBuffer);
+      expect(mockProvider.metadata?.versionId).toBe(versions[0].id);
+    });
+
+    it('should prune versions beyond the retention policy', async () => {
+      syncEngine = new SyncEngine(mockDbManager, mockProvider, logger, {
+        versioning: { retention: { keepLast: 2 } }
+      });
+
+      const start = Date.now();
+      try {
+        for (let i = 0; i < 4; i++) {
+          vi.setSystemTime(start + i * 1000);
+          await syncEngine.pushToCloud();
+        }
+      } finally {
+        vi.useRealTimers();
+      }
+
+      expect(await syncEngine.listVersions()).toHaveLength(2);
+    });
+
+    it('should skip snapshots when versioning is disabled', async () => {
+      syncEngine = new SyncEngine(mockDbManager, mockProvider, logger, {
+        versioning: { enabled: false }
+      });
+
+      await syncEngine.pushToCloud();
+
+      expect(await syncEngine.listVersions()).toHaveLength(0);
+      expect(mockProvider.metadata?.versionId).toBeUndefined();
+    });
+
     it('should include duration in result', async () => {
       const result = await syncEngine.pushToCloud();
 
@@ -104,7 +173,7 @@ describe('SyncEngine', () => {
       expect(result.success).toBe(true);
       expect(result.type).toBe('pull');
       expect(result.bytesTransferred).toBe(cloudBuffer.length);
-      expect(mockDbManager.replaceWithBuffer).toHaveBeenCalledWith(cloudBuffer);
+      expect(replacedWith).toEqual(cloudBuffer);
       expect(mockDbManager.updateLocalMetadata).toHaveBeenCalled();
     });
 
@@ -123,6 +192,107 @@ describe('SyncEngine', () => {
     });
   });
 
+  describe('compression', () => {
+    const largeBuffer = Buffer.from('SQLite format 3\0'.padEnd(64 * 1024, 'x'));
+
+    beforeEach(() => {
+      localBuffer = largeBuffer;
+    });
+
+    it('should compress uploads and report raw and transferred bytes', async () => {
+      syncEngine = new SyncEngine(mockDbManager, mockProvider, logger, { compression: 'gzip' });
+
+      const result = await syncEngine.pushToCloud();
+
+      expect(result.rawBytes).toBe(largeBuffer.length);
+      expect(result.bytesTransferred).toBe(mockProvider.files.get('current.db')!.length);
+      expect(result.bytesTransferred).toBeLessThan(largeBuffer.length / 10);
+      expect(mockProvider.metadata?.compression).toBe('gzip');
+    });
+
+    it('should decompress on pull using the codec recorded in metadata', async () => {
+      await new SyncEngine(mockDbManager, mockProvider, logger, {
+        compression: { codec: 'brotli', level: 4 }
+      }).pushToCloud();
+
+      // A device without compression configured can still read it
+      const result = await syncEngine.pullFromCloud();
+
+      expect(replacedWith).toEqual(largeBuffer);
+      expect(result.rawBytes).toBe(largeBuffer.length);
+      expect(result.bytesTransferred).toBeLessThan(largeBuffer.length);
+    });
+
+    it('should restore compressed snapshots', async () => {
+      syncEngine = new SyncEngine(mockDbManager, mockProvider, logger, { compression: 'gzip' });
+      await syncEngine.pushToCloud();
+      const [version] = await syncEngine.listVersions();
+
+      await syncEngine.restore(version.id);
+
+      expect(version.fileName.endsWith('.db.gz')).toBe(true);
+      expect(replacedWith).toEqual(largeBuffer);
+    });
+
+    it('should reject invalid levels', () => {
+      expect(() => new SyncEngine(mockDbManager, mockProvider, logger, {
+        compression: { codec: 'gzip', level: 12 }
+      })).toThrow('between 1 and 9');
+    });
+  });
+
+  describe('restore', () => {
+    it('should throw for unknown versions', async () => {
+      await expect(syncEngine.restore(`1000_${'a'.repeat(64)}`)).rejects.toThrow('Version not found');
+      await expect(syncEngine.restore('not-a-version')).rejects.toThrow('Version not found');
+    });
+
+    it('should replace the local database and record the rollback', async () => {
+      await syncEngine.pushToCloud();
+      const [version] = await syncEngine.listVersions();
+
+      const result = await syncEngine.restore(version.id);
+
+      expect(result.versionId).toBe(version.id);
+      expect(result.targetPath).toBe('/tmp/test.db');
+      expect(replacedWith).toEqual(testDbBuffer);
+      expect(mockDbManager.updateLocalMetadata).toHaveBeenLastCalledWith({
+        rollback: expect.objectContaining({ versionId: version.id, checksum: version.checksum })
+      });
+    });
+
+    it('should reject snapshots that fail checksum verification', async () => {
+      await syncEngine.pushToCloud();
+      const [version] = await syncEngine.listVersions();
+      mockProvider.files.set(version.fileName, Buffer.from('tampered'));
+
+      await expect(syncEngine.restore(version.id)).rejects.toThrow('Checksum mismatch');
+      expect(mockDbManager.replaceWithFile).not.toHaveBeenCalled();
+    });
+
+    it('should not push a rolled back database during sync', async () => {
+      mockProvider.files.set('current.db', Buffer.from('newer cloud data'));
+      mockProvider.metadata = {
+        dbName: 'current',
+        lastSyncTimestamp: Date.now() - 10000,
+        lastSyncType: 'push',
+        checksum: 'newer-checksum',
+        version: 1
+      };
+      vi.mocked(mockDbManager.getLocalMetadata).mockResolvedValue({
+        lastSyncTimestamp: 0,
+        lastSyncChecksum: '',
+        rollback: { versionId: 'v1', checksum: testChecksum, timestamp: Date.now() }
+      });
+
+      const result = await syncEngine.sync();
+
+      expect(result.bytesTransferred).toBe(0);
+      expect(mockProvider.files.get('current.db')?.toString()).toBe('newer cloud data');
+      expect(mockDbManager.replaceWithFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('sync (bidirectional)', () => {
     it('should push when no cloud version exists', async () => {
       const result = await syncEngine.sync();
@@ -200,7 +370,105 @@ describe('SyncEngine', () => {
 
       expect(result.success).toBe(true);
       expect(result.type).toBe('pull');
-      expect(mockDbManager.replaceWithBuffer).toHaveBeenCalledWith(cloudBuffer);
+      expect(replacedWith).toEqual(cloudBuffer);
+    });
+
+    it('should push when only local changed, even if the cloud clock is ahead', async () => {
+      mockProvider.files.set('current.db', Buffer.from('base data'));
+      mockProvider.metadata = {
+        dbName: 'current',
+        lastSyncTimestamp: Date.now() + 60000, // Other laptop's clock runs fast
+        lastSyncType: 'push',
+        checksum: 'base-checksum',
+        version: 1
+      };
+      vi.mocked(mockDbManager.getLocalMetadata).mockResolvedValue({
+        lastSyncTimestamp: Date.now() - 10000,
+        lastSyncChecksum: 'base-checksum'
+      });
+
+      const result = await syncEngine.sync();
+
+      expect(result.state).toBe('local-changed');
+      expect(result.type).toBe('push');
+    });
+
+    it('should pull when only cloud changed, even if local mtime is newer', async () => {
+      const cloudBuffer = Buffer.from('cloud edit');
+      mockProvider.files.set('current.db', cloudBuffer);
+      mockProvider.metadata = {
+        dbName: 'current',
+        lastSyncTimestamp: Date.now() - 60000,
+        lastSyncType: 'push',
+        checksum: ChecksumUtil.calculateBufferChecksum(cloudBuffer),
+        version: 1
+      };
+      vi.mocked(mockDbManager.getLocalMetadata).mockResolvedValue({
+        lastSyncTimestamp: Date.now() - 120000,
+        lastSyncChecksum: testChecksum
+      });
+      vi.mocked(mockDbManager.getModifiedTime).mockResolvedValue(Date.now());
+
+      const result = await syncEngine.sync();
+
+      expect(result.state).toBe('cloud-changed');
+      expect(result.type).toBe('pull');
+      expect(replacedWith).toEqual(cloudBuffer);
+    });
+
+    it('should report a conflict when both sides changed', async () => {
+      mockProvider.files.set('current.db', Buffer.from('cloud edit'));
+      mockProvider.metadata = {
+        dbName: 'current',
+        lastSyncTimestamp: Date.now() - 10000,
+        lastSyncType: 'push',
+        checksum: 'cloud-checksum',
+        version: 1
+      };
+      vi.mocked(mockDbManager.getLocalMetadata).mockResolvedValue({
+        lastSyncTimestamp: Date.now() - 20000,
+        lastSyncChecksum: 'base-checksum'
+      });
+
+      const result = await syncEngine.sync();
+
+      expect(result.state).toBe('conflict');
+      expect(result.type).toBe('push');
+    });
+
+    it('should record converged checksums as the new base', async () => {
+      mockProvider.files.set('current.db', testDbBuffer);
+      mockProvider.metadata = {
+        dbName: 'current',
+        lastSyncTimestamp: Date.now(),
+        lastSyncType: 'push',
+        checksum: testChecksum,
+        version: 1
+      };
+      vi.mocked(mockDbManager.getLocalMetadata).mockResolvedValue({
+        lastSyncTimestamp: 0,
+        lastSyncChecksum: 'old-base'
+      });
+
+      const result = await syncEngine.sync();
+
+      expect(result.state).toBe('unchanged');
+      expect(mockDbManager.updateLocalMetadata).toHaveBeenCalledWith(
+        expect.objectContaining({ lastSyncChecksum: testChecksum })
+      );
+    });
+  });
+
+  describe('detectSyncState', () => {
+    it('should classify changes against the base checksum', () => {
+      expect(SyncEngine.detectSyncState('a', 'a', 'base')).toBe('unchanged');
+      expect(SyncEngine.detectSyncState('a', 'base', 'base')).toBe('local-changed');
+      expect(SyncEngine.detectSyncState('base', 'b', 'base')).toBe('cloud-changed');
+      expect(SyncEngine.detectSyncState('a', 'b', 'base')).toBe('conflict');
+    });
+
+    it('should treat a missing base as a conflict', () => {
+      expect(SyncEngine.detectSyncState('a', 'b', '')).toBe('conflict');
     });
   });
 });
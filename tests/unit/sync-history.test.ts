@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SyncHistory } from '../../src/core/sync-history';
+import SqliteCloudBackup, { ConflictError, FilesystemProvider, Logger, SyncError, SyncResult } from '../../src/index';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+const logger = new Logger('error');
+
+const result = (timestamp: number, overrides: Partial<SyncResult> = {}): SyncResult => ({
+  success: true,
+  type: 'push',
+  timestamp,
+  localChecksum: 'abc',
+  cloudChecksum: 'abc',
+  bytesTransferred: 10,
+  rawBytes: 10,
+  duration: 5,
+  ...overrides
+});
+
+describe('SyncHistory', () => {
+  const testDir = path.join(__dirname, 'test-sync-history');
+  const historyPath = path.join(testDir, 'history.json');
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep the newest results up to its size', async () => {
+    const history = new SyncHistory(historyPath, 3, logger);
+
+    for (let i = 1; i <= 5; i++) await history.add(result(i));
+
+    expect((await history.list()).map(entry => entry.timestamp)).toEqual([5, 4, 3]);
+    expect((await history.list(2)).map(entry => entry.timestamp)).toEqual([5, 4]);
+    expect(await new SyncHistory(historyPath, 3, logger).list()).toHaveLength(3);
+  });
+
+  it('should restore errors with their code', async () => {
+    const history = new SyncHistory(historyPath, undefined, logger);
+
+    await history.add(result(1, { success: false, error: new ConflictError('Cloud moved') }));
+
+    const [entry] = await history.list();
+    expect(entry.error).toBeInstanceOf(SyncError);
+    expect(entry.error).toMatchObject({ code: 'CONFLICT', message: 'Cloud moved' });
+  });
+
+  it('should start over when the file is unreadable', async () => {
+    fs.writeFileSync(historyPath, '{ not json');
+    const history = new SyncHistory(historyPath, undefined, logger);
+
+    expect(await history.list()).toEqual([]);
+    await history.add(result(1));
+    expect(await history.list()).toHaveLength(1);
+  });
+
+  it('should record nothing with size 0 and validate its options', async () => {
+    await new SyncHistory(historyPath, 0, logger).add(result(1));
+
+    expect(fs.existsSync(historyPath)).toBe(false);
+    expect(() => new SyncHistory(historyPath, -1, logger)).toThrow('History size');
+    await expect(new SyncHistory(historyPath, 1, logger).list(-1)).rejects.toThrow('limit');
+  });
+});
+
+describe('Sync status', () => {
+  const testDir = path.join(__dirname, 'test-sync-status');
+  const backupDir = path.join(testDir, 'backups');
+  const dbPath = path.join(testDir, 'app.db');
+
+  class OfflineProvider extends FilesystemProvider {
+    offline = false;
+
+    constructor() {
+      super({ basePath: backupDir }, 'app', logger);
+    }
+
+    async getMetadata(fileName: string) {
+      if (this.offline) throw new Error('getaddrinfo ENOTFOUND');
+      return super.getMetadata(fileName);
+    }
+  }
+
+  const createBackup = (provider = new OfflineProvider()) =>
+    new SqliteCloudBackup({ dbPath, provider, options: { logLevel: 'error', retry: { maxRetries: 0 } } });
+
+  const addNote = (note: string) => {
+    const db = new Database(dbPath);
+    db.prepare('INSERT INTO notes VALUES (?)').run(note);
+    db.close();
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const db = new Database(dbPath);
+    db.exec("CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES ('hello');");
+    db.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report pending changes until they are pushed', async () => {
+    const backup = createBackup();
+
+    expect(await backup.getStatus()).toMatchObject({
+      authenticated: true,
+      lastSyncAt: null,
+      cloud: null,
+      state: null,
+      pendingChanges: true,
+      lastError: null,
+      autoSync: { enabled: false }
+    });
+
+    const pushed = await backup.pushToCloud();
+    expect(await backup.getStatus()).toMatchObject({
+      localChecksum: pushed.localChecksum,
+      lastSyncAt: expect.any(Number),
+      lastSyncChecksum: pushed.localChecksum,
+      lastSyncGeneration: 1,
+      cloud: { checksum: pushed.cloudChecksum, generation: 1, deviceId: (await backup.getStatus()).deviceId },
+      state: 'unchanged',
+      pendingChanges: false
+    });
+
+    addNote('later');
+    expect(await backup.getStatus()).toMatchObject({ state: 'local-changed', pendingChanges: true });
+  });
+
+  it('should record failures in the history and report the last one', async () => {
+    const provider = new OfflineProvider();
+    const backup = createBackup(provider);
+    await backup.pushToCloud();
+
+    provider.offline = true;
+    await expect(backup.sync()).rejects.toThrow('ENOTFOUND');
+
+    const status = await backup.getStatus();
+    expect(status.lastError).toMatchObject({ code: 'PROVIDER_ERROR', message: 'getaddrinfo ENOTFOUND' });
+    expect(status.cloud).toBeNull();
+
+    const history = await createBackup().getSyncHistory();
+    expect(history.map(entry => [entry.type, entry.success])).toEqual([['bidirectional', false], ['push', true]]);
+    expect(await backup.getSyncHistory({ limit: 1 })).toHaveLength(1);
+
+    provider.offline = false;
+    await backup.sync();
+    expect((await backup.getStatus()).lastError).toBeNull();
+  });
+});
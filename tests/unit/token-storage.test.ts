@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { TokenStorage, StoredTokens } from '../../src/providers/google-drive/token-storage';
+import { AuthenticationRequiredError } from '../../src/errors';
 import fs from 'fs';
 import path from 'path';
 
@@ -67,6 +68,13 @@ describe('TokenStorage', () => {
       const tokenDir = path.join(testDir, '.sqlite-cloud-backup');
       expect(fs.existsSync(tokenDir)).toBe(true);
     });
+
+    it('should throw AuthenticationRequiredError when tokens cannot be saved', async () => {
+      // A file where the storage directory should be
+      fs.writeFileSync(path.join(testDir, '.sqlite-cloud-backup'), '');
+
+      await expect(tokenStorage.saveTokens({ refreshToken: 'test-token' })).rejects.toThrow(AuthenticationRequiredError);
+    });
   });
 
   describe('getTokens', () => {
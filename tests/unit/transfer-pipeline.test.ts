@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TransferPipeline } from '../../src/core/transfer-pipeline';
+import { FilesystemProvider } from '../../src/providers/filesystem';
+import { ChecksumUtil } from '../../src/utils/checksum';
+import { EncryptionKey, EncryptionUtil } from '../../src/utils/encryption';
+import { Logger } from '../../src/utils/logger';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+describe('TransferPipeline', () => {
+  const testDir = path.join(__dirname, 'test-transfer-pipeline');
+  const sourcePath = path.join(testDir, 'source.db');
+  const targetPath = path.join(testDir, 'target.db');
+  const cloudFile = path.join(testDir, 'cloud', '.sqlite-cloud-backup', 'test', 'current.db');
+  const content = Buffer.from('SQLite format 3\0'.padEnd(256 * 1024, 'x'));
+  const checksum = ChecksumUtil.calculateBufferChecksum(content);
+  const key = new EncryptionKey({ key: crypto.randomBytes(32), keyId: 'k' });
+  let provider: FilesystemProvider;
+  let transfer: TransferPipeline;
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(sourcePath, content);
+
+    provider = new FilesystemProvider({ basePath: path.join(testDir, 'cloud') }, 'test', new Logger('error'));
+    transfer = new TransferPipeline(provider, new Logger('error'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should hash, compress and encrypt on the way up, and reverse it on the way down', async () => {
+    const uploaded = await transfer.upload(sourcePath, 'current.db', { compression: { codec: 'gzip' }, key });
+
+    const stored = fs.readFileSync(cloudFile);
+    expect(uploaded).toEqual({
+      checksum,
+      rawBytes: content.length,
+      bytesTransferred: stored.length,
+      encryption: { keyId: 'k', checksum: ChecksumUtil.calculateBufferChecksum(stored) }
+    });
+    expect(EncryptionUtil.isEncrypted(stored)).toBe(true);
+    expect(stored.length).toBeLessThan(content.length / 10);
+
+    const downloaded = await transfer.download('current.db', targetPath, {
+      keys: [key],
+      compression: 'gzip',
+      checksum,
+      encryption: uploaded.encryption
+    });
+
+    expect(downloaded).toEqual(uploaded);
+    expect(fs.readFileSync(targetPath).equals(content)).toBe(true);
+  });
+
+  it('should leave the target untouched when verification fails', async () => {
+    await transfer.upload(sourcePath, 'current.db', { compression: { codec: 'none' }, key: null });
+    fs.writeFileSync(targetPath, 'previous');
+
+    await expect(transfer.download('current.db', targetPath, { keys: [], checksum: 'f'.repeat(64) }))
+      .rejects.toThrow('Checksum mismatch');
+
+    expect(fs.readFileSync(targetPath, 'utf-8')).toBe('previous');
+    expect(fs.existsSync(`${targetPath}.download`)).toBe(false);
+  });
+
+  it('should check the stored checksum before decrypting', async () => {
+    const { encryption } = await transfer.upload(sourcePath, 'current.db', { compression: { codec: 'none' }, key });
+
+    const corrupted = fs.readFileSync(cloudFile);
+    corrupted[corrupted.length - 1] ^= 1;
+    fs.writeFileSync(cloudFile, corrupted);
+
+    await expect(transfer.download('current.db', targetPath, { keys: [key], checksum, encryption }))
+      .rejects.toThrow('Checksum mismatch');
+    expect(fs.existsSync(targetPath)).toBe(false);
+  });
+
+  it('should fail the upload when the source is missing', async () => {
+    await expect(transfer.upload(path.join(testDir, 'missing.db'), 'current.db', {
+      compression: { codec: 'none' },
+      key: null
+    })).rejects.toThrow('ENOENT');
+
+    expect(fs.existsSync(cloudFile)).toBe(false);
+  });
+});
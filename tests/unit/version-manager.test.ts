@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { VersionManager } from '../../src/core/version-manager';
+import { FilesystemProvider } from '../../src/providers/filesystem';
+import { Logger } from '../../src/utils/logger';
+import { VersionInfo } from '../../src/types';
+import fs from 'fs';
+import path from 'path';
+
+const checksumA = 'a'.repeat(64);
+const checksumB = 'b'.repeat(64);
+
+function version(isoDate: string): VersionInfo {
+  const timestamp = Date.parse(isoDate);
+  return { id: `${timestamp}_${checksumA}`, fileName: `versions/${timestamp}_${checksumA}.db`, timestamp, checksum: checksumA, compression: 'none', storage: 'file' };
+}
+
+describe('VersionManager', () => {
+  describe('selectVersionsToKeep', () => {
+    const versions = [
+      version('2026-01-01T10:00:00Z'),
+      version('2026-01-15T10:00:00Z'),
+      version('2026-02-02T09:00:00Z'),
+      version('2026-02-03T09:00:00Z'),
+      version('2026-02-03T18:00:00Z'),
+      version('2026-02-04T08:00:00Z'),
+      version('2026-02-04T20:00:00Z')
+    ];
+
+    const kept = (ids: Set<string>) => versions
+      .filter(v => ids.has(v.id))
+      .map(v => new Date(v.timestamp).toISOString());
+
+    it('should keep the last N versions', () => {
+      const keep = VersionManager.selectVersionsToKeep(versions, { keepLast: 2 });
+
+      expect(kept(keep)).toEqual(['2026-02-04T08:00:00.000Z', '2026-02-04T20:00:00.000Z']);
+    });
+
+    it('should keep the newest version per day', () => {
+      const keep = VersionManager.selectVersionsToKeep(versions, { keepDaily: 3 });
+
+      expect(kept(keep)).toEqual([
+        '2026-02-02T09:00:00.000Z',
+        '2026-02-03T18:00:00.000Z',
+        '2026-02-04T20:00:00.000Z'
+      ]);
+    });
+
+    it('should keep the newest version per ISO week and month', () => {
+      // 2026-02-02 is a Monday, so all February versions share one ISO week
+      expect(kept(VersionManager.selectVersionsToKeep(versions, { keepWeekly: 2 }))).toEqual([
+        '2026-01-15T10:00:00.000Z',
+        '2026-02-04T20:00:00.000Z'
+      ]);
+
+      expect(kept(VersionManager.selectVersionsToKeep(versions, { keepMonthly: 12 }))).toEqual([
+        '2026-01-15T10:00:00.000Z',
+        '2026-02-04T20:00:00.000Z'
+      ]);
+    });
+
+    it('should combine rules', () => {
+      const keep = VersionManager.selectVersionsToKeep(versions, { keepLast: 1, keepMonthly: 2 });
+
+      expect(kept(keep)).toEqual(['2026-01-15T10:00:00.000Z', '2026-02-04T20:00:00.000Z']);
+    });
+
+    it('should keep everything when the policy has no rules', () => {
+      expect(VersionManager.selectVersionsToKeep(versions, {}).size).toBe(versions.length);
+    });
+  });
+
+  describe('with a provider', () => {
+    const testDir = path.join(__dirname, 'test-version-manager');
+    let provider: FilesystemProvider;
+    let manager: VersionManager;
+
+    beforeEach(async () => {
+      fs.mkdirSync(testDir, { recursive: true });
+      provider = new FilesystemProvider({ basePath: testDir }, 'test', new Logger('error'));
+      manager = new VersionManager(provider, new Logger('error'), { retention: { keepLast: 2 } });
+      await provider.uploadFile('current.db', Buffer.from('v1'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should create and list versions newest first', async () => {
+      await manager.createVersion('current.db', checksumA, 1000);
+      await provider.uploadFile('current.db', Buffer.from('v2'));
+      await manager.createVersion('current.db', checksumB, 2000);
+
+      const versions = await manager.listVersions();
+
+      expect(versions.map(v => v.id)).toEqual([`2000_${checksumB}`, `1000_${checksumA}`]);
+      expect((await provider.downloadFile(versions[1].fileName)).toString()).toBe('v1');
+      expect((await provider.downloadFile(versions[0].fileName)).toString()).toBe('v2');
+    });
+
+    it('should record the compression codec in the file name', async () => {
+      const created = await manager.createVersion('current.db', checksumA, 1000, 'brotli');
+
+      expect(created.fileName).toBe(`versions/1000_${checksumA}.db.br`);
+      expect(await manager.listVersions()).toEqual([created]);
+      expect(await manager.getVersion(created.id)).toEqual(created);
+    });
+
+    it('should ignore unrelated files in the versions folder', async () => {
+      await provider.uploadFile('versions/notes.txt', Buffer.from('hello'));
+      await manager.createVersion('current.db', checksumA, 1000);
+
+      expect(await manager.listVersions()).toHaveLength(1);
+    });
+
+    it('should prune versions outside the retention policy', async () => {
+      for (const timestamp of [1000, 2000, 3000]) {
+        await manager.createVersion('current.db', checksumA, timestamp);
+      }
+
+      const removed = await manager.prune();
+
+      expect(removed.map(v => v.timestamp)).toEqual([1000]);
+      expect((await manager.listVersions()).map(v => v.timestamp)).toEqual([3000, 2000]);
+    });
+
+    it('should list chunk manifests and only prune those when versioning is disabled', async () => {
+      const manifest = VersionManager.manifestVersion(checksumB, 2000);
+      await provider.uploadFile(manifest.fileName, Buffer.from('{}'));
+      await provider.uploadFile(VersionManager.manifestVersion(checksumB, 3000).fileName, Buffer.from('{}'));
+      const file = await manager.createVersion('current.db', checksumA, 1000);
+
+      expect((await manager.listVersions()).map(v => v.storage)).toEqual(['chunked', 'chunked', 'file']);
+      expect(await manager.getVersion(manifest.id)).toEqual(manifest);
+
+      const disabled = new VersionManager(provider, new Logger('error'), { enabled: false });
+      const removed = await disabled.prune(manifest.id);
+
+      expect(removed.map(v => v.timestamp)).toEqual([3000]);
+      expect(await manager.listVersions()).toEqual([manifest, file]);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebDavProvider } from '../../src/providers/webdav';
+import { Logger } from '../../src/utils/logger';
+import { SyncMetadata } from '../../src/types';
+import { ConflictError } from '../../src/errors';
+import { Readable } from 'stream';
+
+// Minimal WebDAV stand-in: collections and files kept in memory
+function createFakeWebDavServer(expectedAuth: string) {
+  const collections = new Set<string>(['/dav']);
+  const files = new Map<string, { body: Buffer; etag: string }>();
+  const requests: string[] = [];
+  let nextEtag = 1;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const filePath = decodeURIComponent(new URL(req.url || '', 'http://localhost').pathname).replace(/\/$/, '');
+      requests.push(`${req.method} ${filePath}`);
+
+      if (req.headers.authorization !== expectedAuth) {
+        res.writeHead(401);
+        res.end();
+        return;
+      }
+
+      const parent = filePath.substring(0, filePath.lastIndexOf('/'));
+
+      switch (req.method) {
+        case 'MKCOL':
+          if (collections.has(filePath)) {
+            res.writeHead(405);
+          } else if (!collections.has(parent)) {
+            res.writeHead(409);
+          } else {
+            collections.add(filePath);
+            res.writeHead(201);
+          }
+          break;
+        case 'PUT': {
+          const existing = files.get(filePath);
+          const ifMatch = req.headers['if-match'];
+          if (!collections.has(parent)) {
+            res.writeHead(409);
+          } else if ((ifMatch && existing?.etag !== ifMatch) || (req.headers['if-none-match'] === '*' && existing)) {
+            res.writeHead(412);
+          } else {
+            files.set(filePath, { body: Buffer.concat(chunks), etag: `"etag-${nextEtag++}"` });
+            res.writeHead(201);
+          }
+          break;
+        }
+        case 'COPY':
+        case 'MOVE': {
+          const source = files.get(filePath);
+          const destination = decodeURIComponent(new URL(req.headers.destination as string).pathname);
+          if (!source) {
+            res.writeHead(404);
+          } else if (req.headers.overwrite === 'F' && files.has(destination)) {
+            res.writeHead(412);
+          } else {
+            if (req.method === 'MOVE') files.delete(filePath);
+            files.set(destination, source);
+            res.writeHead(201);
+          }
+          break;
+        }
+        case 'GET': {
+          const file = files.get(filePath);
+          res.writeHead(file ? 200 : 404, file ? { ETag: file.etag } : {});
+          res.end(file?.body);
+          return;
+        }
+        case 'PROPFIND': {
+          const file = files.get(filePath);
+          if (req.headers.depth === '1' && collections.has(filePath)) {
+            const children = [...files.keys()].filter((f) => f.substring(0, f.lastIndexOf('/')) === filePath);
+            const entry = (href: string, collection: boolean) => `<d:response><d:href>${encodeURI(href)}</d:href><d:propstat><d:prop><d:resourcetype>${collection ? '<d:collection/>' : ''}</d:resourcetype></d:prop></d:propstat></d:response>`;
+            res.writeHead(207, { 'Content-Type': 'application/xml' });
+            res.end(`<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${entry(`${filePath}/`, true)}${children.map((c) => entry(c, false)).join('')}</d:multistatus>`);
+            return;
+          }
+          if (!file) {
+            res.writeHead(404);
+          } else {
+            res.writeHead(207, { 'Content-Type': 'application/xml' });
+            res.end(`<?xml version="1.0"?><d:multistatus xmlns:d="DAV:"><d:response><d:href>${filePath}</d:href><d:propstat><d:prop><d:getetag>&quot;${file.etag.replace(/"/g, '')}&quot;</d:getetag><d:getcontentlength>${file.body.length}</d:getcontentlength></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>`);
+            return;
+          }
+          break;
+        }
+        case 'DELETE':
+          res.writeHead(files.delete(filePath) ? 204 : 404);
+          break;
+        default:
+          res.writeHead(405);
+      }
+      res.end();
+    });
+  });
+
+  return { server, files, collections, requests };
+}
+
+describe('WebDavProvider', () => {
+  const basicAuth = `Basic ${Buffer.from('alice:secret').toString('base64')}`;
+  const fake = createFakeWebDavServer(basicAuth);
+  let url: string;
+  let provider: WebDavProvider;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => fake.server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(fake.server.address() as AddressInfo).port}/dav/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    fake.files.clear();
+    fake.collections.clear();
+    fake.collections.add('/dav');
+    fake.requests.length = 0;
+
+    provider = new WebDavProvider({ url, username: 'alice', password: 'secret' }, 'test', new Logger('error'));
+  });
+
+  it('should require a url', () => {
+    expect(() => new WebDavProvider({ url: '' }, 'test', new Logger('error'))).toThrow('requires a url');
+  });
+
+  it('should create folders with MKCOL and upload atomically', async () => {
+    await provider.uploadFile('current.db', Buffer.from('database content'));
+
+    expect(fake.collections.has('/dav/.sqlite-cloud-backup')).toBe(true);
+    expect(fake.collections.has('/dav/.sqlite-cloud-backup/test')).toBe(true);
+    expect(fake.requests).toContainEqual(expect.stringMatching(/^MOVE \/dav\/\.sqlite-cloud-backup\/test\/current\.db\.[0-9a-f-]{36}\.tmp$/));
+    expect([...fake.files.keys()].filter(name => name.endsWith('.tmp'))).toEqual([]);
+
+    const buffer = await provider.downloadFile('current.db');
+    expect(buffer.toString()).toBe('database content');
+  });
+
+  it('should reuse existing folders', async () => {
+    fake.collections.add('/dav/.sqlite-cloud-backup');
+    fake.collections.add('/dav/.sqlite-cloud-backup/test');
+
+    await expect(provider.uploadFile('current.db', Buffer.from('data'))).resolves.toBeUndefined();
+  });
+
+  it('should send bearer tokens when configured', async () => {
+    const bearerFake = createFakeWebDavServer('Bearer abc');
+    await new Promise<void>((resolve) => bearerFake.server.listen(0, '127.0.0.1', resolve));
+    const bearerUrl = `http://127.0.0.1:${(bearerFake.server.address() as AddressInfo).port}/dav`;
+
+    try {
+      const bearerProvider = new WebDavProvider({ url: bearerUrl, token: 'abc' }, 'test', new Logger('error'));
+      await bearerProvider.uploadFile('current.db', Buffer.from('data'));
+      expect(await bearerProvider.fileExists('current.db')).toBe(true);
+    } finally {
+      await new Promise((resolve) => bearerFake.server.close(resolve));
+    }
+  });
+
+  it('should surface authentication failures', async () => {
+    const unauthorized = new WebDavProvider({ url, username: 'alice', password: 'wrong' }, 'test', new Logger('error'));
+    await expect(unauthorized.uploadFile('current.db', Buffer.from('data'))).rejects.toThrow('401');
+  });
+
+  it('should report and delete existing files', async () => {
+    expect(await provider.fileExists('current.db')).toBe(false);
+
+    await provider.uploadFile('current.db', Buffer.from('data'));
+    expect(await provider.fileExists('current.db')).toBe(true);
+
+    await provider.deleteFile('current.db');
+    expect(await provider.fileExists('current.db')).toBe(false);
+    await expect(provider.deleteFile('current.db')).resolves.toBeUndefined();
+  });
+
+  it('should remove the temp file when an upload fails', async () => {
+    const failing = new Readable({
+      read() {
+        this.destroy(new Error('Read failed'));
+      }
+    });
+
+    await expect(provider.uploadStream('current.db', failing)).rejects.toThrow();
+
+    expect([...fake.files.keys()].filter(name => name.endsWith('.tmp'))).toEqual([]);
+    expect(fake.files.has('/dav/.sqlite-cloud-backup/test/current.db')).toBe(false);
+  });
+
+  it('should throw when downloading a missing file', async () => {
+    await expect(provider.downloadFile('current.db')).rejects.toThrow('File not found');
+    await expect(provider.downloadStream('current.db')).rejects.toThrow('File not found');
+  });
+
+  it('should stream uploads and downloads', async () => {
+    await provider.uploadStream('current.db', Readable.from([Buffer.from('database '), Buffer.from('content')]));
+
+    expect(fake.requests).toContainEqual(expect.stringMatching(/^MOVE \/dav\/\.sqlite-cloud-backup\/test\/current\.db\.[0-9a-f-]{36}\.tmp$/));
+    const chunks: Buffer[] = [];
+    for await (const chunk of await provider.downloadStream('current.db')) chunks.push(chunk);
+    expect(Buffer.concat(chunks).toString()).toBe('database content');
+  });
+
+  it('should create nested folders and list their files', async () => {
+    expect(await provider.listFiles('versions')).toEqual([]);
+
+    await provider.uploadFile('versions/a b.db', Buffer.from('a'));
+    await provider.uploadFile('versions/c.db', Buffer.from('c'));
+
+    expect(fake.collections.has('/dav/.sqlite-cloud-backup/test/versions')).toBe(true);
+    expect((await provider.listFiles('versions')).sort()).toEqual(['versions/a b.db', 'versions/c.db']);
+  });
+
+  it('should copy files with COPY', async () => {
+    await provider.uploadFile('current.db', Buffer.from('snapshot'));
+    await provider.copyFile('current.db', 'versions/1.db');
+
+    expect(fake.requests).toContain('COPY /dav/.sqlite-cloud-backup/test/current.db');
+    expect((await provider.downloadFile('versions/1.db')).toString()).toBe('snapshot');
+    await expect(provider.copyFile('missing.db', 'versions/2.db')).rejects.toThrow('File not found');
+  });
+
+  it('should only re-download metadata when its ETag changes', async () => {
+    expect(await provider.getMetadata('current.db')).toBeNull();
+
+    const metadata: SyncMetadata = {
+      dbName: 'current',
+      lastSyncTimestamp: 1000,
+      lastSyncType: 'push',
+      checksum: 'abc123',
+      version: 1
+    };
+
+    await provider.uploadFile('current.db', Buffer.from('12345'));
+    await provider.updateMetadata(metadata);
+
+    expect(await provider.getMetadata('current.db')).toEqual({ checksum: 'abc123', modifiedAt: 1000, size: 5, generation: 1, etag: '"etag-9"' });
+    await provider.getMetadata('current.db');
+
+    const metadataGets = () => fake.requests.filter((r) => r === 'GET /dav/.sqlite-cloud-backup/test/metadata.json').length;
+    expect(metadataGets()).toBe(1);
+
+    await provider.updateMetadata({ ...metadata, checksum: 'def456' });
+    const updated = await provider.getMetadata('current.db');
+
+    expect(updated?.checksum).toBe('def456');
+    expect(metadataGets()).toBe(2);
+  });
+
+  it('should only replace metadata that is unchanged since it was read', async () => {
+    const metadata: SyncMetadata = {
+      dbName: 'current',
+      lastSyncTimestamp: 1000,
+      lastSyncType: 'push',
+      checksum: 'abc123',
+      version: 1
+    };
+
+    await provider.updateMetadata(metadata, { ifMatch: null });
+    await expect(provider.updateMetadata(metadata, { ifMatch: null })).rejects.toThrow(ConflictError);
+
+    const { etag } = (await provider.getMetadata('current.db'))!;
+    await provider.updateMetadata({ ...metadata, version: 2 }, { ifMatch: etag });
+    await expect(provider.updateMetadata({ ...metadata, version: 3 }, { ifMatch: etag })).rejects.toThrow(ConflictError);
+    expect((await provider.getMetadata('current.db'))?.generation).toBe(2);
+  });
+
+  it('should create a file only if it does not exist', async () => {
+    await provider.createFile('lock.json', Buffer.from('first'));
+    await expect(provider.createFile('lock.json', Buffer.from('second'))).rejects.toThrow(ConflictError);
+
+    expect((await provider.downloadFile('lock.json')).toString()).toBe('first');
+    expect([...fake.files.keys()].filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+});